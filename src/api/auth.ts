@@ -1,58 +1,19 @@
-import type { SignupRequest, SignupResponse, LoginRequest, LoginResponse, AuthError } from '../types/auth'
-import { API_CONFIG } from '../config/api.config'
+import { api } from '../lib/api-client'
+import { loginRequestSchema, loginResponseSchema, signupRequestSchema, signupResponseSchema } from './schemas'
+import type { SignupRequest, SignupResponse, LoginRequest, LoginResponse } from '../types/auth'
 
 /**
  * Signup a new user
+ * Rejects with an ApiError; invalid fields (checked before sending, or a 422)
+ * carry their messages in `fieldErrors`.
  */
 export const signupUser = async (data: SignupRequest): Promise<SignupResponse> => {
-  try {
-    const response = await fetch(`${API_CONFIG.baseURL}/users`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    })
-
-    if (!response.ok) {
-      const error: AuthError = await response.json()
-      throw new Error(error.detail || 'Signup failed')
-    }
-
-    const result: SignupResponse = await response.json()
-    return result
-  } catch (error) {
-    if (error instanceof Error) {
-      throw error
-    }
-    throw new Error('An unexpected error occurred during signup')
-  }
+  return api.post('/users', data, { skipAuth: true, requestSchema: signupRequestSchema, schema: signupResponseSchema })
 }
 
 /**
  * Login an existing user
  */
 export const loginUser = async (data: LoginRequest): Promise<LoginResponse> => {
-  try {
-    const response = await fetch(`${API_CONFIG.baseURL}/login`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    })
-
-    if (!response.ok) {
-      const error: AuthError = await response.json()
-      throw new Error(error.detail || 'Login failed')
-    }
-
-    const result: LoginResponse = await response.json()
-    return result
-  } catch (error) {
-    if (error instanceof Error) {
-      throw error
-    }
-    throw new Error('An unexpected error occurred during login')
-  }
+  return api.post('/login', data, { skipAuth: true, requestSchema: loginRequestSchema, schema: loginResponseSchema })
 }
@@ -0,0 +1,31 @@
+import { api } from '../lib/api-client'
+import { bookmarkSchema, bookmarksSchema, createBookmarkRequestSchema, updateBookmarkRequestSchema } from './schemas'
+import type { MapBookmark, CreateBookmarkRequest, UpdateBookmarkRequest } from '../types/bookmarks'
+
+/**
+ * Fetch saved map views for the current user
+ */
+export const fetchBookmarks = async (): Promise<MapBookmark[]> => {
+  return api.get('/users/me/bookmarks', { schema: bookmarksSchema })
+}
+
+/**
+ * Save the current map view under a name
+ */
+export const createBookmark = async (data: CreateBookmarkRequest): Promise<MapBookmark> => {
+  return api.post('/users/me/bookmarks', data, { requestSchema: createBookmarkRequestSchema, schema: bookmarkSchema })
+}
+
+/**
+ * Update a saved map view (rename or replace its view)
+ */
+export const updateBookmark = async (id: number, data: UpdateBookmarkRequest): Promise<MapBookmark> => {
+  return api.put(`/users/me/bookmarks/${id}`, data, { requestSchema: updateBookmarkRequestSchema, schema: bookmarkSchema })
+}
+
+/**
+ * Delete a saved map view
+ */
+export const deleteBookmark = async (id: number): Promise<void> => {
+  await api.delete(`/users/me/bookmarks/${id}`)
+}
@@ -0,0 +1,86 @@
+import { api } from '../lib/api-client'
+import { noaaDatumsSchema, noaaFloodLevelsSchema, noaaStationSchema } from './schemas'
+import { normalizeDatum, type DatumOffsets } from '../utils/units'
+import type { FloodStageLevel, FloodStageValues, StationFloodStages } from '../utils/floodStages'
+import type { StationTimeZone } from '../utils/timeZone'
+import type { NoaaFloodLevelsResponse } from '../types/noaa'
+
+const NOAA_METADATA_URL = 'https://api.tidesandcurrents.noaa.gov/mdapi/prod/webapi'
+
+// Public NOAA data: no backend token, default API timeout
+const NOAA_REQUEST = { skipAuth: true }
+
+/**
+ * Fetch tidal and geodetic datums for a NOAA station
+ * Values are feet above the station datum, so any two can be differenced.
+ */
+export const fetchStationDatums = async (stationId: string, signal?: AbortSignal): Promise<DatumOffsets> => {
+  const data = await api.get(`${NOAA_METADATA_URL}/stations/${encodeURIComponent(stationId)}/datums.json?units=english`, {
+    ...NOAA_REQUEST,
+    signal,
+    schema: noaaDatumsSchema,
+  })
+  const offsets: DatumOffsets = {}
+  for (const item of data.datums ?? []) {
+    const datum = normalizeDatum(item.name)
+    if (datum && typeof item.value === 'number') {
+      offsets[datum] = item.value
+    }
+  }
+  return offsets
+}
+
+const FLOOD_STAGE_FIELDS: Record<FloodStageLevel, Array<keyof NoaaFloodLevelsResponse>> = {
+  action: ['nws_action', 'action'],
+  minor: ['nws_minor', 'nos_minor', 'minor'],
+  moderate: ['nws_moderate', 'nos_moderate', 'moderate'],
+  major: ['nws_major', 'nos_major', 'major'],
+}
+
+/**
+ * Fetch NOAA/NWS flood stages for a station, referenced to MLLW
+ * Flood levels are published above the station datum, so the station's
+ * MLLW elevation is subtracted. Prefers NWS stages over NOS thresholds.
+ */
+export const fetchStationFloodStages = async (stationId: string, signal?: AbortSignal): Promise<StationFloodStages> => {
+  const [data, datums] = await Promise.all([
+    api.get(`${NOAA_METADATA_URL}/stations/${encodeURIComponent(stationId)}/floodlevels.json?units=english`, {
+      ...NOAA_REQUEST,
+      signal,
+      schema: noaaFloodLevelsSchema,
+    }),
+    fetchStationDatums(stationId, signal),
+  ])
+  if (datums.MLLW === undefined) {
+    throw new Error('Station has no MLLW datum')
+  }
+
+  const stages: FloodStageValues = {}
+  for (const [level, fields] of Object.entries(FLOOD_STAGE_FIELDS) as Array<[FloodStageLevel, Array<keyof NoaaFloodLevelsResponse>]>) {
+    const value = fields.map((field) => data[field]).find((item) => typeof item === 'number')
+    if (value !== undefined) {
+      stages[level] = value - datums.MLLW
+    }
+  }
+  return { datum: 'MLLW', stages }
+}
+
+/**
+ * Fetch a NOAA station's time zone (standard offset and daylight saving)
+ */
+export const fetchStationTimeZone = async (stationId: string, signal?: AbortSignal): Promise<StationTimeZone> => {
+  const data = await api.get(`${NOAA_METADATA_URL}/stations/${encodeURIComponent(stationId)}.json`, {
+    ...NOAA_REQUEST,
+    signal,
+    schema: noaaStationSchema,
+  })
+  const station = data.stations?.[0]
+  if (typeof station?.timezonecorr !== 'number') {
+    throw new Error('Station has no time zone')
+  }
+  return {
+    offsetHours: station.timezonecorr,
+    observesDst: station.observedst !== false,
+    abbreviation: station.timezone || undefined,
+  }
+}
@@ -0,0 +1,304 @@
+import { GEOSERVER_CONFIG } from '../config/geoserver.config'
+import type { FeatureInfoFeature, FeatureInfoFormat, FeatureInfoRequest, FeatureInfoResponse } from '../types/wms'
+
+export type FeatureInfoErrorCode =
+  | 'HTTP_ERROR' // Non-2xx response
+  | 'SERVICE_EXCEPTION' // WMS ServiceException report
+  | 'UNSUPPORTED_FORMAT' // Server can't produce the requested INFO_FORMAT
+  | 'PARSE_ERROR' // Response body doesn't match the format
+
+/**
+ * Typed GetFeatureInfo failure
+ * Aborted requests are not wrapped; they still reject with the fetch AbortError.
+ */
+export class FeatureInfoError extends Error {
+  readonly code: FeatureInfoErrorCode
+  readonly format?: FeatureInfoFormat
+  readonly status?: number
+
+  constructor(code: FeatureInfoErrorCode, message: string, options: { format?: FeatureInfoFormat; status?: number } = {}) {
+    super(message)
+    this.name = 'FeatureInfoError'
+    this.code = code
+    this.format = options.format
+    this.status = options.status
+  }
+}
+
+// JSON first (structured, typed values), GML next, plain text as a last resort
+export const DEFAULT_FEATURE_INFO_FORMATS: FeatureInfoFormat[] = ['application/json', 'application/vnd.ogc.gml', 'text/plain']
+
+// Formats the server rejected this session, so later requests skip them
+const unsupportedFormats = new Set<FeatureInfoFormat>()
+
+// Numeric-looking text becomes a number; empty text becomes null
+const coerceValue = (text: string): string | number | null => {
+  const trimmed = text.trim()
+  if (trimmed === '' || trimmed.toLowerCase() === 'null') return null
+  const num = Number(trimmed)
+  return Number.isNaN(num) ? trimmed : num
+}
+
+// Drop the workspace prefix and feature id suffix ("flood-app:layer.fid-1" -> "layer")
+const unqualify = (name: string | undefined): string | undefined => {
+  if (!name) return undefined
+  return name.split(':').pop()?.split('.')[0] || undefined
+}
+
+const parseJSONDocument = (text: string): unknown => {
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new FeatureInfoError('PARSE_ERROR', 'Invalid JSON GetFeatureInfo response', { format: 'application/json' })
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// GeoJSON property values the feature model can hold; nested values are dropped
+const toPropertyValue = (value: unknown): FeatureInfoFeature['properties'][string] | undefined => {
+  return value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+    ? value
+    : undefined
+}
+
+const featuresFromGeoJSON = (data: unknown): FeatureInfoFeature[] => {
+  if (!isRecord(data) || !Array.isArray(data.features)) {
+    throw new FeatureInfoError('PARSE_ERROR', 'GetFeatureInfo response has no features array', { format: 'application/json' })
+  }
+
+  return data.features.filter(isRecord).map((feature) => {
+    const id = typeof feature.id === 'string' || typeof feature.id === 'number' ? String(feature.id) || undefined : undefined
+    const properties: FeatureInfoFeature['properties'] = {}
+    if (isRecord(feature.properties)) {
+      for (const [key, raw] of Object.entries(feature.properties)) {
+        const value = toPropertyValue(raw)
+        if (value !== undefined) properties[key] = value
+      }
+    }
+    return {
+      id,
+      layer: unqualify(id),
+      properties,
+      geometry: feature.geometry ?? undefined,
+    }
+  })
+}
+
+/**
+ * Parse a GeoJSON FeatureCollection (application/json)
+ */
+export const parseJSONFeatureInfo = (text: string): FeatureInfoFeature[] => {
+  return featuresFromGeoJSON(parseJSONDocument(text))
+}
+
+/**
+ * Parse a GML feature collection (application/vnd.ogc.gml)
+ * Every featureMember child is a feature; its element name is the layer and
+ * its simple-content children are the properties (geometry elements are skipped).
+ */
+export const parseGMLFeatureInfo = (text: string): FeatureInfoFeature[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new FeatureInfoError('PARSE_ERROR', 'Invalid GML GetFeatureInfo response', { format: 'application/vnd.ogc.gml' })
+  }
+
+  const members = [
+    ...Array.from(doc.getElementsByTagNameNS('*', 'featureMember')),
+    ...Array.from(doc.getElementsByTagNameNS('*', 'featureMembers')),
+  ]
+
+  return members.flatMap((member) => Array.from(member.children).map((element) => {
+    const properties: FeatureInfoFeature['properties'] = {}
+    for (const child of Array.from(element.children)) {
+      if (child.children.length === 0) {
+        properties[child.localName] = coerceValue(child.textContent ?? '')
+      }
+    }
+
+    const id = element.getAttribute('fid')
+      ?? element.getAttributeNS('http://www.opengis.net/gml', 'id')
+      ?? element.getAttribute('gml:id')
+      ?? undefined
+
+    return { id, layer: element.localName, properties }
+  }))
+}
+
+/**
+ * Parse GeoServer's plain text output (text/plain)
+ * Blocks start with "Results for FeatureType '...':", features are separated by
+ * dashed lines and properties are "name = value" lines.
+ */
+export const parsePlainFeatureInfo = (text: string): FeatureInfoFeature[] => {
+  const features: FeatureInfoFeature[] = []
+  let layer: string | undefined
+  let current: FeatureInfoFeature | null = null
+
+  const flush = () => {
+    if (current && Object.keys(current.properties).length > 0) features.push(current)
+    current = null
+  }
+
+  for (const line of text.split(/\r?\n/)) {
+    const header = /^Results for FeatureType '(.+)':/.exec(line)
+    if (header) {
+      flush()
+      layer = unqualify(header[1].split('/').pop())
+      continue
+    }
+
+    if (/^-{3,}/.test(line.trim())) {
+      flush()
+      continue
+    }
+
+    const property = /^\s*([^=]+?)\s*=\s*(.*)$/.exec(line)
+    if (property) {
+      current ??= { layer, properties: {} }
+      current.properties[property[1]] = coerceValue(property[2])
+    }
+  }
+  flush()
+
+  return features
+}
+
+const PARSERS: Record<FeatureInfoFormat, (text: string) => FeatureInfoFeature[]> = {
+  'application/json': parseJSONFeatureInfo,
+  'application/vnd.ogc.gml': parseGMLFeatureInfo,
+  'text/plain': parsePlainFeatureInfo,
+}
+
+// Read a ServiceExceptionReport, if the body is one
+const readServiceException = (text: string): { code: string | null; message: string } | null => {
+  if (!text.includes('ServiceException')) return null
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  const exception = doc.getElementsByTagNameNS('*', 'ServiceException')[0]
+  if (!exception) return null
+  return { code: exception.getAttribute('code'), message: exception.textContent?.trim() || 'WMS service exception' }
+}
+
+const requestFeatureInfo = async (request: FeatureInfoRequest, format: FeatureInfoFormat): Promise<FeatureInfoResponse> => {
+  const layerString = request.layers.join(',')
+  const params = new URLSearchParams({
+    SERVICE: 'WMS',
+    VERSION: '1.1.1',
+    REQUEST: 'GetFeatureInfo',
+    FORMAT: 'image/png',
+    TRANSPARENT: 'true',
+    QUERY_LAYERS: layerString,
+    LAYERS: layerString,
+    STYLES: '',
+    exceptions: 'application/vnd.ogc.se_xml', // XML exceptions can be told apart from results
+    INFO_FORMAT: format,
+    FEATURE_COUNT: String(request.featureCount ?? 50),
+    X: String(Math.round(request.x)),
+    Y: String(Math.round(request.y)),
+    SRS: 'EPSG:4326',
+    WIDTH: String(request.width),
+    HEIGHT: String(request.height),
+    BBOX: request.bbox,
+  })
+
+  if (request.time) {
+    params.set('TIME', request.time)
+  }
+
+  const response = await fetch(`${GEOSERVER_CONFIG.workspaceWmsURL}?${params}`, { signal: request.signal })
+  const text = await response.text()
+
+  const exception = readServiceException(text)
+  if (exception) {
+    const unsupported = exception.code === 'InvalidFormat'
+      || (/format/i.test(exception.message) && /not (supported|recogni[sz]ed)/i.test(exception.message))
+    throw new FeatureInfoError(unsupported ? 'UNSUPPORTED_FORMAT' : 'SERVICE_EXCEPTION', exception.message, { format, status: response.status })
+  }
+
+  if (!response.ok) {
+    throw new FeatureInfoError('HTTP_ERROR', `GetFeatureInfo request failed: ${response.status}`, { format, status: response.status })
+  }
+
+  if (format === 'application/json') {
+    const raw = parseJSONDocument(text)
+    return { format, features: featuresFromGeoJSON(raw), raw }
+  }
+
+  return { format, features: PARSERS[format](text) }
+}
+
+/**
+ * Run GetFeatureInfo, falling back through `formats` when the server rejects one
+ * Only UNSUPPORTED_FORMAT (and parse failures of an unexpected body) fall through;
+ * HTTP and service errors are thrown as-is.
+ */
+export const fetchFeatureInfo = async (request: FeatureInfoRequest): Promise<FeatureInfoResponse> => {
+  const requested = request.formats ?? DEFAULT_FEATURE_INFO_FORMATS
+  const formats = requested.filter((format) => !unsupportedFormats.has(format))
+  let lastError: FeatureInfoError | null = null
+
+  for (const format of formats.length > 0 ? formats : requested) {
+    try {
+      return await requestFeatureInfo(request, format)
+    } catch (error) {
+      if (!(error instanceof FeatureInfoError) || (error.code !== 'UNSUPPORTED_FORMAT' && error.code !== 'PARSE_ERROR')) {
+        throw error
+      }
+      if (error.code === 'UNSUPPORTED_FORMAT') unsupportedFormats.add(format)
+      lastError = error
+    }
+  }
+
+  throw lastError ?? new FeatureInfoError('UNSUPPORTED_FORMAT', 'No GetFeatureInfo format available')
+}
+
+export interface RasterValueOptions {
+  band?: string // Property name of the band (default: GRAY_INDEX, then a band_N property, then the first numeric property)
+  noData?: number[] // Extra NoData values for this layer
+  allowNegative?: boolean // Depth rasters use negative values as NoData (default false)
+}
+
+// Common NoData sentinels: GDAL/ArcGIS defaults and float32 extremes
+const NODATA_SENTINELS = [-9999, -32768, -3.4028234663852886e38, 3.4028234663852886e38]
+
+/**
+ * Read a raster band value from a feature, or null for NoData
+ */
+export const readRasterValue = (feature: FeatureInfoFeature, options: RasterValueOptions = {}): number | null => {
+  const { properties } = feature
+  const bandName = options.band
+    ?? ('GRAY_INDEX' in properties ? 'GRAY_INDEX' : undefined)
+    ?? Object.keys(properties).find((key) => /^band_?\d+$/i.test(key))
+    ?? Object.keys(properties).find((key) => typeof properties[key] === 'number')
+  if (!bandName) return null
+
+  const raw = properties[bandName]
+  const value = typeof raw === 'number' ? raw : typeof raw === 'string' ? Number(raw) : NaN
+  if (!Number.isFinite(value)) return null
+  if ([...NODATA_SENTINELS, ...(options.noData ?? [])].some((sentinel) => Math.abs(value - sentinel) < 1e-6 * Math.max(1, Math.abs(sentinel)))) {
+    return null
+  }
+  if (Math.abs(value) > 1e30) return null
+  if (!options.allowNegative && value < 0) return null
+
+  return value
+}
+
+/**
+ * Match a feature to one of the queried layers (names may be workspace-qualified)
+ * Falls back to response order, since raster layers answer one feature each in QUERY_LAYERS order.
+ */
+export const matchFeatureLayer = (
+  feature: FeatureInfoFeature,
+  index: number,
+  layers: string[],
+  featureCount: number
+): string | undefined => {
+  if (feature.layer) {
+    const match = layers.find((layer) => unqualify(layer) === feature.layer)
+    if (match) return match
+  }
+  return featureCount === layers.length ? layers[index] : undefined
+}
@@ -1,4 +1,5 @@
-import { API_CONFIG } from '../config/api.config'
+import { api } from '../lib/api-client'
+import { notificationResponseSchema } from './schemas'
 
 interface NotificationPayload {
   send_email: boolean
@@ -11,32 +12,12 @@ interface NotificationPayload {
  * Send notification to all users
  */
 export const sendNotification = async () => {
-  try {
-    const url = `${API_CONFIG.baseURL}/users/notify`
-
-    const payload: NotificationPayload = {
-      send_email: true,
-      send_push: true,
-      send_wse: true,
-      subject: 'Water Surface Elevation Update'
-    }
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-    })
-
-    if (!response.ok) {
-      throw new Error(`Notification request failed with status ${response.status}`)
-    }
-
-    const data = await response.json()
-    return data
-  } catch (error) {
-    console.error('Error sending notification:', error)
-    throw error
+  const payload: NotificationPayload = {
+    send_email: true,
+    send_push: true,
+    send_wse: true,
+    subject: 'Water Surface Elevation Update'
   }
+
+  return api.post('/users/notify', payload, { schema: notificationResponseSchema })
 }
@@ -0,0 +1,181 @@
+// Request and response schemas for the backend and NOAA APIs, checked at runtime by the API client
+import { array, boolean, nullable, number, object, oneOf, optional, record, refine, string, tuple, unknown, type Schema } from '../lib/schema'
+import { BASE_LAYER_TYPES } from '../utils/mapSearch'
+import { validateEmail, validatePassword, validatePhoneNumber, validateRequired, type ValidationResult } from '../utils/validation'
+import type { LoginRequest, LoginResponse, SignupRequest, SignupResponse, User } from '../types/auth'
+import type { MapBookmark, BookmarkView, CreateBookmarkRequest, UpdateBookmarkRequest } from '../types/bookmarks'
+import type { StationClickResponse, StationFeature, StationGeometry, StationProperties, StationWaterLevelData, WaterLevelObservation, WaterLevelPrediction, WaterLevelResponse } from '../types/map'
+import type { NoaaDatum, NoaaDatumsResponse, NoaaFloodLevelsResponse, NoaaStation, NoaaStationResponse } from '../types/noaa'
+
+// Request fields use the same rules as the forms, so messages match
+const validated = (validate: (value: string) => ValidationResult): Schema<string> => {
+  return refine(string(), (value) => {
+    const result = validate(value)
+    return result.isValid ? null : result.error
+  })
+}
+
+const numberInRange = (min: number, max: number): Schema<number> => {
+  return refine(number(), (value) => (value >= min && value <= max ? null : `must be between ${min} and ${max}`))
+}
+
+const nonEmptyString = refine(string(), (value) => (value ? null : 'must not be empty'))
+
+// Same bounds as the route's validateMapSearch, which still applies the view
+const bookmarkViewSchema = object<BookmarkView>({
+  lat: optional(numberInRange(-90, 90)),
+  lng: optional(numberInRange(-180, 180)),
+  zoom: optional(numberInRange(0, 21)),
+  base: optional(oneOf(BASE_LAYER_TYPES)),
+  layer: optional(nonEmptyString),
+  overlays: optional(array(string())),
+  compare: optional(tuple<[string, string]>(nonEmptyString, nonEmptyString)),
+})
+
+export const loginRequestSchema = object<LoginRequest>({
+  email: validated(validateEmail),
+  password: validated((value) => validateRequired(value, 'Password')),
+})
+
+export const signupRequestSchema = object<SignupRequest>({
+  full_name: validated((value) => validateRequired(value, 'Name')),
+  email: validated(validateEmail),
+  phone_number: validated(validatePhoneNumber),
+  password: validated(validatePassword),
+})
+
+export const createBookmarkRequestSchema = object<CreateBookmarkRequest>({
+  name: validated((value) => validateRequired(value, 'Name')),
+  view: bookmarkViewSchema,
+})
+
+export const updateBookmarkRequestSchema = object<UpdateBookmarkRequest>({
+  name: optional(validated((value) => validateRequired(value, 'Name'))),
+  view: optional(bookmarkViewSchema),
+})
+
+export const userSchema = object<User>({
+  id: number(),
+  email: string(),
+  full_name: string(),
+  phone_number: string(),
+  fcm_token: nullable(string()),
+})
+
+export const loginResponseSchema = object<LoginResponse>({
+  access_token: string(),
+  token_type: string(),
+})
+
+export const signupResponseSchema = object<SignupResponse>({
+  access_token: string(),
+  token_type: string(),
+  user: userSchema,
+})
+
+export const bookmarkSchema = object<MapBookmark>({
+  id: number(),
+  name: string(),
+  view: bookmarkViewSchema,
+  created_at: string(),
+  updated_at: string(),
+})
+
+export const bookmarksSchema = array(bookmarkSchema)
+
+const waterLevelPredictionSchema = object<WaterLevelPrediction>({
+  id: number(),
+  station_id: string(),
+  t: string(),
+  v: number(),
+  v_navd: nullable(number()),
+  type: string(),
+  used_datum: string(),
+})
+
+const waterLevelObservationSchema = object<WaterLevelObservation>({
+  id: number(),
+  station_id: string(),
+  t: string(),
+  v: number(),
+  s: string(),
+  f: string(),
+  q: string(),
+  v_navd: nullable(number()),
+  used_datum: string(),
+})
+
+const stationWaterLevelDataSchema = object<StationWaterLevelData>({
+  status: string(),
+  count: number(),
+  prediction_count: number(),
+  predictions: array(waterLevelPredictionSchema),
+  observation_count: number(),
+  observations: array(waterLevelObservationSchema),
+})
+
+export const waterLevelResponseSchema = object<WaterLevelResponse>({
+  saved_files: record(stationWaterLevelDataSchema),
+  date_range: object<WaterLevelResponse['date_range']>({
+    begin_date: string(),
+    end_date: string(),
+  }),
+})
+
+// GeoServer GetFeatureInfo (GeoJSON) for the water level stations layer
+export const stationClickResponseSchema = object<StationClickResponse>({
+  type: oneOf(['FeatureCollection']),
+  features: array(object<StationFeature>({
+    type: oneOf(['Feature']),
+    id: optional(string()),
+    geometry: object<StationGeometry>({
+      type: oneOf(['Point']),
+      coordinates: tuple<[number, number]>(number(), number()),
+    }),
+    properties: object<StationProperties>({
+      StationID: nonEmptyString,
+      Station: string(),
+      time: optional(string()),
+      v: optional(nullable(number())),
+      v_navd: optional(nullable(number())),
+      used_datum: optional(string()),
+      pred_type: optional(string()),
+    }),
+  })),
+  timeStamp: string(),
+})
+
+// The notify endpoint's reply isn't used beyond success
+export const notificationResponseSchema = unknown()
+
+// NOAA metadata API: numbers are null where a station has no value
+const noaaNumber = optional(nullable(number()))
+
+export const noaaDatumsSchema = object<NoaaDatumsResponse>({
+  datums: optional(nullable(array(object<NoaaDatum>({
+    name: string(),
+    value: noaaNumber,
+  })))),
+})
+
+export const noaaFloodLevelsSchema = object<NoaaFloodLevelsResponse>({
+  nws_action: noaaNumber,
+  action: noaaNumber,
+  nws_minor: noaaNumber,
+  nos_minor: noaaNumber,
+  minor: noaaNumber,
+  nws_moderate: noaaNumber,
+  nos_moderate: noaaNumber,
+  moderate: noaaNumber,
+  nws_major: noaaNumber,
+  nos_major: noaaNumber,
+  major: noaaNumber,
+})
+
+export const noaaStationSchema = object<NoaaStationResponse>({
+  stations: optional(array(object<NoaaStation>({
+    timezonecorr: noaaNumber,
+    observedst: optional(nullable(boolean())),
+    timezone: optional(nullable(string())),
+  }))),
+})
@@ -1,4 +1,12 @@
-import { API_CONFIG } from '../config/api.config'
+import { api } from '../lib/api-client'
+import { waterLevelResponseSchema } from './schemas'
+import { mapWithConcurrency } from '../utils/concurrency'
+import { splitDateRange, toApiDateRange, type DateRange } from '../utils/dateRange'
+import { parseApiTimestamp } from '../utils/timeZone'
+import type { StationWaterLevelData, WaterLevelResponse } from '../types/map'
+
+// Chunk requests in flight at once for long ranges
+const CHUNK_CONCURRENCY = 2
 
 /**
  * Convert date from YYYY-MM-DD to YYYYMMDD format
@@ -8,41 +16,95 @@ const formatDateForAPI = (date: string): string => {
 }
 
 /**
- * Fetch water level data for a station
- * @param stationId - Station ID (e.g., "8639208")
- * @param beginDate - Start date in YYYY-MM-DD format
- * @param endDate - End date in YYYY-MM-DD format
+ * Fetch water level data for several stations in one request
+ * Each station's data is returned under `saved_files[stationId]`, with
+ * timestamps in GMT.
+ * @param stationIds - Station IDs (e.g., ["8639208", "8638610"])
+ * @param beginDate - Start date (GMT) in YYYY-MM-DD format
+ * @param endDate - End date (GMT) in YYYY-MM-DD format
  */
-export const fetchStationWaterLevel = async (
-  stationId: string,
+export const fetchStationsWaterLevel = async (
+  stationIds: string[],
   beginDate: string,
-  endDate: string
-) => {
-  try {
-    const formattedBeginDate = formatDateForAPI(beginDate)
-    const formattedEndDate = formatDateForAPI(endDate)
-
-    const url = `${API_CONFIG.baseURL}/noaa/water-level/download-all?begin_date=${formattedBeginDate}&end_date=${formattedEndDate}`
-    console.log(stationId);
-    console.log(url);
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify([stationId.toString()]),
-    })
-
-
-
-    if (!response.ok) {
-      throw new Error(`API request failed with status ${response.status}`)
+  endDate: string,
+  signal?: AbortSignal
+): Promise<WaterLevelResponse> => {
+  const params = new URLSearchParams({
+    begin_date: formatDateForAPI(beginDate),
+    end_date: formatDateForAPI(endDate),
+  })
+
+  return api.post(
+    `/noaa/water-level/download-all?${params}`,
+    stationIds.map((stationId) => stationId.toString()),
+    { signal, skipAuth: true, schema: waterLevelResponseSchema } // Public data
+  )
+}
+
+// Concatenate records by timestamp; later chunks win on the shared boundary day
+const mergeRecords = <T extends { t: string }>(chunks: T[][]): T[] => {
+  const byTime = new Map<string, T>()
+  chunks.forEach((records) => records.forEach((record) => byTime.set(record.t, record)))
+  return Array.from(byTime.values()).sort((a, b) => parseApiTimestamp(a.t) - parseApiTimestamp(b.t))
+}
+
+// Keep records inside [startMs, endMs)
+const clipRecords = <T extends { t: string }>(records: T[], startMs: number, endMs: number): T[] => {
+  return records.filter((record) => {
+    const time = parseApiTimestamp(record.t)
+    return time >= startMs && time < endMs
+  })
+}
+
+/**
+ * Fetch water level data for any date range, split into month-sized requests
+ * Chunk responses are merged per station into the single-request response shape.
+ * With a `timeZone`, the range is calendar days in that zone: the GMT days they
+ * span are requested and records outside the local days are dropped.
+ * @param stationIds - Station IDs
+ * @param range - Start and end dates in YYYY-MM-DD format
+ * @param timeZone - IANA zone the dates are in (default: GMT days, unclipped)
+ */
+export const fetchStationsWaterLevelRange = async (
+  stationIds: string[],
+  range: DateRange,
+  signal?: AbortSignal,
+  timeZone?: string
+): Promise<WaterLevelResponse> => {
+  const bounds = timeZone ? toApiDateRange(range, timeZone) : null
+  const chunks = splitDateRange(bounds?.request ?? range)
+  const responses = await mapWithConcurrency(
+    chunks,
+    CHUNK_CONCURRENCY,
+    (chunk) => fetchStationsWaterLevel(stationIds, chunk.start, chunk.end, signal),
+    signal
+  )
+
+  const savedFiles: WaterLevelResponse['saved_files'] = {}
+  for (const stationId of stationIds) {
+    const parts = responses
+      .map((response) => response.saved_files?.[stationId])
+      .filter((part): part is StationWaterLevelData => !!part)
+    if (parts.length === 0) continue
+
+    let predictions = mergeRecords(parts.map((part) => part.predictions || []))
+    let observations = mergeRecords(parts.map((part) => part.observations || []))
+    if (bounds) {
+      predictions = clipRecords(predictions, bounds.startMs, bounds.endMs)
+      observations = clipRecords(observations, bounds.startMs, bounds.endMs)
+    }
+    savedFiles[stationId] = {
+      status: parts[parts.length - 1].status,
+      count: predictions.length + observations.length,
+      prediction_count: predictions.length,
+      predictions,
+      observation_count: observations.length,
+      observations,
     }
+  }
 
-    const data = await response.json()
-    return data
-  } catch (error) {
-    console.error('Error:::', error)
-    throw error
+  return {
+    saved_files: savedFiles,
+    date_range: { begin_date: range.start, end_date: range.end },
   }
 }
@@ -1,4 +1,5 @@
 import { api } from '../lib/api-client'
+import { userSchema } from './schemas'
 import type { User } from '../types/auth'
 
 /**
@@ -6,12 +7,12 @@ import type { User } from '../types/auth'
  * Now uses Better Auth's automatic token injection - no need to pass token manually!
  */
 export const fetchCurrentUser = async (): Promise<User> => {
-  return api.get<User>('/me')
+  return api.get('/me', { schema: userSchema })
 }
 
 /**
  * Update user profile
  */
 export const updateUserProfile = async (data: Partial<User>): Promise<User> => {
-  return api.put<User>('/users/me', data)
+  return api.put('/users/me', data, { schema: userSchema })
 }
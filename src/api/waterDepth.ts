@@ -0,0 +1,78 @@
+import { fetchFeatureInfo, matchFeatureLayer, readRasterValue } from './featureInfo'
+
+export interface PointDepthParams {
+  lat: number
+  lng: number
+  degPerPixelX: number // Current map resolution, used to size the query box
+  degPerPixelY: number
+  layers: string[] // GeoServer layer names, queried together
+  time?: string | null // WMS TIME of the forecast shown on the map
+  signal?: AbortSignal
+}
+
+export interface LayerDepth {
+  layer: string
+  depth: number | null // null = NoData at this point
+}
+
+export interface PointDepthResult {
+  depth: number | null // null when every layer returned NoData
+  unit: string
+  layer: string | null // Layer the depth was read from
+  layerDepths: LayerDepth[] // Reading per queried layer
+}
+
+// Negative values are NoData for depth rasters, on top of the common sentinels
+const DEPTH_VALUE_OPTIONS = { allowNegative: false }
+
+/**
+ * Read water depth at a point from GetFeatureInfo
+ * Queries a 101x101 pixel box centered on the point and returns the first
+ * layer with data, plus the reading for every queried layer.
+ */
+export const fetchPointDepth = async ({
+  lat,
+  lng,
+  degPerPixelX,
+  degPerPixelY,
+  layers,
+  time,
+  signal,
+}: PointDepthParams): Promise<PointDepthResult> => {
+  // 50 pixels on each side = 101 total
+  const halfWidthDeg = 50 * degPerPixelX
+  const halfHeightDeg = 50 * degPerPixelY
+
+  const { features } = await fetchFeatureInfo({
+    layers,
+    bbox: `${lng - halfWidthDeg},${lat - halfHeightDeg},${lng + halfWidthDeg},${lat + halfHeightDeg}`,
+    width: 101,
+    height: 101,
+    x: 50, // Center of 101x101 box
+    y: 50,
+    time,
+    signal,
+  })
+
+  const layerDepths: LayerDepth[] = layers.map((layer) => ({ layer, depth: null }))
+  let first: { layer: string; depth: number; unit: string } | null = null
+
+  for (const [index, feature] of features.entries()) {
+    const layer = matchFeatureLayer(feature, index, layers, features.length)
+    const depth = readRasterValue(feature, DEPTH_VALUE_OPTIONS)
+    const entry = layerDepths.find((item) => item.layer === layer)
+    if (entry && entry.depth === null) {
+      entry.depth = depth
+    }
+    if (depth !== null && !first) {
+      first = { layer: layer ?? layers.join(','), depth, unit: String(feature.properties.unit || 'feet') }
+    }
+  }
+
+  return {
+    depth: first?.depth ?? null,
+    unit: first?.unit ?? 'feet',
+    layer: first?.layer ?? null,
+    layerDepths,
+  }
+}
@@ -0,0 +1,245 @@
+import { GEOSERVER_CONFIG, qualifyLayerName } from '../config/geoserver.config'
+import type { WMSBoundingBox, WMSCapabilities, WMSCapabilityLayer, WMSStyle, WMSTimeDimension } from '../types/wms'
+
+// Upper bound on expanded time instants per layer (guards against open-ended intervals)
+const MAX_TIME_VALUES = 2000
+
+/**
+ * Direct child elements with the given local name (ignores namespace prefixes)
+ */
+const childElements = (element: Element, localName: string): Element[] => {
+  return Array.from(element.children).filter((child) => child.localName === localName)
+}
+
+const childText = (element: Element, localName: string): string => {
+  return childElements(element, localName)[0]?.textContent?.trim() ?? ''
+}
+
+/**
+ * Parse an ISO 8601 duration (e.g. "PT1H", "P1DT6H", "PT30M") into milliseconds
+ * Returns null for durations with years or months, which have no fixed length.
+ */
+export const parseISODuration = (duration: string): number | null => {
+  const match = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(duration.trim())
+  if (!match) return null
+
+  const [, weeks, days, hours, minutes, seconds] = match
+  const ms =
+    (Number(weeks || 0) * 7 * 24 * 3600 +
+      Number(days || 0) * 24 * 3600 +
+      Number(hours || 0) * 3600 +
+      Number(minutes || 0) * 60 +
+      Number(seconds || 0)) * 1000
+
+  return ms > 0 ? ms : null
+}
+
+/**
+ * Expand a WMS time dimension value list into individual ISO instants
+ * Supports comma-separated instants and "start/end/period" intervals.
+ */
+export const expandTimeValues = (raw: string): string[] => {
+  const values: string[] = []
+
+  for (const item of raw.split(',').map((value) => value.trim()).filter(Boolean)) {
+    const parts = item.split('/')
+    if (parts.length !== 3) {
+      values.push(parts[0])
+      continue
+    }
+
+    const [start, end, period] = parts
+    const startMs = Date.parse(start)
+    const endMs = Date.parse(end)
+    const stepMs = parseISODuration(period)
+
+    if (Number.isNaN(startMs) || Number.isNaN(endMs) || !stepMs) {
+      values.push(start, end)
+      continue
+    }
+
+    for (let t = startMs; t <= endMs && values.length < MAX_TIME_VALUES; t += stepMs) {
+      values.push(new Date(t).toISOString())
+    }
+  }
+
+  return Array.from(new Set(values))
+    .filter((value) => !Number.isNaN(Date.parse(value)))
+    .sort((a, b) => Date.parse(a) - Date.parse(b))
+    .slice(0, MAX_TIME_VALUES)
+}
+
+// Missing or empty text is NaN, not 0, so a partial bbox is rejected
+const toCoordinate = (text: string | null): number => {
+  return text?.trim() ? Number(text) : NaN
+}
+
+const parseBoundingBox = (layer: Element): WMSBoundingBox | undefined => {
+  // WMS 1.3.0
+  const geographic = childElements(layer, 'EX_GeographicBoundingBox')[0]
+  if (geographic) {
+    const bbox = {
+      west: toCoordinate(childText(geographic, 'westBoundLongitude')),
+      south: toCoordinate(childText(geographic, 'southBoundLatitude')),
+      east: toCoordinate(childText(geographic, 'eastBoundLongitude')),
+      north: toCoordinate(childText(geographic, 'northBoundLatitude')),
+    }
+    if (Object.values(bbox).every(Number.isFinite)) return bbox
+  }
+
+  // WMS 1.1.1
+  const latLon = childElements(layer, 'LatLonBoundingBox')[0]
+  if (latLon) {
+    const bbox = {
+      west: toCoordinate(latLon.getAttribute('minx')),
+      south: toCoordinate(latLon.getAttribute('miny')),
+      east: toCoordinate(latLon.getAttribute('maxx')),
+      north: toCoordinate(latLon.getAttribute('maxy')),
+    }
+    if (Object.values(bbox).every(Number.isFinite)) return bbox
+  }
+
+  return undefined
+}
+
+const parseStyles = (layer: Element): WMSStyle[] => {
+  return childElements(layer, 'Style').map((style) => {
+    const onlineResource = childElements(style, 'LegendURL')[0]
+      ?.getElementsByTagNameNS('*', 'OnlineResource')[0]
+
+    return {
+      name: childText(style, 'Name'),
+      title: childText(style, 'Title') || childText(style, 'Name'),
+      abstract: childText(style, 'Abstract') || undefined,
+      legendUrl: onlineResource?.getAttribute('xlink:href')
+        ?? onlineResource?.getAttributeNS('http://www.w3.org/1999/xlink', 'href')
+        ?? undefined,
+    }
+  })
+}
+
+const parseTimeDimension = (layer: Element): WMSTimeDimension | undefined => {
+  const dimension = childElements(layer, 'Dimension')
+    .find((element) => element.getAttribute('name')?.toLowerCase() === 'time')
+  if (!dimension) return undefined
+
+  // WMS 1.1.1 puts the values in a sibling <Extent> element
+  const extent = childElements(layer, 'Extent')
+    .find((element) => element.getAttribute('name')?.toLowerCase() === 'time')
+
+  const raw = dimension.textContent?.trim() || extent?.textContent?.trim() || ''
+  const values = expandTimeValues(raw)
+  if (values.length === 0) return undefined
+
+  return {
+    values,
+    default: dimension.getAttribute('default') ?? extent?.getAttribute('default') ?? undefined,
+    units: dimension.getAttribute('units') ?? undefined,
+  }
+}
+
+/**
+ * Parse a WMS GetCapabilities XML document
+ * Only named layers are returned; styles, extents and time dimensions
+ * are inherited from parent layers as the WMS spec requires.
+ */
+export const parseWMSCapabilities = (xml: string): WMSCapabilities => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid GetCapabilities response')
+  }
+
+  const root = doc.documentElement
+  const exception = doc.getElementsByTagNameNS('*', 'ServiceException')[0]
+  if (exception) {
+    throw new Error(`GetCapabilities failed: ${exception.textContent?.trim()}`)
+  }
+
+  const service = childElements(root, 'Service')[0]
+  const capability = childElements(root, 'Capability')[0]
+  const layers: WMSCapabilityLayer[] = []
+
+  const walk = (
+    element: Element,
+    inherited: { bbox?: WMSBoundingBox; styles: WMSStyle[]; time?: WMSTimeDimension }
+  ) => {
+    const ownStyles = parseStyles(element)
+    const current = {
+      bbox: parseBoundingBox(element) ?? inherited.bbox,
+      styles: [...inherited.styles, ...ownStyles],
+      time: parseTimeDimension(element) ?? inherited.time,
+    }
+
+    const name = childText(element, 'Name')
+    if (name) {
+      const keywordList = childElements(element, 'KeywordList')[0]
+      layers.push({
+        name: qualifyLayerName(name),
+        title: childText(element, 'Title') || name,
+        abstract: childText(element, 'Abstract'),
+        keywords: keywordList
+          ? childElements(keywordList, 'Keyword').map((keyword) => keyword.textContent?.trim() ?? '').filter(Boolean)
+          : [],
+        queryable: element.getAttribute('queryable') === '1',
+        ...current,
+      })
+    }
+
+    for (const child of childElements(element, 'Layer')) {
+      walk(child, current)
+    }
+  }
+
+  if (capability) {
+    for (const layer of childElements(capability, 'Layer')) {
+      walk(layer, { styles: [] })
+    }
+  }
+
+  return {
+    version: root.getAttribute('version') ?? '',
+    title: service ? childText(service, 'Title') : '',
+    layers,
+  }
+}
+
+/**
+ * Fetch and parse GetCapabilities for the GeoServer workspace
+ */
+export const fetchWMSCapabilities = async (signal?: AbortSignal): Promise<WMSCapabilities> => {
+  const params = new URLSearchParams({
+    SERVICE: 'WMS',
+    VERSION: '1.3.0',
+    REQUEST: 'GetCapabilities',
+  })
+
+  const response = await fetch(`${GEOSERVER_CONFIG.workspaceWmsURL}?${params}`, { signal })
+  if (!response.ok) {
+    throw new Error(`GetCapabilities request failed: ${response.status}`)
+  }
+
+  return parseWMSCapabilities(await response.text())
+}
+
+/**
+ * Build a GetLegendGraphic URL for a layer (rendered as an image, no fetch needed)
+ */
+export const buildLegendGraphicUrl = (layerName: string, style?: string): string => {
+  const params = new URLSearchParams({
+    SERVICE: 'WMS',
+    VERSION: '1.1.1',
+    REQUEST: 'GetLegendGraphic',
+    FORMAT: 'image/png',
+    LAYER: layerName,
+    WIDTH: '20',
+    HEIGHT: '20',
+    LEGEND_OPTIONS: 'fontAntiAliasing:true;forceLabels:on;fontSize:11',
+  })
+
+  if (style) {
+    params.set('STYLE', style)
+  }
+
+  return `${GEOSERVER_CONFIG.wmsURL}?${params}`
+}
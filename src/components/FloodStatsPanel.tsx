@@ -0,0 +1,154 @@
+import { useState } from 'react'
+import Chart from 'react-apexcharts'
+import { X } from 'lucide-react'
+import { Spinner } from './ui/Spinner'
+import { useUnits } from '../contexts/UnitsContext'
+import { formatArea } from '../utils/floodStats'
+import { convertLength, formatLength } from '../utils/units'
+import type { PolygonStatsState } from '../hooks/usePolygonStats'
+
+interface FloodStatsPanelProps {
+  stats: PolygonStatsState
+  layerTitles: Record<string, string> // GeoServer layer name -> display name
+  onClose: () => void
+}
+
+export function FloodStatsPanel({ stats, layerTitles, onClose }: FloodStatsPanelProps) {
+  const { grid, completed, layers, isLoading, error } = stats
+  const { unit } = useUnits()
+  const [selectedLayer, setSelectedLayer] = useState<string | null>(null)
+
+  const current = layers.find((layer) => layer.layer === selectedLayer) ?? layers[0]
+  const toUnit = (value: number) => convertLength(value, stats.unit, unit)
+  const formatDepth = (value: number | null) => formatLength(value !== null ? toUnit(value) : null, unit)
+
+  const series = [{
+    name: 'Samples',
+    data: (current?.histogram ?? []).map((bin) => ({
+      x: `${toUnit(bin.from).toFixed(1)}-${toUnit(bin.to).toFixed(1)}`,
+      y: bin.count,
+    })),
+  }]
+
+  const options = {
+    chart: {
+      type: 'bar' as const,
+      height: 180,
+      animations: { enabled: false }, // Counts update per sample
+      toolbar: { show: false }
+    },
+    colors: ['#36A2EB'],
+    plotOptions: {
+      bar: { columnWidth: '95%' }
+    },
+    dataLabels: { enabled: false },
+    xaxis: {
+      title: { text: `Depth (${unit})` },
+      labels: { rotate: -45, style: { fontSize: '10px' } }
+    },
+    yaxis: {
+      title: { text: 'Samples' },
+      labels: { formatter: (value: number) => value.toFixed(0) }
+    },
+    grid: {
+      show: true,
+      borderColor: '#e5e7eb'
+    },
+    tooltip: { theme: 'dark' },
+    noData: {
+      text: isLoading ? 'Sampling...' : 'No flooded samples',
+      style: {
+        color: '#6B7280',
+        fontSize: '14px'
+      }
+    }
+  }
+
+  return (
+    <div
+      className="absolute bottom-4 left-4 z-[1500] w-[420px] max-w-[calc(100%-6rem)] bg-white rounded-lg shadow-2xl"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 border-b">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900">Area Flood Statistics</h2>
+          {grid && (
+            <p className="text-xs text-gray-500">
+              {formatArea(grid.area)} · {grid.points.length} samples every {Math.round(grid.spacing)} m
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {isLoading && grid && (
+            <span className="flex items-center gap-2 text-xs text-gray-600">
+              <Spinner size="sm" color="blue" />
+              {completed}/{grid.points.length}
+            </span>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md hover:bg-gray-100 transition-colors"
+            title="Close statistics"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+      </div>
+
+      {/* Layer Tabs */}
+      {layers.length > 1 && (
+        <div className="flex gap-1 px-4 pt-2 overflow-x-auto">
+          {layers.map((layer) => (
+            <button
+              key={layer.layer}
+              onClick={() => setSelectedLayer(layer.layer)}
+              className={`px-2 py-1 text-xs rounded whitespace-nowrap transition-colors ${
+                layer.layer === current?.layer
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {layerTitles[layer.layer] ?? layer.layer}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="px-4 pt-2 text-xs text-red-600">{error}</p>}
+
+      {current && (
+        <>
+          {/* Summary */}
+          <dl className="grid grid-cols-4 gap-2 px-4 pt-3 text-center">
+            <div>
+              <dt className="text-[10px] uppercase text-gray-500">Min</dt>
+              <dd className="text-sm font-semibold text-gray-900">{formatDepth(current.min)}</dd>
+            </div>
+            <div>
+              <dt className="text-[10px] uppercase text-gray-500">Mean</dt>
+              <dd className="text-sm font-semibold text-gray-900">{formatDepth(current.mean)}</dd>
+            </div>
+            <div>
+              <dt className="text-[10px] uppercase text-gray-500">Max</dt>
+              <dd className="text-sm font-semibold text-gray-900">{formatDepth(current.max)}</dd>
+            </div>
+            <div>
+              <dt className="text-[10px] uppercase text-gray-500">Flooded</dt>
+              <dd className="text-sm font-semibold text-gray-900">{(current.floodedShare * 100).toFixed(0)}%</dd>
+            </div>
+          </dl>
+          <p className="px-4 pt-1 text-xs text-gray-500 text-center">
+            ~{formatArea(current.floodedArea)} flooded · {current.validCount} of {current.sampleCount} samples with data
+          </p>
+
+          {/* Depth Histogram (flooded samples) */}
+          <div className="px-2">
+            <Chart options={options} series={series} type="bar" height={180} />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,242 @@
+import { useMemo, useState } from 'react'
+import Chart from 'react-apexcharts'
+import { X } from 'lucide-react'
+import { useStationsWaterLevelDisplay } from '../hooks/useWaterLevelDisplay'
+import { ExportMenu } from './ui/ExportMenu'
+import { exportDataset, type ExportFormat } from '../utils/dataExport'
+import { formatZonedAxisLabel, formatZonedDateTime, parseApiTimestamp, type ResolvedTimeZone } from '../utils/timeZone'
+import {
+  COMPARISON_EXPORT_COLUMNS,
+  DEFAULT_COMPARISON_EXPORT_COLUMNS,
+  STATION_COLORS,
+  buildComparisonDataset,
+  summarizeStation,
+  type ComparedStation,
+  type ComparisonExportColumn,
+} from '../utils/stationCompare'
+import type { StationWaterLevelData, WaterLevelPrediction, WaterLevelObservation } from '../types/map'
+
+interface MultiStationChartProps {
+  stations: ComparedStation[]
+  data: Record<string, StationWaterLevelData> // From one batched request, keyed by station ID
+  dateRange?: { begin_date: string; end_date: string }
+  loading?: boolean
+  timeZone: ResolvedTimeZone // Display zone for the axis, tooltips and export
+  onRemoveStation: (stationId: string) => void
+}
+
+export function MultiStationChart({ stations, data, dateRange, loading, timeZone, onRemoveStation }: MultiStationChartProps) {
+  const { converters, unit } = useStationsWaterLevelDisplay(data)
+  const [showPredictions, setShowPredictions] = useState(false)
+
+  const colorOf = (stationId: string) => {
+    const index = stations.findIndex((station) => station.id === stationId)
+    return STATION_COLORS[index % STATION_COLORS.length]
+  }
+
+  // Observations per station (solid), optionally predictions (dashed) in the same color
+  const { series, colors, dashArray } = useMemo(() => {
+    const series: Array<{ name: string; data: Array<{ x: number; y: number | null }> }> = []
+    const colors: string[] = []
+    const dashArray: number[] = []
+
+    stations.forEach((station, index) => {
+      const stationData = data[station.id]
+      const converter = converters[station.id]
+      if (!stationData || !converter) return
+      const color = STATION_COLORS[index % STATION_COLORS.length]
+
+      const toPoints = (records: Array<WaterLevelPrediction | WaterLevelObservation>) => records
+        .map((record) => ({ x: parseApiTimestamp(record.t), y: converter.valueOf(record) }))
+        .sort((a, b) => a.x - b.x)
+
+      series.push({ name: `${station.name} observed`, data: toPoints(stationData.observations ?? []) })
+      colors.push(color)
+      dashArray.push(0)
+
+      if (showPredictions) {
+        series.push({ name: `${station.name} predicted`, data: toPoints(stationData.predictions ?? []) })
+        colors.push(color)
+        dashArray.push(5)
+      }
+    })
+
+    return { series, colors, dashArray }
+  }, [stations, data, converters, showPredictions])
+
+  const summaries = useMemo(() => stations
+    .filter((station) => data[station.id] && converters[station.id])
+    .map((station) => ({
+      station,
+      datum: converters[station.id].datum,
+      summary: summarizeStation(data[station.id], converters[station.id]),
+    })), [stations, data, converters])
+
+  // Datums differ only when a station can't reach the preferred one
+  const datums = Array.from(new Set(summaries.map(({ datum }) => datum)))
+
+  // Export handler (shared export module: CF-CSV, XLSX or JSON)
+  const handleExport = (format: ExportFormat, columns: ComparisonExportColumn[]) => {
+    exportDataset(buildComparisonDataset({
+      stations,
+      data,
+      converters,
+      unit,
+      range: dateRange ? { start: dateRange.begin_date, end: dateRange.end_date } : undefined,
+      columns,
+      timeZone,
+    }), format)
+  }
+
+  const options = {
+    chart: {
+      type: 'line' as const,
+      height: 300,
+      animations: { enabled: false },
+      toolbar: { show: true }
+    },
+    colors,
+    stroke: {
+      curve: 'monotoneCubic' as const,
+      width: 2,
+      dashArray
+    },
+    markers: {
+      size: 0,
+      hover: { size: 5 }
+    },
+    xaxis: {
+      type: 'datetime' as const,
+      labels: {
+        formatter: (value: string, timestamp?: number) => formatZonedAxisLabel(timestamp ?? Number(value), timeZone.zone)
+      },
+      title: {
+        text: `Time (${timeZone.label})`
+      }
+    },
+    yaxis: {
+      title: {
+        text: `Water Level (${unit}, ${datums.join('/')})`
+      },
+      labels: {
+        formatter: (value: number) => `${value.toFixed(2)} ${unit}`
+      }
+    },
+    grid: {
+      show: true,
+      borderColor: '#e5e7eb'
+    },
+    legend: {
+      show: true,
+      position: 'top' as const,
+      horizontalAlign: 'center' as const
+    },
+    tooltip: {
+      shared: true,
+      intersect: false,
+      theme: 'dark',
+      x: {
+        formatter: (value: number) => formatZonedDateTime(value, timeZone.zone)
+      },
+      y: {
+        formatter: (value: number) => {
+          return value !== null && value !== undefined ? `${value.toFixed(2)} ${unit}` : 'N/A'
+        }
+      }
+    },
+    noData: {
+      text: loading ? 'Loading...' : 'No data available',
+      style: {
+        color: '#6B7280',
+        fontSize: '14px'
+      }
+    }
+  }
+
+  const formatValue = (value: number | null) => (value !== null ? `${value.toFixed(2)}` : '-')
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h3 className="text-base font-semibold text-gray-700">Station Comparison</h3>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1 px-2 py-1 text-xs rounded-md text-gray-600 hover:bg-gray-100 cursor-pointer">
+            <input type="checkbox" checked={showPredictions} onChange={(e) => setShowPredictions(e.target.checked)} />
+            Predictions
+          </label>
+          <ExportMenu
+            onExport={handleExport}
+            columns={COMPARISON_EXPORT_COLUMNS}
+            defaultColumns={DEFAULT_COMPARISON_EXPORT_COLUMNS}
+            disabled={loading || summaries.length === 0}
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="h-[300px] flex items-center justify-center bg-gray-50 rounded-lg">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+        </div>
+      ) : (
+        <Chart options={options} series={series} type="line" height={300} />
+      )}
+
+      {/* Per-Station Summary */}
+      <div className="mt-3 overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead className="text-gray-500 uppercase">
+            <tr>
+              <th className="px-2 py-1 text-left">Station</th>
+              <th className="px-2 py-1 text-right">Latest</th>
+              <th className="px-2 py-1 text-right">Min</th>
+              <th className="px-2 py-1 text-right">Mean</th>
+              <th className="px-2 py-1 text-right">Max</th>
+              <th className="px-2 py-1 text-right">Bias</th>
+              <th className="px-2 py-1 text-right">RMSE</th>
+              <th className="px-2 py-1" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {stations.map((station) => {
+              const entry = summaries.find((item) => item.station.id === station.id)
+              const summary = entry?.summary
+              return (
+                <tr key={station.id}>
+                  <td className="px-2 py-1">
+                    <span className="inline-flex items-center gap-2">
+                      <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: colorOf(station.id) }} />
+                      <span className="font-medium text-gray-900">{station.name}</span>
+                      <span className="text-gray-500">{station.id}</span>
+                    </span>
+                  </td>
+                  <td className="px-2 py-1 text-right">{formatValue(summary?.latest?.value ?? null)}</td>
+                  <td className="px-2 py-1 text-right">{formatValue(summary?.min ?? null)}</td>
+                  <td className="px-2 py-1 text-right">{formatValue(summary?.mean ?? null)}</td>
+                  <td className="px-2 py-1 text-right">{formatValue(summary?.max ?? null)}</td>
+                  <td className="px-2 py-1 text-right">{formatValue(summary?.residual.bias ?? null)}</td>
+                  <td className="px-2 py-1 text-right">{formatValue(summary?.residual.rmse ?? null)}</td>
+                  <td className="px-2 py-1 text-right">
+                    <button
+                      onClick={() => onRemoveStation(station.id)}
+                      className="p-0.5 rounded hover:bg-gray-100"
+                      title="Remove from comparison"
+                    >
+                      <X className="w-3.5 h-3.5 text-gray-500" />
+                    </button>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+        {!loading && stations.some((station) => !data[station.id]) && (
+          <p className="mt-1 text-xs text-amber-700">Some stations returned no data for this range</p>
+        )}
+        <p className="mt-1 text-[10px] text-gray-400">
+          Values in {unit}; bias and RMSE compare observations with NOAA predictions; times in {timeZone.label} ({timeZone.zone})
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+import { useMemo } from 'react'
+import Chart from 'react-apexcharts'
+import { X } from 'lucide-react'
+import { Spinner } from './ui/Spinner'
+import { useUnits } from '../contexts/UnitsContext'
+import { formatDistance } from '../utils/transect'
+import { convertLength } from '../utils/units'
+import type { TransectProfile } from '../hooks/useTransectProfile'
+
+interface TransectProfileChartProps {
+  profile: TransectProfile
+  onClose: () => void
+}
+
+export function TransectProfileChart({ profile, onClose }: TransectProfileChartProps) {
+  const { samples, completed, isLoading, error } = profile
+  const { unit } = useUnits()
+
+  // NoData samples stay null so the line shows a gap instead of dropping to zero
+  const series = useMemo(() => [{
+    name: 'Water Depth',
+    data: samples.map((sample) => ({
+      x: sample.distance,
+      y: sample.depth !== null ? convertLength(sample.depth, profile.unit, unit) : null,
+    })),
+  }], [samples, profile.unit, unit])
+
+  const totalLength = samples.length > 0 ? samples[samples.length - 1].distance : 0
+  const wetSamples = samples.filter((sample) => sample.depth !== null && sample.depth > 0)
+  const maxDepth = wetSamples.length > 0
+    ? convertLength(Math.max(...wetSamples.map((sample) => sample.depth as number)), profile.unit, unit)
+    : null
+
+  const options = {
+    chart: {
+      type: 'area' as const,
+      height: 220,
+      animations: { enabled: false }, // Samples stream in; animating each update is distracting
+      toolbar: {
+        show: true,
+        tools: {
+          download: true,
+          selection: false,
+          zoom: true,
+          zoomin: true,
+          zoomout: true,
+          pan: true,
+          reset: true
+        }
+      }
+    },
+    colors: ['#36A2EB'],
+    stroke: {
+      curve: 'straight' as const,
+      width: 2
+    },
+    fill: {
+      type: 'gradient',
+      gradient: { opacityFrom: 0.5, opacityTo: 0.1 }
+    },
+    markers: {
+      size: 0,
+      hover: { size: 5 }
+    },
+    dataLabels: { enabled: false },
+    xaxis: {
+      type: 'numeric' as const,
+      min: 0,
+      max: totalLength,
+      tickAmount: 6,
+      labels: {
+        formatter: (value: string) => formatDistance(Number(value))
+      },
+      title: {
+        text: 'Distance along transect'
+      }
+    },
+    yaxis: {
+      min: 0,
+      title: {
+        text: `Water Depth (${unit})`
+      },
+      labels: {
+        formatter: (value: number) => value.toFixed(1)
+      }
+    },
+    grid: {
+      show: true,
+      borderColor: '#e5e7eb'
+    },
+    tooltip: {
+      theme: 'dark',
+      x: {
+        formatter: (value: number) => formatDistance(value)
+      },
+      y: {
+        formatter: (value: number) => {
+          return value !== null && value !== undefined ? `${value.toFixed(2)} ${unit}` : 'No data'
+        }
+      }
+    },
+    noData: {
+      text: isLoading ? 'Sampling...' : 'No data available',
+      style: {
+        color: '#6B7280',
+        fontSize: '14px'
+      }
+    }
+  }
+
+  return (
+    <div
+      className="absolute bottom-4 left-4 z-[1500] w-[600px] max-w-[calc(100%-6rem)] bg-white rounded-lg shadow-2xl"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 border-b">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900">Depth Profile</h2>
+          <p className="text-xs text-gray-500">
+            {formatDistance(totalLength)} · {samples.length} samples
+            {maxDepth !== null && ` · max ${maxDepth.toFixed(2)} ${unit}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {isLoading && (
+            <span className="flex items-center gap-2 text-xs text-gray-600">
+              <Spinner size="sm" color="blue" />
+              {completed}/{samples.length}
+            </span>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md hover:bg-gray-100 transition-colors"
+            title="Close profile"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="px-4 pt-2 text-xs text-red-600">{error}</p>}
+
+      <div className="px-2">
+        <Chart options={options} series={series} type="area" height={220} />
+      </div>
+    </div>
+  )
+}
@@ -1,68 +1,328 @@
-import { useMemo } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import Chart from 'react-apexcharts'
+import { Settings2 } from 'lucide-react'
+import { useWaterLevelDisplay } from '../hooks/useWaterLevelDisplay'
+import { useFloodStages } from '../hooks/useFloodStages'
+import { useStationTimeZone } from '../hooks/useStationTimeZone'
+import { useElementWidth } from '../hooks/useElementWidth'
+import { FloodStageEditor } from './ui/FloodStageEditor'
+import { SurgeSummary } from './ui/SurgeSummary'
+import { convertLength } from '../utils/units'
+import { alignWaterLevels, computeResidualStats } from '../utils/surge'
+import { findTideExtrema } from '../utils/tideExtrema'
+import { findGaps, insertGapBreaks, inferSampleInterval } from '../utils/gaps'
+import { downsampleForView, MIN_DOWNSAMPLE_POINTS } from '../utils/downsample'
+import { SUSPECT_COLOR, decodeQuality, describeQualityFlags, type DecodedQuality } from '../utils/qualityFlags'
+import { formatZonedAxisLabel, formatZonedDateTime, parseApiTimestamp, type ResolvedTimeZone } from '../utils/timeZone'
+import {
+  FLOOD_STAGE_LEVELS,
+  getStageColor,
+  getStageLabel,
+  summarizeExceedance,
+  type ExceedanceSummary,
+  type FloodStageValues,
+} from '../utils/floodStages'
 import type { WaterLevelPrediction, WaterLevelObservation } from '../types/map'
 
+// Above this many drawn points, animations make redraws sluggish
+const ANIMATED_POINT_LIMIT = 1000
+
 interface WaterLevelChartProps {
   predictions: WaterLevelPrediction[]
   observations: WaterLevelObservation[]
   title: string
   loading?: boolean
   stationId?: string
+  timeZone?: ResolvedTimeZone // Display zone (default: the user's preference for this station)
 }
 
-export function WaterLevelChart({ predictions, observations, title, loading, stationId }: WaterLevelChartProps) {
+export function WaterLevelChart({ predictions, observations, title, loading, stationId, timeZone }: WaterLevelChartProps) {
+  // Values follow the user's unit and datum preference
+  const { valueOf, levelOf, unit, datum } = useWaterLevelDisplay(stationId, predictions, observations)
+  const stationTimeZone = useStationTimeZone(stationId)
+  const { zone, label: zoneLabel } = timeZone ?? stationTimeZone
+  const { floodStages, isCustom, saveStages, resetStages } = useFloodStages(stationId)
+  const [isEditingStages, setIsEditingStages] = useState(false)
+  const [showResidual, setShowResidual] = useState(false)
+  const [hideFlagged, setHideFlagged] = useState(false)
+
+  // Observations with their decoded NOAA quality flags, optionally without flagged points
+  const { visibleObservations, flaggedCount } = useMemo(() => {
+    const decoded = observations.map((record) => ({ record, quality: decodeQuality(record) }))
+    const flagged = decoded.filter(({ quality }) => quality.isSuspect).length
+    return {
+      visibleObservations: hideFlagged ? decoded.filter(({ quality }) => !quality.isSuspect) : decoded,
+      flaggedCount: flagged,
+    }
+  }, [observations, hideFlagged])
+
+  // Flood stages in the display unit and datum
+  const stages = useMemo(() => {
+    const values: FloodStageValues = {}
+    if (!floodStages) return values
+    for (const stage of FLOOD_STAGE_LEVELS) {
+      const feet = floodStages.stages[stage.value]
+      const value = feet !== undefined ? levelOf(feet, floodStages.datum) : null
+      if (value !== null) values[stage.value] = value
+    }
+    return values
+  }, [floodStages, levelOf])
+
   const chartData = useMemo(() => {
     // Define data point type
     interface DataPoint {
       x: number
-      y: number
+      y: number | null
     }
 
-    // Convert observations to chart format
-    const observationsData: DataPoint[] = observations
-      .sort((a, b) => new Date(a.t).getTime() - new Date(b.t).getTime())
-      .map(item => ({
-        x: new Date(item.t).getTime(),
-        y: item.v
-      }))
+    // Convert observations to chart format, keeping each point's flags alongside
+    const observationPoints = visibleObservations
+      .map(({ record, quality }) => ({ x: parseApiTimestamp(record.t), y: valueOf(record), quality }))
+      .sort((a, b) => a.x - b.x)
+    const observationInterval = inferSampleInterval(observationPoints.map((point) => point.x))
+
+    // Outages break the line (a null point) instead of being bridged by the curve
+    const brokenObservations = insertGapBreaks<{ x: number; y: number | null; quality: DecodedQuality | null }>(
+      observationPoints,
+      observationInterval,
+      (x) => ({ x, y: null, quality: null })
+    )
+    const observationsData: DataPoint[] = brokenObservations.map(({ x, y }) => ({ x, y }))
+    const observationQuality = brokenObservations.map(({ quality }) => quality)
+    const observationGaps = observationInterval !== null
+      ? findGaps(observationPoints.map((point) => point.x), observationInterval)
+      : []
 
     // Convert predictions to chart format
-    const predictionsData: DataPoint[] = predictions
-      .sort((a, b) => new Date(a.t).getTime() - new Date(b.t).getTime())
+    const predictionPoints: DataPoint[] = predictions
+      .sort((a, b) => parseApiTimestamp(a.t) - parseApiTimestamp(b.t))
       .map(item => ({
-        x: new Date(item.t).getTime(),
-        y: item.v
+        x: parseApiTimestamp(item.t),
+        y: valueOf(item)
       }))
+    const predictionsData = insertGapBreaks(
+      predictionPoints,
+      inferSampleInterval(predictionPoints.map((point) => point.x)),
+      (x): DataPoint => ({ x, y: null })
+    )
 
     // Create series array
-    const series: Array<{ name: string; data: DataPoint[] }> = []
+    return { observationsData, predictionsData, observationQuality, observationGaps }
+  }, [predictions, visibleObservations, valueOf])
+
+  // Residual (observed - predicted) on its own axis
+  const residual = useMemo(() => {
+    const rows = alignWaterLevels(predictions, visibleObservations.map(({ record }) => record), valueOf)
+    return {
+      data: rows
+        .filter((row) => row.residual !== null)
+        .map((row) => ({ x: parseApiTimestamp(row.time), y: row.residual })),
+      stats: computeResidualStats(rows),
+    }
+  }, [predictions, visibleObservations, valueOf])
+  // High/low tide markers on the predictions
+  const tideExtrema = useMemo(() => findTideExtrema(predictions, {
+    getValue: valueOf,
+    minAmplitude: convertLength(0.1, 'ft', unit),
+  }), [predictions, valueOf, unit])
+
+  const tideMarkers = tideExtrema.map((extremum) => ({
+    x: extremum.t,
+    y: extremum.value,
+    marker: {
+      size: 4,
+      fillColor: '#fff',
+      strokeColor: '#36A2EB',
+      strokeWidth: 2
+    },
+    label: {
+      text: `${extremum.type} ${extremum.value.toFixed(2)}`,
+      offsetY: extremum.type === 'H' ? 0 : 36, // Lows labelled below the point
+      borderColor: '#36A2EB',
+      style: { color: '#fff', background: '#36A2EB', fontSize: '10px' }
+    }
+  }))
+
+  const canShowResidual = residual.stats.count > 0
+  const isResidualVisible = showResidual && canShowResidual
+
+  // Zoomed window; null shows the whole range. New data starts unzoomed.
+  const [view, setView] = useState<{ min: number; max: number } | null>(null)
+  const scrollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  useEffect(() => setView(null), [predictions, observations])
+  useEffect(() => () => {
+    if (scrollTimerRef.current) clearTimeout(scrollTimerRef.current)
+  }, [])
+
+  // About one point per pixel of plot width; zooming in re-samples the window, down to full resolution
+  const { ref: plotRef, width: plotWidth } = useElementWidth<HTMLDivElement>(800)
+  const displayed = useMemo(() => {
+    const threshold = Math.max(MIN_DOWNSAMPLE_POINTS, plotWidth)
+    const pick = <T,>(data: T[], indices: number[]) => indices.map((index) => data[index])
+
+    // Flagged points always survive, unless there are too many to keep
+    const suspectCount = chartData.observationQuality.filter((quality) => quality?.isSuspect).length
+    const observationIndices = downsampleForView(chartData.observationsData, threshold, view, {
+      keep: suspectCount <= threshold ? (index) => !!chartData.observationQuality[index]?.isSuspect : undefined,
+    })
+
+    return {
+      observationsData: pick(chartData.observationsData, observationIndices),
+      observationQuality: pick(chartData.observationQuality, observationIndices),
+      predictionsData: pick(chartData.predictionsData, downsampleForView(chartData.predictionsData, threshold, view)),
+      residualData: pick(residual.data, downsampleForView(residual.data, threshold, view)),
+    }
+  }, [chartData, residual, plotWidth, view])
+
+  const series: Array<{ name: string; data: Array<{ x: number; y: number | null }> }> = []
+  if (displayed.observationsData.length > 0) {
+    series.push({ name: 'Observations', data: displayed.observationsData })
+  }
+  if (displayed.predictionsData.length > 0) {
+    series.push({ name: 'NOAA Predictions', data: displayed.predictionsData })
+  }
+  if (isResidualVisible) {
+    series.push({ name: 'Residual', data: displayed.residualData })
+  }
+  const pointCount = series.reduce((total, item) => total + item.data.length, 0)
+
+  // Flagged observations get their own marker (observations are the first series)
+  const suspectMarkers = displayed.observationsData.length > 0
+    ? displayed.observationQuality.flatMap((quality, index) => quality?.isSuspect ? [{
+      seriesIndex: 0,
+      dataPointIndex: index,
+      fillColor: SUSPECT_COLOR,
+      strokeColor: '#fff',
+      size: 4,
+      shape: 'square' as const
+    }] : [])
+    : []
+
+  // Keep the downsampling window in step with zoom and pan
+  const zoomEvents = {
+    zoomed: (_chart: unknown, { xaxis }: { xaxis?: { min?: number; max?: number } }) => {
+      setView(xaxis?.min !== undefined && xaxis?.max !== undefined ? { min: xaxis.min, max: xaxis.max } : null)
+    },
+    scrolled: (_chart: unknown, { xaxis }: { xaxis?: { min?: number; max?: number } }) => {
+      // Panning fires continuously; re-sample once it settles
+      if (scrollTimerRef.current) clearTimeout(scrollTimerRef.current)
+      scrollTimerRef.current = setTimeout(() => {
+        if (xaxis?.min !== undefined && xaxis?.max !== undefined) setView({ min: xaxis.min, max: xaxis.max })
+      }, 200)
+    },
+    beforeResetZoom: () => {
+      setView(null)
+      return { xaxis: { min: undefined, max: undefined } }
+    },
+  }
+
+  // Threshold crossings and peaks per series
+  const exceedance = useMemo(() => {
+    const toTimeValues = (data: Array<{ x: number; y: number | null }>) => data.map((point) => ({ t: point.x, v: point.y }))
+    const summaries: Array<{ name: string; summary: ExceedanceSummary }> = []
+    if (chartData.observationsData.length > 0) {
+      summaries.push({ name: 'Observed', summary: summarizeExceedance(toTimeValues(chartData.observationsData), stages) })
+    }
+    if (chartData.predictionsData.length > 0) {
+      summaries.push({ name: 'Predicted', summary: summarizeExceedance(toTimeValues(chartData.predictionsData), stages) })
+    }
+    return summaries
+  }, [chartData, stages])
+
+  const hasStages = Object.keys(stages).length > 0
 
-    if (observationsData.length > 0) {
-      series.push({
-        name: 'Observations',
-        data: observationsData
-      })
+  // Bands run from each stage to the next; the top band extends above the data
+  const dataMax = Math.max(...exceedance.map(({ summary }) => summary.peak?.value ?? -Infinity))
+  const definedStages = FLOOD_STAGE_LEVELS.filter((stage) => stages[stage.value] !== undefined)
+  const stageBands = definedStages.map((stage, index) => {
+    const from = stages[stage.value] as number
+    const next = definedStages[index + 1]
+    return {
+      y: from,
+      y2: next ? stages[next.value] : Math.max(from, dataMax) + convertLength(1, 'ft', unit),
+      fillColor: stage.color,
+      opacity: 0.12,
+      borderColor: stage.color,
+      strokeDashArray: 0,
+      label: {
+        text: `${stage.label} ${from.toFixed(2)} ${unit}`,
+        position: 'left',
+        textAnchor: 'start',
+        offsetX: 8,
+        borderColor: stage.color,
+        style: { color: '#fff', background: stage.color, fontSize: '10px' }
+      }
     }
+  })
 
-    if (predictionsData.length > 0) {
-      series.push({
-        name: 'NOAA Predictions',
-        data: predictionsData
-      })
+  // Shade the time spans above the lowest stage, colored by the highest stage reached
+  const exceedanceBands = exceedance.flatMap(({ name, summary }) => summary.periods.map((period) => ({
+    x: period.start,
+    x2: period.end,
+    fillColor: getStageColor(period.level),
+    opacity: name === 'Observed' ? 0.2 : 0.1,
+    borderColor: getStageColor(period.level),
+    label: {
+      text: `${name}: ${getStageLabel(period.level)}`,
+      orientation: 'horizontal',
+      borderColor: getStageColor(period.level),
+      style: { color: '#fff', background: getStageColor(period.level), fontSize: '10px' }
     }
+  })))
+
+  // Observation outages, so a missing peak reads as missing data rather than a calm period
+  const gapBands = chartData.observationGaps.map((gap) => ({
+    x: gap.start,
+    x2: gap.end,
+    fillColor: '#9CA3AF',
+    opacity: 0.15,
+    borderColor: '#9CA3AF',
+    label: {
+      text: `No data (${gap.missing})`,
+      orientation: 'horizontal',
+      borderColor: '#9CA3AF',
+      style: { color: '#fff', background: '#9CA3AF', fontSize: '10px' }
+    }
+  }))
+
+  // Keep the first stage above the peak in view for context
+  const nextStageAbovePeak = definedStages.map((stage) => stages[stage.value] as number).find((value) => value > dataMax)
+
+  const waterLevelAxis = {
+    seriesName: ['Observations', 'NOAA Predictions'],
+    max: nextStageAbovePeak !== undefined && Number.isFinite(dataMax)
+      ? (max: number) => Math.max(max, nextStageAbovePeak + convertLength(0.25, 'ft', unit))
+      : undefined,
+    title: {
+      text: `Water Level (${unit}, ${datum})`
+    },
+    labels: {
+      formatter: (value: number) => `${value.toFixed(2)} ${unit}`
+    }
+  }
 
-    return { series }
-  }, [predictions, observations])
+  // Secondary axis for the residual, so small surges aren't flattened by the tide range
+  const residualAxis = {
+    seriesName: 'Residual',
+    opposite: true,
+    title: {
+      text: `Residual (${unit})`
+    },
+    labels: {
+      formatter: (value: number) => `${value.toFixed(2)} ${unit}`
+    }
+  }
 
   const options = {
     chart: {
       type: 'line' as const,
       height: 300,
       animations: {
-        enabled: true,
+        enabled: !view && pointCount <= ANIMATED_POINT_LIMIT, // Redraws of dense or zoomed series are instant
         easing: 'easeinout' as const,
         speed: 800
       },
+      events: zoomEvents,
       toolbar: {
         show: true,
         tools: {
@@ -76,14 +336,16 @@ export function WaterLevelChart({ predictions, observations, title, loading, sta
         }
       }
     },
-    colors: ['#B4E50D', '#36A2EB'], // Green for observations, Blue for predictions
+    colors: ['#B4E50D', '#36A2EB', '#EC4899'], // Green for observations, Blue for predictions, Pink for residual
     stroke: {
       curve: 'monotoneCubic' as const, // Smooth curves for better continuity
-      width: 3,
+      width: isResidualVisible ? [3, 3, 2] : 3,
+      dashArray: isResidualVisible ? [0, 0, 4] : 0,
       lineCap: 'round' as const
     },
     markers: {
       size: 0, // Hide markers for clean continuous line
+      discrete: suspectMarkers,
       hover: {
         size: 7,
         sizeOffset: 3
@@ -91,11 +353,13 @@ export function WaterLevelChart({ predictions, observations, title, loading, sta
     },
     xaxis: {
       type: 'datetime' as const,
+      min: view?.min,
+      max: view?.max,
       labels: {
-        format: 'yyyy-MM-dd HH:mm'
+        formatter: (value: string, timestamp?: number) => formatZonedAxisLabel(timestamp ?? Number(value), zone)
       },
       title: {
-        text: 'Time'
+        text: `Time (${zoneLabel})`
       },
       crosshairs: {
         show: true,
@@ -109,14 +373,12 @@ export function WaterLevelChart({ predictions, observations, title, loading, sta
         }
       }
     },
-    yaxis: {
-      title: {
-        text: 'Water Level (feet)'
-      },
-      labels: {
-        formatter: (value: number) => `${value.toFixed(2)} feet`
-      }
+    annotations: {
+      yaxis: stageBands,
+      xaxis: [...exceedanceBands, ...gapBands],
+      points: tideMarkers
     },
+    yaxis: isResidualVisible ? [waterLevelAxis, residualAxis] : waterLevelAxis,
     grid: {
       show: true,
       borderColor: '#e5e7eb'
@@ -142,12 +404,17 @@ export function WaterLevelChart({ predictions, observations, title, loading, sta
         fontFamily: 'inherit'
       },
       x: {
-        format: 'ddd, MMM dd yyyy, HH:mm',
-        formatter: undefined
+        formatter: (value: number) => formatZonedDateTime(value, zone, { weekday: 'short', month: 'short', day: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
       },
       y: {
-        formatter: (value: number) => {
-          return value !== null && value !== undefined ? `${value.toFixed(2)}ft` : 'N/A'
+        formatter: (value: number, opts?: { seriesIndex: number; dataPointIndex: number }) => {
+          if (value === null || value === undefined) return 'N/A'
+          const quality = opts?.seriesIndex === 0 && displayed.observationsData.length > 0
+            ? displayed.observationQuality[opts.dataPointIndex]
+            : undefined
+          return quality?.isSuspect
+            ? `${value.toFixed(2)} ${unit} ⚠ ${describeQualityFlags(quality)}`
+            : `${value.toFixed(2)} ${unit}`
         }
       },
       marker: {
@@ -198,12 +465,99 @@ export function WaterLevelChart({ predictions, observations, title, loading, sta
 
   return (
     <div className="bg-white p-4 rounded-lg shadow-sm border">
-      <Chart
-        options={options}
-        series={chartData.series}
-        type="line"
-        height={300}
-      />
+      {/* Residual Toggle and Flood Stage Settings */}
+      {stationId && (
+        <div className="flex justify-end gap-2">
+          <label
+            className={`flex items-center gap-1 px-2 py-1 text-xs rounded-md text-gray-600 ${canShowResidual ? 'hover:bg-gray-100 cursor-pointer' : 'opacity-50'}`}
+            title={canShowResidual ? 'Observed minus predicted water level' : 'Needs overlapping observations and predictions'}
+          >
+            <input
+              type="checkbox"
+              checked={isResidualVisible}
+              disabled={!canShowResidual}
+              onChange={(e) => setShowResidual(e.target.checked)}
+            />
+            Residual
+          </label>
+          <label
+            className={`flex items-center gap-1 px-2 py-1 text-xs rounded-md text-gray-600 ${flaggedCount > 0 ? 'hover:bg-gray-100 cursor-pointer' : 'opacity-50'}`}
+            title="Observations with NOAA quality flags set (outliers, flat tolerance, rate of change, max/min)"
+          >
+            <input
+              type="checkbox"
+              checked={hideFlagged}
+              disabled={flaggedCount === 0}
+              onChange={(e) => setHideFlagged(e.target.checked)}
+            />
+            <span className="inline-block w-2 h-2" style={{ backgroundColor: SUSPECT_COLOR }} />
+            Hide flagged ({flaggedCount})
+          </label>
+          <button
+            onClick={() => setIsEditingStages(!isEditingStages)}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded-md text-gray-600 hover:bg-gray-100"
+            title="Edit flood stages"
+          >
+            <Settings2 className="w-3.5 h-3.5" />
+            Flood stages{isCustom ? ' (custom)' : ''}
+          </button>
+        </div>
+      )}
+      {isEditingStages && (
+        <FloodStageEditor
+          stages={stages}
+          unitLabel={`${unit} ${datum}`}
+          isCustom={isCustom}
+          onSave={(values) => saveStages({
+            datum,
+            stages: Object.fromEntries(
+              Object.entries(values).map(([level, value]) => [level, convertLength(value, unit, 'ft')])
+            ),
+          })}
+          onReset={resetStages}
+          onClose={() => setIsEditingStages(false)}
+        />
+      )}
+
+      <div ref={plotRef}>
+        <Chart
+          options={options}
+          series={series}
+          type="line"
+          height={300}
+        />
+      </div>
+
+      {isResidualVisible && (
+        <div className="mt-2">
+          <SurgeSummary stats={residual.stats} unit={unit} timeZone={zone} />
+        </div>
+      )}
+
+      {/* Exceedance Summary */}
+      {hasStages && (
+        <div className="mt-2 space-y-1 text-xs text-gray-700">
+          {exceedance.map(({ name, summary }) => {
+            const firstStage = FLOOD_STAGE_LEVELS.find((stage) => summary.firstCrossings[stage.value] !== undefined)
+            return (
+              <p key={name}>
+                <span className="font-semibold">{name}:</span>{' '}
+                {summary.peak && (
+                  <>peak {summary.peak.value.toFixed(2)} {unit} {datum} at {formatZonedDateTime(summary.peak.time, zone)}</>
+                )}
+                {summary.highestLevel ? (
+                  <span className="font-semibold" style={{ color: getStageColor(summary.highestLevel) }}>
+                    {' '}· {getStageLabel(summary.highestLevel)} stage
+                  </span>
+                ) : ' · below flood stages'}
+                {firstStage && (
+                  <> · first above {firstStage.label} at {formatZonedDateTime(summary.firstCrossings[firstStage.value] as number, zone)}</>
+                )}
+              </p>
+            )
+          })}
+        </div>
+      )}
     </div>
   )
 }
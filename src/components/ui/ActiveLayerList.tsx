@@ -0,0 +1,120 @@
+import { useState } from 'react'
+import { GripVertical } from 'lucide-react'
+import type { LayerDisplaySettings, WMSLayerConfig } from '../../types/map'
+import type { WMSStyle } from '../../types/wms'
+
+interface ActiveLayerListProps {
+  layers: WMSLayerConfig[] // Visible layers, top-most first
+  settings: Record<string, LayerDisplaySettings>
+  stylesByLayer: Record<string, WMSStyle[]> // Keyed by layer id
+  onOpacityChange: (layerId: string, opacity: number) => void
+  onStyleChange: (layerId: string, style: string) => void
+  onReorder: (layerIds: string[]) => void // New order, top-most first
+}
+
+export const ActiveLayerList: React.FC<ActiveLayerListProps> = ({
+  layers,
+  settings,
+  stylesByLayer,
+  onOpacityChange,
+  onStyleChange,
+  onReorder,
+}) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+
+  if (layers.length === 0) return null
+
+  // Move the dragged layer to the drop target's position
+  const handleDrop = (targetId: string) => {
+    if (!draggedId || draggedId === targetId) return
+    const ids = layers.map((layer) => layer.id)
+    const fromIndex = ids.indexOf(draggedId)
+    const toIndex = ids.indexOf(targetId)
+    ids.splice(fromIndex, 1)
+    ids.splice(toIndex, 0, draggedId)
+    onReorder(ids)
+  }
+
+  return (
+    <div className="bg-white p-4 rounded-md shadow-md">
+      <h3 className="font-medium mb-2 text-sm text-gray-800">Active Layers</h3>
+      <p className="text-[11px] text-gray-500 mb-2">Drag to reorder (top draws above)</p>
+
+      <ul className="space-y-2 max-h-[280px] overflow-y-auto">
+        {layers.map((layer) => {
+          const layerSettings = settings[layer.id]
+          const opacity = layerSettings?.opacity ?? 1
+          const styles = stylesByLayer[layer.id] ?? []
+
+          return (
+            <li
+              key={layer.id}
+              draggable
+              onDragStart={(e) => {
+                setDraggedId(layer.id)
+                e.dataTransfer.effectAllowed = 'move'
+              }}
+              onDragOver={(e) => {
+                e.preventDefault()
+                setDropTargetId(layer.id)
+              }}
+              onDragLeave={() => setDropTargetId(null)}
+              onDrop={(e) => {
+                e.preventDefault()
+                handleDrop(layer.id)
+                setDropTargetId(null)
+              }}
+              onDragEnd={() => {
+                setDraggedId(null)
+                setDropTargetId(null)
+              }}
+              className={`rounded-md border p-2 transition-colors ${
+                dropTargetId === layer.id && draggedId !== layer.id
+                  ? 'border-blue-400 bg-blue-50'
+                  : 'border-gray-200 bg-white'
+              } ${draggedId === layer.id ? 'opacity-50' : ''}`}
+            >
+              <div className="flex items-center gap-1.5">
+                <GripVertical className="w-4 h-4 text-gray-400 cursor-grab flex-shrink-0" />
+                <span className="text-xs font-medium text-gray-800 truncate flex-1" title={layer.name}>
+                  {layer.name}
+                </span>
+                <span className="text-[11px] text-gray-500 w-9 text-right">{Math.round(opacity * 100)}%</span>
+              </div>
+
+              {/* Opacity */}
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={Math.round(opacity * 100)}
+                onChange={(e) => onOpacityChange(layer.id, Number(e.target.value) / 100)}
+                className="w-full mt-1 accent-blue-500 cursor-pointer"
+                aria-label={`${layer.name} opacity`}
+              />
+
+              {/* Style (WMS STYLES parameter) */}
+              {styles.length > 1 && (
+                <select
+                  value={layerSettings?.style ?? ''}
+                  onChange={(e) => onStyleChange(layer.id, e.target.value)}
+                  className="w-full mt-1 px-2 py-1 text-xs border border-gray-300 rounded-md bg-white text-gray-700 cursor-pointer"
+                  aria-label={`${layer.name} style`}
+                >
+                  <option value="">Default style</option>
+                  {styles.map((style) => (
+                    <option key={style.name} value={style.name}>
+                      {style.title}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -2,7 +2,10 @@ import React, { useEffect, useRef, useState } from 'react'
 import { MapContainer, TileLayer } from 'react-leaflet'
 import L from 'leaflet'
 import 'leaflet-side-by-side'
-import { Layers, X } from 'lucide-react'
+import { Layers, X, ChevronDown, ChevronUp } from 'lucide-react'
+import { useLayerRegistry } from '../../hooks/useLayerRegistry'
+import { LegendGraphic } from './LegendPanel'
+import type { WMSLayerConfig } from '../../types/map'
 
 // Layer types configuration
 type LayerType = 'default' | 'satellite' | 'terrain'
@@ -41,17 +44,6 @@ const LAYER_TYPES: Record<LayerType, LayerConfig> = {
   }
 }
 
-interface WMSLayerConfig {
-  id: string
-  name: string
-  url: string
-  layers: string
-  format: string
-  transparent: boolean
-  version: string
-  zIndex: number
-}
-
 interface CompareMapProps {
   leftLayerId?: string | null
   rightLayerId?: string | null
@@ -59,99 +51,61 @@ interface CompareMapProps {
   onDisable?: () => void
 }
 
-// Default WMS layers configuration
-const DEFAULT_WMS_LAYERS: readonly WMSLayerConfig[] = [
-  {
-    id: 'water_surface_elevation',
-    name: 'Water Surface Elevation',
-    url: import.meta.env.VITE_GEOSERVER_BASE_URL,
-    layers: 'flood-app:rendered_noaa_wse',
-    format: 'image/png',
-    transparent: true,
-    version: '1.3.0',
-    zIndex: 502
-  },
-  {
-    id: 'water_surface_elevation_2nd',
-    name: 'Water Surface Elevation 2nd Phase',
-    url: import.meta.env.VITE_GEOSERVER_BASE_URL,
-    layers: 'flood-app:rendered_noaa_wse_2nd',
-    format: 'image/png',
-    transparent: true,
-    version: '1.3.0',
-    zIndex: 503
-  }
-] as const
-
 // Legend Component
 interface MapLegendProps {
-  leftLayerName: string
-  rightLayerName: string
-}
-
-// Helper function to get color based on layer name
-const getLayerColor = (layerName: string): string => {
-  if (layerName.includes('24 hours')) {
-    return '#abd9e9' // Dark navy blue for 24 hours
-  } else if (layerName.includes('12 hours')) {
-    return '#FAB12F' // Saddle brown for 12 hours
-  }
-  return '#6B7280' // Default gray fallback
+  leftLayer: WMSLayerConfig
+  rightLayer: WMSLayerConfig
 }
 
-const MapLegend: React.FC<MapLegendProps> = ({ leftLayerName, rightLayerName }) => {
-  const leftColor = getLayerColor(leftLayerName)
-  const rightColor = getLayerColor(rightLayerName)
+const MapLegend: React.FC<MapLegendProps> = ({ leftLayer, rightLayer }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false)
 
   return (
-    <div className="absolute bottom-4 left-4 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg p-4 z-[1000] min-w-[280px]">
-      <div className="flex items-center gap-2 mb-3">
-        <Layers className="w-5 h-5 text-blue-600" />
-        <h3 className="font-semibold text-gray-800">Layer Comparison</h3>
-      </div>
-
-      <div className="space-y-3">
-        {/* Left Layer */}
-        <div className="flex items-center gap-3">
-          <div
-            className="w-4 h-4 rounded border flex-shrink-0"
-            style={{
-              backgroundColor: leftColor,
-              borderColor: leftColor,
-              borderWidth: '1px'
-            }}
-          />
-          <div className="min-w-0">
-            <p className="font-medium text-sm text-gray-800 truncate">{leftLayerName}</p>
-            <p className="text-xs text-gray-600">Left Side</p>
-          </div>
+    <div className="absolute bottom-4 left-4 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg p-4 z-[1000] min-w-[280px] max-w-[320px]">
+      <button
+        onClick={() => setIsCollapsed(!isCollapsed)}
+        className="w-full flex items-center justify-between gap-2"
+        title={isCollapsed ? 'Show legend' : 'Hide legend'}
+      >
+        <div className="flex items-center gap-2">
+          <Layers className="w-5 h-5 text-blue-600" />
+          <h3 className="font-semibold text-gray-800">Layer Comparison</h3>
         </div>
-
-        {/* Divider */}
-        <div className="border-t border-gray-200" />
-
-        {/* Right Layer */}
-        <div className="flex items-center gap-3">
-          <div
-            className="w-4 h-4 rounded border flex-shrink-0"
-            style={{
-              backgroundColor: rightColor,
-              borderColor: rightColor,
-              borderWidth: '1px'
-            }}
-          />
-          <div className="min-w-0">
-            <p className="font-medium text-sm text-gray-800 truncate">{rightLayerName}</p>
-            <p className="text-xs text-gray-600">Right Side</p>
+        {isCollapsed ? (
+          <ChevronUp className="w-4 h-4 text-gray-500" />
+        ) : (
+          <ChevronDown className="w-4 h-4 text-gray-500" />
+        )}
+      </button>
+
+      {!isCollapsed && (
+        <>
+          <div className="space-y-3 mt-3 max-h-[50vh] overflow-y-auto">
+            {/* Left Layer */}
+            <div className="min-w-0">
+              <p className="font-medium text-sm text-gray-800 truncate">{leftLayer.name}</p>
+              <p className="text-xs text-gray-600 mb-1">Left Side</p>
+              <LegendGraphic layerName={leftLayer.layers} />
+            </div>
+
+            {/* Divider */}
+            <div className="border-t border-gray-200" />
+
+            {/* Right Layer */}
+            <div className="min-w-0">
+              <p className="font-medium text-sm text-gray-800 truncate">{rightLayer.name}</p>
+              <p className="text-xs text-gray-600 mb-1">Right Side</p>
+              <LegendGraphic layerName={rightLayer.layers} />
+            </div>
           </div>
-        </div>
-      </div>
 
-      <div className="mt-3 pt-3 border-t border-gray-200">
-        <p className="text-xs text-gray-500">
-          Drag the slider to compare layers
-        </p>
-      </div>
+          <div className="mt-3 pt-3 border-t border-gray-200">
+            <p className="text-xs text-gray-500">
+              Drag the slider to compare layers
+            </p>
+          </div>
+        </>
+      )}
     </div>
   )
 }
@@ -176,19 +130,25 @@ const DisableButton: React.FC<DisableButtonProps> = ({ onDisable }) => (
 
 // Main CompareMap Component
 export const CompareMap: React.FC<CompareMapProps> = ({
-  leftLayerId = 'water_surface_elevation',
-  rightLayerId = 'water_surface_elevation_2nd',
-  layersConfig = DEFAULT_WMS_LAYERS,
+  leftLayerId,
+  rightLayerId,
+  layersConfig,
   onDisable = () => console.log('Comparison disabled')
 }) => {
+  // Fall back to the first two dropdown layers from the layer registry
+  const { radioLayers } = useLayerRegistry()
+  const availableLayers = layersConfig ?? radioLayers
+  const leftId = leftLayerId ?? availableLayers[0]?.id
+  const rightId = rightLayerId ?? availableLayers[1]?.id
+
   const mapRef = useRef<L.Map | null>(null)
   const sideBySideRef = useRef<any>(null)
   const [isMapReady, setIsMapReady] = useState(false)
   const [selectedLayer] = useState<LayerType>('satellite')
 
   // Find layer configs
-  const leftLayerConfig = layersConfig.find(l => l.id === leftLayerId)
-  const rightLayerConfig = layersConfig.find(l => l.id === rightLayerId)
+  const leftLayerConfig = availableLayers.find(l => l.id === leftId)
+  const rightLayerConfig = availableLayers.find(l => l.id === rightId)
 
   // Load Leaflet CSS
   useEffect(() => {
@@ -299,8 +259,8 @@ export const CompareMap: React.FC<CompareMapProps> = ({
       {/* Legend */}
       {leftLayerConfig && rightLayerConfig && (
         <MapLegend
-          leftLayerName={leftLayerConfig.name}
-          rightLayerName={rightLayerConfig.name}
+          leftLayer={leftLayerConfig}
+          rightLayer={rightLayerConfig}
         />
       )}
     </div>
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from 'react'
+import { formatSampleInterval, type Completeness, type DataGap } from '../../utils/gaps'
+import { formatZonedDateTime } from '../../utils/timeZone'
+
+interface CompletenessSummaryProps {
+  observations: Completeness
+  predictions: Completeness
+  timeZone: string // IANA zone for outage times
+}
+
+const formatPercent = (ratio: number | null) => (ratio === null ? '-' : `${(ratio * 100).toFixed(1)}%`)
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000)
+  const hours = Math.floor(minutes / 60)
+  if (hours === 0) return `${minutes} min`
+  return minutes % 60 === 0 ? `${hours} h` : `${hours} h ${minutes % 60} min`
+}
+
+const describeEdge = (gap: DataGap) => {
+  if (gap.edge === 'start') return 'from range start'
+  if (gap.edge === 'end') return 'to latest expected'
+  return null
+}
+
+// Footer completeness figure; opens the observation outage list above the footer
+export function CompletenessSummary({ observations, predictions, timeZone }: CompletenessSummaryProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const { gaps } = observations
+
+  // Close when clicking outside the list
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [isOpen])
+
+  if (observations.expected === 0 && predictions.expected === 0) return null
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={gaps.length === 0}
+        className={`px-2 py-0.5 rounded-md ${gaps.length > 0 ? 'hover:bg-gray-200 text-amber-700' : 'cursor-default'}`}
+        title={`${formatSampleInterval(observations.interval)} observations: ${observations.present} of ${observations.expected} expected`}
+      >
+        {observations.expected > 0 ? `Observations ${formatPercent(observations.ratio)} complete` : 'No observations expected yet'}
+        {gaps.length > 0 && ` · ${gaps.length} ${gaps.length === 1 ? 'outage' : 'outages'}`}
+        {predictions.ratio !== null && predictions.ratio < 1 && ` · Predictions ${formatPercent(predictions.ratio)}`}
+      </button>
+
+      {isOpen && gaps.length > 0 && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-[28rem] max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg z-10 p-3">
+          <h4 className="text-xs font-semibold text-gray-700 uppercase mb-2">Observation outages</h4>
+          <table className="w-full text-xs">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="py-1 text-left">From</th>
+                <th className="py-1 text-left">To</th>
+                <th className="py-1 text-right">Duration</th>
+                <th className="py-1 text-right">Missing</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 text-gray-900">
+              {gaps.map((gap) => (
+                <tr key={`${gap.start}-${gap.end}`}>
+                  <td className="py-1">{formatZonedDateTime(gap.start, timeZone)}</td>
+                  <td className="py-1">
+                    {formatZonedDateTime(gap.end, timeZone)}
+                    {describeEdge(gap) && <span className="block text-gray-500">{describeEdge(gap)}</span>}
+                  </td>
+                  <td className="py-1 text-right">{formatDuration(gap.end - gap.start)}</td>
+                  <td className="py-1 text-right">{gap.missing}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-[10px] text-gray-500">
+            Expected a sample every {formatSampleInterval(observations.interval).toLowerCase()} interval; peaks inside an outage may be missed.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
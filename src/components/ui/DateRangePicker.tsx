@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react'
+import {
+  DATE_RANGE_PRESETS,
+  MAX_FUTURE_DAYS,
+  MIN_RANGE_DATE,
+  addDays,
+  getPresetRange,
+  getTodayValue,
+  validateDateRange,
+  type DateRange,
+} from '../../utils/dateRange'
+
+interface DateRangePickerProps {
+  value: DateRange
+  onChange: (range: DateRange) => void // Only called with valid ranges
+  timeZone?: string // Zone the dates are calendar days in (default: this device's)
+}
+
+export const DateRangePicker: React.FC<DateRangePickerProps> = ({ value, onChange, timeZone }) => {
+  // Edited dates are applied explicitly so typing doesn't fire requests
+  const [draft, setDraft] = useState<DateRange>(value)
+
+  useEffect(() => {
+    setDraft(value)
+  }, [value.start, value.end])
+
+  const now = new Date()
+  const error = validateDateRange(draft, now, timeZone)
+  const isDirty = draft.start !== value.start || draft.end !== value.end
+  const maxDate = addDays(getTodayValue(now, timeZone), MAX_FUTURE_DAYS)
+
+  const applyPreset = (preset: (typeof DATE_RANGE_PRESETS)[number]['value']) => {
+    const range = getPresetRange(preset, now, timeZone)
+    setDraft(range)
+    onChange(range)
+  }
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!error) onChange(draft)
+  }
+
+  return (
+    <form onSubmit={handleApply} className="flex flex-col items-center gap-1">
+      <div className="flex items-center gap-3">
+        {/* Presets */}
+        <div className="flex gap-1 border border-gray-300 rounded-md overflow-hidden">
+          {DATE_RANGE_PRESETS.map((preset, index) => {
+            const range = getPresetRange(preset.value, now, timeZone)
+            const isActive = range.start === value.start && range.end === value.end
+            return (
+              <button
+                key={preset.value}
+                type="button"
+                onClick={() => applyPreset(preset.value)}
+                title={preset.description}
+                className={`px-3 py-1.5 text-sm font-medium transition-colors ${index > 0 ? 'border-l border-gray-300' : ''} ${
+                  isActive
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {preset.label}
+              </button>
+            )
+          })}
+        </div>
+
+        {/* Start / End */}
+        <input
+          type="date"
+          value={draft.start}
+          onChange={(e) => setDraft((prev) => ({ ...prev, start: e.target.value }))}
+          min={MIN_RANGE_DATE}
+          max={maxDate}
+          aria-label="Start date"
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <span className="text-sm text-gray-500">to</span>
+        <input
+          type="date"
+          value={draft.end}
+          onChange={(e) => setDraft((prev) => ({ ...prev, end: e.target.value }))}
+          min={draft.start || MIN_RANGE_DATE}
+          max={maxDate}
+          aria-label="End date"
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!isDirty || !!error}
+          className="px-3 py-1.5 text-sm font-medium rounded-md bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-40"
+        >
+          Apply
+        </button>
+      </div>
+      {isDirty && error && <p className="text-xs text-red-600">{error}</p>}
+    </form>
+  )
+}
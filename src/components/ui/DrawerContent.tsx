@@ -1,11 +1,16 @@
 import React from 'react'
 import { UserProfile } from './UserProfile'
+import { SavedViews } from './SavedViews'
+import { UnitPreferences } from './UnitPreferences'
 import { LogOut, X } from 'lucide-react'
+import type { BookmarkView } from '../../types/bookmarks'
 
 interface DrawerContentProps {
   name: string
   email: string
   phone: string
+  currentView: BookmarkView
+  onApplyView: (view: BookmarkView) => void
   onLogout: () => void
   onClose: () => void
 }
@@ -14,6 +19,8 @@ export const DrawerContent: React.FC<DrawerContentProps> = ({
   name,
   email,
   phone,
+  currentView,
+  onApplyView,
   onLogout,
   onClose,
 }) => {
@@ -37,8 +44,16 @@ export const DrawerContent: React.FC<DrawerContentProps> = ({
       {/* Divider */}
       <div className="border-t border-gray-200 mx-4" />
 
-      {/* Spacer to push logout to bottom */}
-      <div className="flex-1" />
+      {/* Units & Datum */}
+      <UnitPreferences />
+
+      {/* Divider */}
+      <div className="border-t border-gray-200 mx-4" />
+
+      {/* Saved Map Views (scrolls, keeps logout at the bottom) */}
+      <div className="flex-1 overflow-y-auto">
+        <SavedViews currentView={currentView} onApplyView={onApplyView} />
+      </div>
 
       {/* Logout Button */}
       <div className="p-4 border-t border-gray-200">
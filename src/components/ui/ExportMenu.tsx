@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react'
+import { Download } from 'lucide-react'
+import { EXPORT_FORMATS, type ExportFormat } from '../../utils/dataExport'
+
+interface ExportMenuProps<C extends string> {
+  onExport: (format: ExportFormat, columns: C[]) => void
+  columns?: Array<{ value: C; label: string }> // Column chooser options (omit to hide the chooser)
+  defaultColumns?: C[]
+  disabled?: boolean
+  buttonClassName?: string
+  label?: string // Button text next to the icon
+  placement?: 'up' | 'down' // Open above the button (e.g. in a footer) or below it
+}
+
+export function ExportMenu<C extends string>({
+  onExport,
+  columns,
+  defaultColumns = [],
+  disabled,
+  buttonClassName = 'p-2 rounded-md border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-40',
+  label,
+  placement = 'down',
+}: ExportMenuProps<C>) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [selectedColumns, setSelectedColumns] = useState<C[]>(defaultColumns)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [isOpen])
+
+  const toggleColumn = (column: C) => {
+    setSelectedColumns((prev) => (prev.includes(column) ? prev.filter((item) => item !== column) : [...prev, column]))
+  }
+
+  const handleExport = () => {
+    onExport(format, selectedColumns)
+    setIsOpen(false)
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={buttonClassName}
+        title="Export data"
+      >
+        <span className="flex items-center gap-1">
+          <Download className="w-4 h-4 text-gray-700" />
+          {label}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className={`absolute ${placement === 'up' ? 'bottom-full mb-2' : 'top-full mt-2'} z-[2100] w-60 p-3 bg-white border border-gray-200 rounded-lg shadow-xl text-left ${placement === 'up' ? 'left-0' : 'right-0'}`}>
+          <p className="text-xs font-semibold text-gray-500 uppercase mb-1">Format</p>
+          {EXPORT_FORMATS.map((option) => (
+            <label key={option.value} className="flex items-center gap-2 py-0.5 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="radio"
+                name="export-format"
+                checked={format === option.value}
+                onChange={() => setFormat(option.value)}
+              />
+              {option.label}
+            </label>
+          ))}
+
+          {columns && columns.length > 0 && (
+            <>
+              <p className="text-xs font-semibold text-gray-500 uppercase mt-3 mb-1">Columns</p>
+              {columns.map((column) => (
+                <label key={column.value} className="flex items-center gap-2 py-0.5 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedColumns.includes(column.value)}
+                    onChange={() => toggleColumn(column.value)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </>
+          )}
+
+          <button
+            onClick={handleExport}
+            className="w-full mt-3 px-3 py-1.5 text-sm font-medium rounded-md bg-blue-500 text-white hover:bg-blue-600"
+          >
+            Download
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+import React, { useState } from 'react'
+import { FLOOD_STAGE_LEVELS, type FloodStageValues } from '../../utils/floodStages'
+
+interface FloodStageEditorProps {
+  stages: FloodStageValues // In the display unit and datum
+  unitLabel: string // e.g. "ft MLLW"
+  isCustom: boolean
+  onSave: (stages: FloodStageValues) => void
+  onReset: () => void
+  onClose: () => void
+}
+
+export const FloodStageEditor: React.FC<FloodStageEditorProps> = ({
+  stages,
+  unitLabel,
+  isCustom,
+  onSave,
+  onReset,
+  onClose,
+}) => {
+  // Inputs hold text so a stage can be left blank
+  const [values, setValues] = useState<Record<string, string>>(() => Object.fromEntries(
+    FLOOD_STAGE_LEVELS.map((stage) => [stage.value, stages[stage.value]?.toFixed(2) ?? ''])
+  ))
+
+  const parsed: FloodStageValues = {}
+  for (const stage of FLOOD_STAGE_LEVELS) {
+    const value = parseFloat(values[stage.value])
+    if (Number.isFinite(value)) parsed[stage.value] = value
+  }
+
+  // Stages must increase from action to major
+  const ordered = FLOOD_STAGE_LEVELS.map((stage) => parsed[stage.value]).filter((value) => value !== undefined)
+  const isValid = ordered.every((value, index) => index === 0 || value > ordered[index - 1])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isValid) return
+    onSave(parsed)
+    onClose()
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-3 p-3 border border-gray-200 rounded-md bg-gray-50">
+      <div className="grid grid-cols-4 gap-2">
+        {FLOOD_STAGE_LEVELS.map((stage) => (
+          <label key={stage.value} className="text-xs font-medium text-gray-700">
+            <span className="flex items-center gap-1 mb-1">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: stage.color }} />
+              {stage.label} ({unitLabel})
+            </span>
+            <input
+              type="number"
+              step="0.01"
+              value={values[stage.value]}
+              onChange={(e) => setValues((prev) => ({ ...prev, [stage.value]: e.target.value }))}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        ))}
+      </div>
+      {!isValid && <p className="mt-2 text-xs text-red-600">Stages must increase from action to major</p>}
+      <div className="flex justify-end gap-2 mt-3">
+        {isCustom && (
+          <button
+            type="button"
+            onClick={() => {
+              onReset()
+              onClose()
+            }}
+            className="px-3 py-1 text-xs rounded-md text-gray-700 hover:bg-gray-200"
+          >
+            Reset to NOAA
+          </button>
+        )}
+        <button type="button" onClick={onClose} className="px-3 py-1 text-xs rounded-md text-gray-700 hover:bg-gray-200">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!isValid}
+          className="px-3 py-1 text-xs rounded-md bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+    </form>
+  )
+}
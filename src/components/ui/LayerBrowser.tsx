@@ -0,0 +1,179 @@
+import { useState, useMemo, useEffect } from 'react'
+import { X, Search, Plus, Check, Clock, Crosshair } from 'lucide-react'
+import { useWMSCapabilities } from '../../hooks/useWMSCapabilities'
+import { Spinner } from './Spinner'
+import type { WMSBoundingBox, WMSCapabilityLayer } from '../../types/wms'
+
+interface LayerBrowserProps {
+  visible: boolean
+  onClose: () => void
+  activeLayerNames: Set<string> // WMS layer names already on the map
+  onAddLayer: (layer: WMSCapabilityLayer) => void
+  onZoomToLayer: (bbox: WMSBoundingBox) => void
+}
+
+export const LayerBrowser: React.FC<LayerBrowserProps> = ({
+  visible,
+  onClose,
+  activeLayerNames,
+  onAddLayer,
+  onZoomToLayer,
+}) => {
+  const [search, setSearch] = useState('')
+  const { data, isLoading, error, refetch } = useWMSCapabilities(visible)
+
+  // Close panel on ESC key
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && visible) {
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', handleEsc)
+    return () => window.removeEventListener('keydown', handleEsc)
+  }, [visible, onClose])
+
+  // Match search terms against name, title, abstract and keywords
+  const filteredLayers = useMemo(() => {
+    const layers = data?.layers ?? []
+    const terms = search.toLowerCase().split(/\s+/).filter(Boolean)
+    if (terms.length === 0) return layers
+
+    return layers.filter((layer) => {
+      const haystack = [layer.name, layer.title, layer.abstract, ...layer.keywords].join(' ').toLowerCase()
+      return terms.every((term) => haystack.includes(term))
+    })
+  }, [data, search])
+
+  if (!visible) return null
+
+  return (
+    <div
+      className="absolute top-4 left-20 bottom-4 z-[1500] w-[360px] max-w-[calc(100%-6rem)] bg-white rounded-lg shadow-2xl flex flex-col"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Layer Browser</h2>
+          {data?.title && <p className="text-xs text-gray-500">{data.title}</p>}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md hover:bg-gray-100 transition-colors"
+          title="Close"
+        >
+          <X className="w-5 h-5 text-gray-500" />
+        </button>
+      </div>
+
+      {/* Search */}
+      <div className="p-3 border-b">
+        <div className="relative">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search published layers"
+            className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {/* Layer List */}
+      <div className="flex-1 overflow-y-auto">
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 p-6">
+            <Spinner size="sm" color="blue" />
+            <span className="text-sm text-gray-600">Loading layers...</span>
+          </div>
+        ) : error ? (
+          <div className="p-6 text-center">
+            <p className="text-sm text-red-600 mb-3">{error.message}</p>
+            <button
+              onClick={() => refetch()}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              Retry
+            </button>
+          </div>
+        ) : filteredLayers.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500">No layers match your search</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {filteredLayers.map((layer) => {
+              const isActive = activeLayerNames.has(layer.name)
+
+              return (
+                <li key={layer.name} className="p-3 hover:bg-gray-50">
+                  <div className="flex items-start gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate" title={layer.title}>
+                        {layer.title}
+                      </p>
+                      <p className="text-xs text-gray-500 font-mono truncate">{layer.name}</p>
+                      {layer.abstract && (
+                        <p className="text-xs text-gray-600 mt-1 line-clamp-2">{layer.abstract}</p>
+                      )}
+                      <div className="flex flex-wrap gap-1 mt-1.5">
+                        {layer.time && (
+                          <span className="inline-flex items-center gap-1 text-[10px] px-1.5 py-0.5 bg-purple-50 text-purple-700 rounded">
+                            <Clock className="w-3 h-3" />
+                            {layer.time.values.length} times
+                          </span>
+                        )}
+                        {layer.styles.length > 1 && (
+                          <span className="text-[10px] px-1.5 py-0.5 bg-gray-100 text-gray-600 rounded">
+                            {layer.styles.length} styles
+                          </span>
+                        )}
+                        {layer.queryable && (
+                          <span className="text-[10px] px-1.5 py-0.5 bg-green-50 text-green-700 rounded">
+                            queryable
+                          </span>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-col gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => onAddLayer(layer)}
+                        disabled={isActive}
+                        className={`p-1.5 rounded-md border transition-colors ${
+                          isActive
+                            ? 'border-green-200 bg-green-50 text-green-600 cursor-default'
+                            : 'border-gray-300 text-gray-700 hover:bg-blue-50 hover:text-blue-600'
+                        }`}
+                        title={isActive ? 'Already on map' : 'Add to map'}
+                      >
+                        {isActive ? <Check className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                      </button>
+                      {layer.bbox && (
+                        <button
+                          onClick={() => layer.bbox && onZoomToLayer(layer.bbox)}
+                          className="p-1.5 rounded-md border border-gray-300 text-gray-700 hover:bg-blue-50 hover:text-blue-600 transition-colors"
+                          title="Zoom to layer"
+                        >
+                          <Crosshair className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* Footer */}
+      {data && (
+        <div className="py-2 px-4 border-t bg-gray-50 text-xs text-gray-600 rounded-b-lg">
+          {filteredLayers.length} of {data.layers.length} layers
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronUp, ListTree } from 'lucide-react'
+import { buildLegendGraphicUrl } from '../../api/wms'
+
+export interface LegendEntry {
+  id: string
+  name: string
+  layerName: string // WMS layer name passed to GetLegendGraphic
+  style?: string
+  subtitle?: string
+}
+
+// Single GetLegendGraphic image with a fallback when GeoServer has no legend
+export const LegendGraphic: React.FC<{ layerName: string; style?: string }> = ({ layerName, style }) => {
+  const src = buildLegendGraphicUrl(layerName, style)
+  const [failedSrc, setFailedSrc] = useState<string | null>(null)
+
+  if (failedSrc === src) {
+    return <p className="text-xs text-gray-400">Legend unavailable</p>
+  }
+
+  return (
+    <img
+      src={src}
+      alt={`Legend for ${layerName}`}
+      className="max-w-full"
+      loading="lazy"
+      onError={() => setFailedSrc(src)}
+    />
+  )
+}
+
+interface LegendPanelProps {
+  entries: LegendEntry[]
+  className?: string
+}
+
+// Collapsible panel stacking legends for every visible WMS layer
+export const LegendPanel: React.FC<LegendPanelProps> = ({ entries, className = '' }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false)
+
+  if (entries.length === 0) return null
+
+  return (
+    <div
+      className={`legend-panel-prevent-click bg-white/95 backdrop-blur-sm rounded-lg shadow-lg w-[240px] ${className}`}
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+      onWheel={(e) => e.stopPropagation()}
+    >
+      <button
+        onClick={() => setIsCollapsed(!isCollapsed)}
+        className="w-full flex items-center justify-between gap-2 px-3 py-2"
+        title={isCollapsed ? 'Show legend' : 'Hide legend'}
+      >
+        <div className="flex items-center gap-2">
+          <ListTree className="w-4 h-4 text-blue-600" />
+          <span className="text-sm font-semibold text-gray-800">Legend</span>
+          <span className="text-xs text-gray-500">({entries.length})</span>
+        </div>
+        {isCollapsed ? (
+          <ChevronUp className="w-4 h-4 text-gray-500" />
+        ) : (
+          <ChevronDown className="w-4 h-4 text-gray-500" />
+        )}
+      </button>
+
+      {!isCollapsed && (
+        <div className="max-h-[40vh] overflow-y-auto px-3 pb-3 space-y-3 border-t border-gray-200 pt-2">
+          {entries.map((entry) => (
+            <div key={entry.id}>
+              <p className="text-xs font-medium text-gray-800 truncate" title={entry.name}>
+                {entry.name}
+              </p>
+              {entry.subtitle && <p className="text-[11px] text-gray-500">{entry.subtitle}</p>}
+              <div className="mt-1">
+                <LegendGraphic layerName={entry.layerName} style={entry.style} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,184 @@
+import React, { useState } from 'react'
+import { X, RefreshCw, Trash2, Crosshair, FileDown, MapPin } from 'lucide-react'
+import { Spinner } from './Spinner'
+import { useUnits } from '../../contexts/UnitsContext'
+import { useTimeZone } from '../../contexts/TimeZoneContext'
+import { convertLength, formatLength } from '../../utils/units'
+import { ExportMenu } from './ExportMenu'
+import { probesToDataset, probesToGeoJSON } from '../../utils/probeExport'
+import { downloadTextFile, exportDataset } from '../../utils/dataExport'
+import { formatZonedDateTime, resolveTimeZone } from '../../utils/timeZone'
+import type { DepthProbe } from '../../types/map'
+
+interface ProbeListProps {
+  probes: DepthProbe[]
+  onRename: (id: string, label: string) => void
+  onRemove: (id: string) => void
+  onRequery: (probe: DepthProbe) => void
+  onFocus: (probe: DepthProbe) => void
+  onClear: () => void
+  onClose: () => void
+}
+
+// Label input that commits on blur or Enter (Escape restores the saved label)
+const ProbeLabelInput: React.FC<{ label: string; onRename: (label: string) => void }> = ({ label, onRename }) => {
+  const [value, setValue] = useState(label)
+
+  const commit = () => {
+    const trimmed = value.trim()
+    if (trimmed && trimmed !== label) {
+      onRename(trimmed)
+    } else {
+      setValue(label)
+    }
+  }
+
+  return (
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur()
+        if (e.key === 'Escape') setValue(label)
+      }}
+      maxLength={60}
+      className="w-full px-1 -mx-1 text-sm font-medium text-gray-900 bg-transparent rounded border border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none"
+      aria-label="Probe label"
+    />
+  )
+}
+
+export const ProbeList: React.FC<ProbeListProps> = ({
+  probes,
+  onRename,
+  onRemove,
+  onRequery,
+  onFocus,
+  onClear,
+  onClose,
+}) => {
+  const { unit } = useUnits()
+  // Reading times follow the time zone preference (station time estimated from each probe's longitude)
+  const { mode: timeZoneMode } = useTimeZone()
+  const timestamp = new Date().toISOString().slice(0, 10)
+
+  return (
+    <div
+      className="absolute top-4 right-20 z-[1500] w-[320px] max-h-[calc(100%-2rem)] bg-white rounded-lg shadow-2xl flex flex-col"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Depth Probes</h2>
+          <p className="text-xs text-gray-500">Click the map to add a probe</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md hover:bg-gray-100 transition-colors"
+          title="Close probe mode"
+        >
+          <X className="w-5 h-5 text-gray-500" />
+        </button>
+      </div>
+
+      {/* Probe List */}
+      <div className="flex-1 overflow-y-auto">
+        {probes.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 p-6 text-center">
+            <MapPin className="w-6 h-6 text-gray-300" />
+            <p className="text-sm text-gray-500">No probes yet</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {probes.map((probe) => (
+              <li key={probe.id} className="p-3">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <ProbeLabelInput label={probe.label} onRename={(label) => onRename(probe.id, label)} />
+                    <p className="text-xs text-gray-500 font-mono">
+                      {probe.lat.toFixed(5)}, {probe.lng.toFixed(5)}
+                    </p>
+                    <div className="mt-1 text-sm">
+                      {probe.status === 'loading' ? (
+                        <span className="inline-flex items-center gap-2 text-gray-600">
+                          <Spinner size="sm" color="blue" /> Loading...
+                        </span>
+                      ) : probe.status === 'error' ? (
+                        <span className="text-red-600 text-xs">{probe.error}</span>
+                      ) : probe.depth !== null ? (
+                        <span className="font-semibold text-gray-900">{formatLength(convertLength(probe.depth, probe.unit, unit), unit)}</span>
+                      ) : (
+                        <span className="text-gray-400">No data</span>
+                      )}
+                    </div>
+                    {probe.layer && (
+                      <p className="text-[10px] text-gray-500 font-mono truncate" title={probe.layer}>{probe.layer}</p>
+                    )}
+                    <p className="text-[10px] text-gray-400">
+                      {formatZonedDateTime(Date.parse(probe.timestamp), resolveTimeZone(timeZoneMode, null, probe.lng).zone)}
+                    </p>
+                  </div>
+
+                  <div className="flex flex-col gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => onFocus(probe)}
+                      className="p-1 rounded hover:bg-gray-100"
+                      title="Zoom to probe"
+                    >
+                      <Crosshair className="w-4 h-4 text-gray-600" />
+                    </button>
+                    <button
+                      onClick={() => onRequery(probe)}
+                      disabled={probe.status === 'loading'}
+                      className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                      title="Re-query with visible layers"
+                    >
+                      <RefreshCw className="w-4 h-4 text-gray-600" />
+                    </button>
+                    <button
+                      onClick={() => onRemove(probe.id)}
+                      className="p-1 rounded hover:bg-red-50"
+                      title="Delete probe"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Footer - Export */}
+      <div className="flex items-center gap-2 p-3 border-t bg-gray-50 rounded-b-lg">
+        <ExportMenu
+          onExport={(format) => exportDataset(probesToDataset(probes, unit), format)}
+          disabled={probes.length === 0}
+          placement="up"
+          label="Export"
+          buttonClassName="px-2 py-1.5 text-xs border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-40"
+        />
+        <button
+          onClick={() => downloadTextFile(probesToGeoJSON(probes, unit), `depth_probes_${timestamp}.geojson`, 'application/geo+json')}
+          disabled={probes.length === 0}
+          className="flex items-center gap-1 px-2 py-1.5 text-xs border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-40"
+        >
+          <FileDown className="w-3.5 h-3.5" /> GeoJSON
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={onClear}
+          disabled={probes.length === 0}
+          className="px-2 py-1.5 text-xs text-red-600 rounded-md hover:bg-red-50 disabled:opacity-40"
+        >
+          Clear all
+        </button>
+      </div>
+    </div>
+  )
+}
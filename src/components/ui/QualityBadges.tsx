@@ -0,0 +1,31 @@
+import React from 'react'
+import { QUALITY_FLAGS, QUALITY_LEVELS, type DecodedQuality } from '../../utils/qualityFlags'
+
+interface QualityBadgesProps {
+  quality: DecodedQuality
+}
+
+// Set NOAA flags as short code badges (O/F/R/L), then the quality level
+export const QualityBadges: React.FC<QualityBadgesProps> = ({ quality }) => {
+  return (
+    <span className="inline-flex items-center gap-1">
+      {QUALITY_FLAGS.filter((flag) => quality.flags.includes(flag.value)).map((flag) => (
+        <span
+          key={flag.value}
+          className="inline-flex min-w-5 justify-center px-1 rounded bg-orange-100 text-orange-700 text-xs font-semibold"
+          title={flag.value === 'outlier' ? `${flag.description} (${quality.outlierCount})` : flag.description}
+        >
+          {flag.code}{flag.value === 'outlier' ? quality.outlierCount : ''}
+        </span>
+      ))}
+      {quality.level && (
+        <span
+          className={`px-1 rounded text-xs ${quality.level === 'verified' ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}
+          title={QUALITY_LEVELS[quality.level].label}
+        >
+          {QUALITY_LEVELS[quality.level].label}
+        </span>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,151 @@
+import React, { useState } from 'react'
+import { Bookmark, Check, Pencil, Plus, Trash2, X } from 'lucide-react'
+import { useBookmarks, useCreateBookmark, useRenameBookmark, useDeleteBookmark } from '../../hooks/useBookmarks'
+import { Spinner } from './Spinner'
+import type { BookmarkView, MapBookmark } from '../../types/bookmarks'
+
+interface SavedViewsProps {
+  currentView: BookmarkView
+  onApplyView: (view: BookmarkView) => void
+}
+
+// Short description of a saved view, e.g. "Zoom 12 · satellite · 3 overlays"
+const describeView = (view: BookmarkView) => {
+  const parts: string[] = []
+  if (view.zoom !== undefined) parts.push(`Zoom ${Math.round(view.zoom)}`)
+  if (view.base) parts.push(view.base)
+  if (view.overlays) parts.push(`${view.overlays.length} overlay${view.overlays.length === 1 ? '' : 's'}`)
+  if (view.compare) parts.push('comparison')
+  return parts.join(' · ')
+}
+
+export const SavedViews: React.FC<SavedViewsProps> = ({ currentView, onApplyView }) => {
+  const { data: bookmarks = [], isLoading, error } = useBookmarks()
+  const createMutation = useCreateBookmark()
+  const renameMutation = useRenameBookmark()
+  const deleteMutation = useDeleteBookmark()
+
+  const [newName, setNewName] = useState('')
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [editingName, setEditingName] = useState('')
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = newName.trim()
+    if (!name) return
+    createMutation.mutate({ name, view: currentView }, { onSuccess: () => setNewName('') })
+  }
+
+  const startRename = (bookmark: MapBookmark) => {
+    setEditingId(bookmark.id)
+    setEditingName(bookmark.name)
+  }
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = editingName.trim()
+    if (editingId !== null && name) {
+      renameMutation.mutate({ id: editingId, name })
+    }
+    setEditingId(null)
+  }
+
+  const mutationError = createMutation.error || renameMutation.error || deleteMutation.error
+
+  return (
+    <div className="p-4">
+      <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-900 mb-3">
+        <Bookmark className="w-4 h-4" />
+        Saved Views
+      </h3>
+
+      {/* Save current view */}
+      <form onSubmit={handleSave} className="flex gap-2 mb-3">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Name this view"
+          maxLength={80}
+          className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim() || createMutation.isPending}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+          title="Save current view"
+        >
+          {createMutation.isPending ? <Spinner size="sm" color="white" /> : <Plus className="w-4 h-4" />}
+          Save
+        </button>
+      </form>
+
+      {mutationError && (
+        <p className="text-xs text-red-600 mb-2">{mutationError.message}</p>
+      )}
+
+      {/* Saved view list */}
+      {isLoading ? (
+        <div className="flex items-center gap-2 py-2">
+          <Spinner size="sm" color="blue" />
+          <span className="text-sm text-gray-600">Loading saved views...</span>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error.message}</p>
+      ) : bookmarks.length === 0 ? (
+        <p className="text-sm text-gray-500">No saved views yet</p>
+      ) : (
+        <ul className="space-y-1">
+          {bookmarks.map((bookmark) => (
+            <li key={bookmark.id} className="group flex items-center gap-1 rounded-md hover:bg-gray-50">
+              {editingId === bookmark.id ? (
+                <form onSubmit={handleRename} className="flex flex-1 items-center gap-1 p-1">
+                  <input
+                    type="text"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                    maxLength={80}
+                    autoFocus
+                    className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button type="submit" className="p-1 rounded hover:bg-gray-200" title="Save name">
+                    <Check className="w-4 h-4 text-green-600" />
+                  </button>
+                  <button type="button" onClick={() => setEditingId(null)} className="p-1 rounded hover:bg-gray-200" title="Cancel">
+                    <X className="w-4 h-4 text-gray-500" />
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onApplyView(bookmark.view)}
+                    className="flex-1 min-w-0 text-left px-2 py-1.5"
+                    title="Open this view"
+                  >
+                    <p className="text-sm font-medium text-gray-900 truncate">{bookmark.name}</p>
+                    <p className="text-xs text-gray-500 truncate">{describeView(bookmark.view)}</p>
+                  </button>
+                  <button
+                    onClick={() => startRename(bookmark)}
+                    className="p-1.5 rounded opacity-0 group-hover:opacity-100 hover:bg-gray-200 transition-opacity"
+                    title="Rename"
+                  >
+                    <Pencil className="w-3.5 h-3.5 text-gray-600" />
+                  </button>
+                  <button
+                    onClick={() => deleteMutation.mutate(bookmark.id)}
+                    className="p-1.5 rounded opacity-0 group-hover:opacity-100 hover:bg-red-50 transition-opacity"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3.5 h-3.5 text-red-600" />
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import React from 'react'
+import type { ResidualStats } from '../../utils/surge'
+import { formatZonedDateTime, parseApiTimestamp } from '../../utils/timeZone'
+
+interface SurgeSummaryProps {
+  stats: ResidualStats
+  unit: string
+  timeZone?: string // Zone for the max surge time (default UTC)
+}
+
+const formatSigned = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`
+
+// Residual statistics strip (observed minus predicted)
+export const SurgeSummary: React.FC<SurgeSummaryProps> = ({ stats, unit, timeZone = 'UTC' }) => {
+  if (stats.count === 0) {
+    return <p className="text-xs text-gray-500">No overlapping observations and predictions for a residual</p>
+  }
+
+  return (
+    <dl className="grid grid-cols-4 gap-2 text-center">
+      <div>
+        <dt className="text-[10px] uppercase text-gray-500">Max Surge</dt>
+        <dd className="text-sm font-semibold text-gray-900" title={stats.maxSurge ? formatZonedDateTime(parseApiTimestamp(stats.maxSurge.time), timeZone) : undefined}>
+          {stats.maxSurge ? `${formatSigned(stats.maxSurge.value)} ${unit}` : '-'}
+        </dd>
+      </div>
+      <div>
+        <dt className="text-[10px] uppercase text-gray-500">Bias</dt>
+        <dd className="text-sm font-semibold text-gray-900">{stats.bias !== null ? `${formatSigned(stats.bias)} ${unit}` : '-'}</dd>
+      </div>
+      <div>
+        <dt className="text-[10px] uppercase text-gray-500">RMSE</dt>
+        <dd className="text-sm font-semibold text-gray-900">{stats.rmse !== null ? `${stats.rmse.toFixed(2)} ${unit}` : '-'}</dd>
+      </div>
+      <div>
+        <dt className="text-[10px] uppercase text-gray-500">Compared</dt>
+        <dd className="text-sm font-semibold text-gray-900">{stats.count}</dd>
+      </div>
+    </dl>
+  )
+}
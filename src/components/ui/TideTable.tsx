@@ -0,0 +1,59 @@
+import React from 'react'
+import type { TideDay } from '../../utils/tideExtrema'
+
+interface TideTableProps {
+  days: TideDay[]
+  unitLabel: string // e.g. "ft MLLW"
+  timeLabel?: string // Time zone convention of the times, e.g. "LST/LDT"
+}
+
+const formatDay = (date: string) => {
+  // Noon avoids the date shifting across time zones
+  return new Date(`${date}T12:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+// Classic tide table: each day's highs and lows in time order
+export const TideTable: React.FC<TideTableProps> = ({ days, unitLabel, timeLabel }) => {
+  if (days.length === 0) {
+    return (
+      <div className="h-40 flex items-center justify-center bg-gray-50 rounded-lg">
+        <p className="text-gray-600">No high or low tides in the predictions for this range</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border border-gray-200 rounded-lg">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase border-b">Date</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase border-b">Tide</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase border-b">Time{timeLabel ? ` (${timeLabel})` : ''}</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase border-b">Height ({unitLabel})</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {days.map((day, dayIndex) => day.extrema.map((extremum, index) => (
+            <tr key={extremum.time} className={dayIndex % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+              {index === 0 && (
+                <td rowSpan={day.extrema.length} className="px-4 py-3 text-sm font-medium text-gray-900 align-top">
+                  {formatDay(day.date)}
+                </td>
+              )}
+              <td className="px-4 py-3 text-sm">
+                <span className={`inline-flex w-6 justify-center rounded font-semibold ${
+                  extremum.type === 'H' ? 'bg-blue-100 text-blue-700' : 'bg-amber-100 text-amber-700'
+                }`}>
+                  {extremum.type}
+                </span>
+              </td>
+              <td className="px-4 py-3 text-sm text-gray-900">{extremum.time.slice(11)}</td>
+              <td className="px-4 py-3 text-sm text-gray-900">{extremum.value.toFixed(2)}</td>
+            </tr>
+          )))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+import { Play, Pause, SkipBack, SkipForward, Clock } from 'lucide-react'
+import { ANIMATION_SPEEDS, type AnimationSpeed } from '../../hooks/useTimeAnimation'
+import { useTimeZone } from '../../contexts/TimeZoneContext'
+import { formatZonedDateTime, resolveTimeZone } from '../../utils/timeZone'
+
+interface TimeSliderProps {
+  layerName: string
+  values: string[]
+  index: number
+  isPlaying: boolean
+  speed: AnimationSpeed
+  onSeek: (index: number) => void
+  onTogglePlay: () => void
+  onStepBack: () => void
+  onStepForward: () => void
+  onSpeedChange: (speed: AnimationSpeed) => void
+  lng?: number // Map center longitude, for the station time modes
+}
+
+const formatTime = (value: string, zone: string) =>
+  formatZonedDateTime(Date.parse(value), zone, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+export const TimeSlider: React.FC<TimeSliderProps> = ({
+  layerName,
+  values,
+  index,
+  isPlaying,
+  speed,
+  onSeek,
+  onTogglePlay,
+  onStepBack,
+  onStepForward,
+  onSpeedChange,
+  lng,
+}) => {
+  const { mode } = useTimeZone()
+  if (values.length < 2) return null
+
+  // No station here, so station time is estimated from the map's longitude
+  const { zone } = resolveTimeZone(mode, null, lng)
+
+  return (
+    <div
+      className="absolute bottom-6 left-1/2 -translate-x-1/2 z-[1001] w-[560px] max-w-[calc(100%-2rem)] bg-white/95 backdrop-blur-sm rounded-lg shadow-lg px-4 py-3"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      {/* Current time */}
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Clock className="w-4 h-4 text-blue-600 flex-shrink-0" />
+          <span className="text-sm font-semibold text-gray-900">{formatTime(values[index], zone)}</span>
+          <span className="text-xs text-gray-500 truncate">{layerName}</span>
+        </div>
+        <span className="text-xs text-gray-500 flex-shrink-0">
+          {index + 1} / {values.length}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        {/* Playback controls */}
+        <button
+          onClick={onStepBack}
+          disabled={index === 0}
+          className="p-1.5 rounded-md hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Previous time"
+        >
+          <SkipBack className="w-4 h-4 text-gray-700" />
+        </button>
+        <button
+          onClick={onTogglePlay}
+          className="p-2 rounded-full bg-blue-500 hover:bg-blue-600 text-white transition-colors"
+          title={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button
+          onClick={onStepForward}
+          disabled={index === values.length - 1}
+          className="p-1.5 rounded-md hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Next time"
+        >
+          <SkipForward className="w-4 h-4 text-gray-700" />
+        </button>
+
+        {/* Time slider */}
+        <input
+          type="range"
+          min={0}
+          max={values.length - 1}
+          step={1}
+          value={index}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="flex-1 accent-blue-500 cursor-pointer"
+          aria-label="Forecast time"
+        />
+
+        {/* Speed */}
+        <select
+          value={speed}
+          onChange={(e) => onSpeedChange(Number(e.target.value) as AnimationSpeed)}
+          className="px-2 py-1 text-xs border border-gray-300 rounded-md bg-white text-gray-700 cursor-pointer"
+          title="Playback speed"
+        >
+          {ANIMATION_SPEEDS.map((value) => (
+            <option key={value} value={value}>
+              {value}x
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
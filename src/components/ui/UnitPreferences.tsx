@@ -0,0 +1,79 @@
+import React from 'react'
+import { Ruler } from 'lucide-react'
+import { useUnits } from '../../contexts/UnitsContext'
+import { useTimeZone } from '../../contexts/TimeZoneContext'
+import { LENGTH_UNITS, VERTICAL_DATUMS } from '../../utils/units'
+import { TIME_ZONE_MODES } from '../../utils/timeZone'
+
+interface UnitPreferencesProps {
+  compact?: boolean // Inline selectors only (station sheet header)
+}
+
+export const UnitPreferences: React.FC<UnitPreferencesProps> = ({ compact = false }) => {
+  const { unit, datum, setUnit, setDatum } = useUnits()
+  const { mode, setMode } = useTimeZone()
+
+  const controls = (
+    <div className="flex items-center gap-2">
+      {/* Unit Toggle */}
+      <div className="flex border border-gray-300 rounded-md overflow-hidden">
+        {LENGTH_UNITS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => setUnit(option.value)}
+            className={`px-3 py-1.5 text-sm font-medium transition-colors ${
+              unit === option.value
+                ? 'bg-blue-500 text-white'
+                : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+            title={option.label}
+          >
+            {option.value}
+          </button>
+        ))}
+      </div>
+
+      {/* Datum Select */}
+      <select
+        value={datum}
+        onChange={(e) => setDatum(e.target.value as typeof datum)}
+        className="px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        title="Vertical datum"
+      >
+        {VERTICAL_DATUMS.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+
+      {/* Time Zone Select */}
+      <select
+        value={mode}
+        onChange={(e) => setMode(e.target.value as typeof mode)}
+        className="px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        title="Time zone for timestamps"
+      >
+        {TIME_ZONE_MODES.map((option) => (
+          <option key={option.value} value={option.value} title={option.description}>
+            {compact ? option.shortLabel : option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+
+  if (compact) return controls
+
+  return (
+    <div className="p-4">
+      <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-900 mb-3">
+        <Ruler className="w-4 h-4" />
+        Units, Datum & Time Zone
+      </h3>
+      {controls}
+      <p className="mt-2 text-xs text-gray-500">
+        Water levels use the station's datum offsets; depths are converted to the chosen unit.
+        Station times follow NOAA's LST/LDT or LST conventions, or your own zone or GMT.
+      </p>
+    </div>
+  )
+}
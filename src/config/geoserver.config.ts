@@ -0,0 +1,18 @@
+// Local GeoServer when VITE_GEOSERVER_BASE_URL is unset (like API_CONFIG.baseURL)
+const GEOSERVER_WMS_URL: string = import.meta.env.VITE_GEOSERVER_BASE_URL || 'http://localhost:8080/geoserver/wms'
+const WORKSPACE = 'flood-app'
+
+export const GEOSERVER_CONFIG = {
+  // Global WMS endpoint (e.g. https://host/geoserver/wms)
+  wmsURL: GEOSERVER_WMS_URL,
+  workspace: WORKSPACE,
+  // Workspace-scoped WMS endpoint (GetCapabilities, GetFeatureInfo)
+  workspaceWmsURL: `${GEOSERVER_WMS_URL.replace(/\/wms\/?$/, '')}/${WORKSPACE}/wms`,
+} as const
+
+/**
+ * Prefix a layer name with the workspace if it is not already qualified
+ */
+export const qualifyLayerName = (name: string): string => {
+  return name.includes(':') ? name : `${WORKSPACE}:${name}`
+}
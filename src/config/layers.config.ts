@@ -0,0 +1,138 @@
+import { GEOSERVER_CONFIG } from './geoserver.config'
+import type { MapLayer } from '../types/map'
+
+const GEOSERVER_URL = GEOSERVER_CONFIG.wmsURL
+
+/**
+ * Bundled WMS layer catalog
+ * Used until the catalog endpoint responds, and as a fallback when it is unavailable.
+ * The catalog endpoint returns the same shape, so new GeoServer layers can be published there.
+ */
+export const DEFAULT_LAYER_CATALOG: MapLayer[] = [
+  {
+    id: 'water_surface_elevation',
+    name: 'Coastal WSE in 12 hours',
+    description: 'Forecast coastal water surface elevation, 12 hours ahead',
+    type: 'raster',
+    url: GEOSERVER_URL,
+    layers: 'flood-app:rendered_noaa_wse',
+    format: 'image/png',
+    transparent: true,
+    version: '1.3.0',
+    group: 'radio',
+    zIndex: 501,
+    queryable: true,
+    defaultVisible: true,
+    metadata: { category: 'coastal-flood' },
+  },
+  {
+    id: 'water_surface_elevation_second_phase',
+    name: 'Coastal WSE in 24 hours',
+    description: 'Forecast coastal water surface elevation, 24 hours ahead',
+    type: 'raster',
+    url: GEOSERVER_URL,
+    layers: 'flood-app:noaa_wse_second',
+    format: 'image/png',
+    transparent: true,
+    version: '1.3.0',
+    group: 'radio',
+    zIndex: 501,
+    queryable: true,
+    defaultVisible: false,
+    metadata: { category: 'coastal-flood' },
+  },
+  {
+    id: 'raster_geo_point',
+    name: 'NOAA Stations',
+    description: 'NOAA water level prediction stations',
+    type: 'vector',
+    url: GEOSERVER_URL,
+    layers: 'flood-app:NOAA_Pred_Sts_Prj',
+    format: 'image/png',
+    transparent: true,
+    version: '1.3.0',
+    group: 'checkbox',
+    zIndex: 503,
+    queryable: false,
+    defaultVisible: true,
+    metadata: { category: 'stations' },
+  },
+  {
+    id: 'drainage_network',
+    name: 'Drainage Network',
+    description: 'Stormwater drainage network',
+    type: 'vector',
+    url: GEOSERVER_URL,
+    layers: 'flood-app:Drainage_Network',
+    format: 'image/png',
+    transparent: true,
+    version: '1.3.0',
+    group: 'checkbox',
+    zIndex: 504, // Above NOAA Stations (503)
+    queryable: false,
+    defaultVisible: true,
+    metadata: { category: 'infrastructure' },
+  },
+  {
+    id: 'inland_flood_map',
+    name: 'Inland Flood Map',
+    description: 'Inland flood depth',
+    type: 'raster',
+    url: GEOSERVER_URL,
+    layers: 'flood-app:Inland_Flood_Map',
+    format: 'image/png',
+    transparent: true,
+    version: '1.3.0',
+    group: 'checkbox',
+    zIndex: 505, // Above drainage_network (504)
+    queryable: true,
+    defaultVisible: true,
+    metadata: { category: 'inland-flood' },
+  },
+  {
+    id: 'watershades',
+    name: 'Watersheds',
+    description: 'Watershed boundaries',
+    type: 'vector',
+    url: GEOSERVER_URL,
+    layers: 'flood-app:Watersheds',
+    format: 'image/png',
+    transparent: true,
+    version: '1.3.0',
+    group: 'checkbox',
+    zIndex: 506, // Above inland_flood_map (505)
+    queryable: false,
+    defaultVisible: true,
+    metadata: { category: 'hydrology' },
+  },
+  {
+    id: 'norfolk-dem-1',
+    name: 'Norfolk DEM Layer 1',
+    description: 'Digital Elevation Model - Dataset 1',
+    type: 'raster',
+    url: GEOSERVER_URL,
+    layers: 'flood-app:NorflokDEM10m_Prj1',
+    format: 'image/png',
+    transparent: true,
+    version: '1.3.0',
+    zIndex: 502,
+    defaultVisible: true,
+    bounds: [[36.7, -76.5], [37.0, -76.0]],
+    metadata: { category: 'elevation' },
+  },
+  {
+    id: 'norfolk-dem-2',
+    name: 'Norfolk DEM Layer 2',
+    description: 'Digital Elevation Model - Dataset 2',
+    type: 'raster',
+    url: GEOSERVER_URL,
+    layers: 'flood-app:NorflokDEM10m_Prj2',
+    format: 'image/png',
+    transparent: true,
+    version: '1.3.0',
+    zIndex: 501,
+    defaultVisible: true,
+    bounds: [[36.7, -76.5], [37.0, -76.0]],
+    metadata: { category: 'elevation' },
+  },
+]
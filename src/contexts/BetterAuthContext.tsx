@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react'
 import { authClient } from '../lib/auth-client'
 import { fetchCurrentUser } from '../api/user'
-import { API_CONFIG } from '../config/api.config'
+import { loginUser, signupUser } from '../api/auth'
 import type { User } from '../types/auth'
 
 interface BetterAuthContextType {
@@ -60,18 +60,7 @@ export const BetterAuthProvider: React.FC<{ children: ReactNode }> = ({ children
   // Sign in method
   const signIn = async (credentials: { email: string; password: string }) => {
     try {
-      const response = await fetch(`${API_CONFIG.baseURL}/login`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(credentials)
-      })
-
-      if (!response.ok) {
-        const error = await response.json()
-        throw new Error(error.detail || 'Login failed')
-      }
-
-      const data = await response.json()
+      const data = await loginUser(credentials)
       localStorage.setItem('access_token', data.access_token)
 
       // Fetch user data
@@ -87,18 +76,7 @@ export const BetterAuthProvider: React.FC<{ children: ReactNode }> = ({ children
   // Sign up method
   const signUp = async (credentials: { email: string; password: string; full_name: string; phone_number: string }) => {
     try {
-      const response = await fetch(`${API_CONFIG.baseURL}/users`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(credentials)
-      })
-
-      if (!response.ok) {
-        const error = await response.json()
-        throw new Error(error.detail || 'Signup failed')
-      }
-
-      const data = await response.json()
+      const data = await signupUser(credentials)
       localStorage.setItem('access_token', data.access_token)
 
       setUser(data.user)
@@ -0,0 +1,43 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react'
+import { DEFAULT_TIME_ZONE_MODE, normalizeTimeZoneMode, type TimeZoneMode } from '../utils/timeZone'
+
+const STORAGE_KEY = 'time_zone_preference'
+
+interface TimeZoneContextType {
+  mode: TimeZoneMode
+  setMode: (mode: TimeZoneMode) => void
+}
+
+const TimeZoneContext = createContext<TimeZoneContextType | undefined>(undefined)
+
+export const TimeZoneProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [mode, setMode] = useState<TimeZoneMode>(DEFAULT_TIME_ZONE_MODE)
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  // Load the saved preference on mount (localStorage is client-only)
+  useEffect(() => {
+    const saved = normalizeTimeZoneMode(localStorage.getItem(STORAGE_KEY))
+    if (saved) setMode(saved)
+    setIsLoaded(true)
+  }, [])
+
+  useEffect(() => {
+    if (isLoaded) {
+      localStorage.setItem(STORAGE_KEY, mode)
+    }
+  }, [mode, isLoaded])
+
+  return (
+    <TimeZoneContext.Provider value={{ mode, setMode }}>
+      {children}
+    </TimeZoneContext.Provider>
+  )
+}
+
+export const useTimeZone = () => {
+  const context = useContext(TimeZoneContext)
+  if (!context) {
+    throw new Error('useTimeZone must be used within TimeZoneProvider')
+  }
+  return context
+}
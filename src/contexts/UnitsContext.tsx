@@ -0,0 +1,51 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react'
+import type { LengthUnit, VerticalDatum } from '../utils/units'
+
+const STORAGE_KEY = 'unit_preferences'
+
+interface UnitsContextType {
+  unit: LengthUnit
+  datum: VerticalDatum
+  setUnit: (unit: LengthUnit) => void
+  setDatum: (datum: VerticalDatum) => void
+}
+
+const UnitsContext = createContext<UnitsContextType | undefined>(undefined)
+
+export const UnitsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [unit, setUnit] = useState<LengthUnit>('ft')
+  const [datum, setDatum] = useState<VerticalDatum>('MLLW')
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  // Load saved preferences on mount (localStorage is client-only)
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+      if (saved.unit === 'ft' || saved.unit === 'm') setUnit(saved.unit)
+      if (['MLLW', 'MSL', 'NAVD88'].includes(saved.datum)) setDatum(saved.datum)
+    } catch {
+      localStorage.removeItem(STORAGE_KEY)
+    }
+    setIsLoaded(true)
+  }, [])
+
+  useEffect(() => {
+    if (isLoaded) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ unit, datum }))
+    }
+  }, [unit, datum, isLoaded])
+
+  return (
+    <UnitsContext.Provider value={{ unit, datum, setUnit, setDatum }}>
+      {children}
+    </UnitsContext.Provider>
+  )
+}
+
+export const useUnits = () => {
+  const context = useContext(UnitsContext)
+  if (!context) {
+    throw new Error('useUnits must be used within UnitsProvider')
+  }
+  return context
+}
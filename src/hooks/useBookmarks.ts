@@ -0,0 +1,71 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { fetchBookmarks, createBookmark, updateBookmark, deleteBookmark } from '../api/bookmarks'
+import type { MapBookmark, CreateBookmarkRequest } from '../types/bookmarks'
+
+const BOOKMARKS_QUERY_KEY = ['bookmarks']
+
+// Hook to fetch the current user's saved map views
+export function useBookmarks(enabled: boolean = true) {
+  return useQuery<MapBookmark[]>({
+    queryKey: BOOKMARKS_QUERY_KEY,
+    queryFn: fetchBookmarks,
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  })
+}
+
+// Hook to save the current map view
+export function useCreateBookmark() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateBookmarkRequest) => createBookmark(data),
+    onSuccess: (bookmark) => {
+      queryClient.setQueryData<MapBookmark[]>(BOOKMARKS_QUERY_KEY, (prev) => [...(prev ?? []), bookmark])
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: BOOKMARKS_QUERY_KEY }),
+  })
+}
+
+// Hook to rename a saved map view (optimistic, rolled back on error)
+export function useRenameBookmark() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, name }: { id: number; name: string }) => updateBookmark(id, { name }),
+    onMutate: async ({ id, name }) => {
+      await queryClient.cancelQueries({ queryKey: BOOKMARKS_QUERY_KEY })
+      const previous = queryClient.getQueryData<MapBookmark[]>(BOOKMARKS_QUERY_KEY)
+      queryClient.setQueryData<MapBookmark[]>(BOOKMARKS_QUERY_KEY, (prev) =>
+        prev?.map((bookmark) => (bookmark.id === id ? { ...bookmark, name } : bookmark))
+      )
+      return { previous }
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(BOOKMARKS_QUERY_KEY, context?.previous)
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: BOOKMARKS_QUERY_KEY }),
+  })
+}
+
+// Hook to delete a saved map view (optimistic, rolled back on error)
+export function useDeleteBookmark() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: number) => deleteBookmark(id),
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: BOOKMARKS_QUERY_KEY })
+      const previous = queryClient.getQueryData<MapBookmark[]>(BOOKMARKS_QUERY_KEY)
+      queryClient.setQueryData<MapBookmark[]>(BOOKMARKS_QUERY_KEY, (prev) =>
+        prev?.filter((bookmark) => bookmark.id !== id)
+      )
+      return { previous }
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(BOOKMARKS_QUERY_KEY, context?.previous)
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: BOOKMARKS_QUERY_KEY }),
+  })
+}
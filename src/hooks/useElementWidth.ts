@@ -0,0 +1,24 @@
+import { useEffect, useRef, useState } from 'react'
+
+/**
+ * Track an element's content width with a ResizeObserver
+ * Returns `fallback` until the element has been measured (and during SSR).
+ */
+export function useElementWidth<T extends HTMLElement>(fallback: number) {
+  const ref = useRef<T>(null)
+  const [width, setWidth] = useState(fallback)
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element || typeof ResizeObserver === 'undefined') return
+
+    const observer = new ResizeObserver(([entry]) => {
+      const measured = Math.round(entry.contentRect.width)
+      if (measured > 0) setWidth(measured)
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  return { ref, width }
+}
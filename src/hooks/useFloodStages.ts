@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { fetchStationFloodStages } from '../api/datums'
+import type { StationFloodStages } from '../utils/floodStages'
+
+const STORAGE_KEY = 'flood_stages'
+
+const loadOverrides = (): Record<string, StationFloodStages> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+    return stored && typeof stored === 'object' ? stored : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Flood stages for a station: the user's own thresholds if set, otherwise NOAA/NWS stages
+ * Custom thresholds are kept per station in localStorage.
+ */
+export function useFloodStages(stationId: string | null | undefined) {
+  // Null until loaded, so the empty initial state is never written over saved stages
+  const [overrides, setOverrides] = useState<Record<string, StationFloodStages> | null>(null)
+
+  // localStorage is client-only
+  useEffect(() => {
+    setOverrides(loadOverrides())
+  }, [])
+
+  useEffect(() => {
+    if (overrides) localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides))
+  }, [overrides])
+
+  const { data: published, isLoading } = useQuery({
+    queryKey: ['stationFloodStages', stationId],
+    queryFn: ({ signal }) => fetchStationFloodStages(stationId as string, signal),
+    enabled: !!stationId,
+    staleTime: 24 * 60 * 60 * 1000, // 24 hours
+    gcTime: 24 * 60 * 60 * 1000,
+    retry: false, // Many stations have no published flood levels
+  })
+
+  const custom = stationId ? overrides?.[stationId] : undefined
+
+  const updateOverrides = (update: (prev: Record<string, StationFloodStages>) => Record<string, StationFloodStages>) => {
+    setOverrides((prev) => update(prev ?? loadOverrides()))
+  }
+
+  const saveStages = useCallback((stages: StationFloodStages) => {
+    if (!stationId) return
+    updateOverrides((prev) => ({ ...prev, [stationId]: stages }))
+  }, [stationId])
+
+  const resetStages = useCallback(() => {
+    if (!stationId) return
+    updateOverrides(({ [stationId]: _removed, ...rest }) => rest)
+  }, [stationId])
+
+  return {
+    floodStages: custom ?? published ?? null,
+    published: published ?? null,
+    isCustom: !!custom,
+    isLoading,
+    saveStages,
+    resetStages,
+  }
+}
@@ -0,0 +1,75 @@
+import { useMemo } from 'react'
+import { useMapLayers } from './useMapLayers'
+import { DEFAULT_LAYER_CATALOG } from '../config/layers.config'
+import type { MapLayer, WMSLayerConfig } from '../types/map'
+
+export interface LayerRegistry {
+  layers: WMSLayerConfig[] // All WMS overlays, sorted by zIndex
+  radioLayers: WMSLayerConfig[] // Dropdown layers (only one visible at a time)
+  checkboxLayers: WMSLayerConfig[] // Independently toggled layers
+  queryableLayers: WMSLayerConfig[] // Layers included in pen mode depth queries
+  getLayer: (layerId: string) => WMSLayerConfig | undefined
+}
+
+/**
+ * Resolve catalog entries into WMS layer configs
+ * Entries without a WMS layer name (base maps, XYZ tiles) are skipped.
+ */
+export const buildLayerRegistry = (catalog: MapLayer[]): LayerRegistry => {
+  const layers: WMSLayerConfig[] = catalog
+    .filter((layer) => !!layer.layers)
+    .map((layer) => ({
+      id: layer.id,
+      name: layer.name,
+      url: layer.url,
+      layers: layer.layers as string,
+      format: layer.format || 'image/png',
+      transparent: layer.transparent ?? true,
+      version: layer.version || '1.3.0',
+      zIndex: layer.zIndex ?? 500,
+      group: layer.group,
+      queryable: layer.queryable ?? false,
+      defaultVisible: layer.defaultVisible ?? false,
+      category: layer.metadata?.category,
+      bounds: layer.bounds,
+      source: 'catalog' as const,
+    }))
+    .sort((a, b) => a.zIndex - b.zIndex)
+
+  const layersById = new Map(layers.map((layer) => [layer.id, layer]))
+
+  return {
+    layers,
+    radioLayers: layers.filter((layer) => layer.group === 'radio'),
+    checkboxLayers: layers.filter((layer) => layer.group === 'checkbox'),
+    queryableLayers: layers.filter((layer) => layer.group && layer.queryable),
+    getLayer: (layerId) => layersById.get(layerId),
+  }
+}
+
+/**
+ * Build default visibility state for a group of layers
+ * Radio groups keep at most one visible layer (the first one marked defaultVisible).
+ */
+export const getDefaultVisibility = (layers: WMSLayerConfig[], radio = false) => {
+  const visibility: Record<string, boolean> = {}
+  let radioSelected = false
+  for (const layer of layers) {
+    const visible = layer.defaultVisible && !(radio && radioSelected)
+    visibility[layer.id] = visible
+    if (visible) radioSelected = true
+  }
+  return visibility
+}
+
+// Layer registry backed by the catalog endpoint, falling back to the bundled catalog
+export function useLayerRegistry() {
+  const { data, isLoading } = useMapLayers()
+
+  const registry = useMemo(() => {
+    const catalog = data?.success && data.layers.length > 0 ? data.layers : DEFAULT_LAYER_CATALOG
+    return buildLayerRegistry(catalog)
+  }, [data])
+
+  return { ...registry, isLoading }
+}
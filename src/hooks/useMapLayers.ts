@@ -1,5 +1,8 @@
 import { useQuery } from '@tanstack/react-query'
 import type { MapLayersResponse, CompareMapData, StationClickResponse, StationClickParams } from '../types/map'
+import { fetchFeatureInfo, FeatureInfoError } from '../api/featureInfo'
+import { stationClickResponseSchema } from '../api/schemas'
+import { SchemaError } from '../lib/schema'
 
 // Hook to fetch all available map layers
 export function useMapLayers() {
@@ -63,42 +66,34 @@ export function useMapLayer(layerId: string, enabled: boolean = true) {
 export function useStationClick(clickParams: StationClickParams | null, enabled: boolean = true) {
   return useQuery<StationClickResponse>({
     queryKey: ['stationClick', clickParams],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       if (!clickParams) throw new Error('No click parameters provided')
 
-      const url = new URL(`${import.meta.env.VITE_GEOSERVER_BASE_URL.replace('/wms', '')}/flood-app/wms`)
-      url.searchParams.set('SERVICE', 'WMS')
-      url.searchParams.set('VERSION', '1.1.1')
-      url.searchParams.set('REQUEST', 'GetFeatureInfo')
-      url.searchParams.set('FORMAT', 'image/png')
-      url.searchParams.set('TRANSPARENT', 'true')
-      url.searchParams.set('QUERY_LAYERS', clickParams.layers)
-      url.searchParams.set('LAYERS', clickParams.layers)
-      url.searchParams.set('exceptions', 'application/vnd.ogc.se_inimage')
-      url.searchParams.set('INFO_FORMAT', 'application/json')
-      url.searchParams.set('FEATURE_COUNT', '50')
-      url.searchParams.set('X', clickParams.x.toString())
-      url.searchParams.set('Y', clickParams.y.toString())
-      url.searchParams.set('SRS', 'EPSG:4326')
-      url.searchParams.set('WIDTH', clickParams.width.toString())
-      url.searchParams.set('HEIGHT', clickParams.height.toString())
-      url.searchParams.set('BBOX', clickParams.bbox)
-
-      const response = await fetch(url.toString())
-      if (!response.ok) {
-        throw new Error(`GetFeatureInfo request failed: ${response.status}`)
-      }
-
-      const data = await response.json()
+      // Station attributes (time, datum, geometry) need the JSON document, so no format fallback
+      const response = await fetchFeatureInfo({
+        layers: [clickParams.layers],
+        bbox: clickParams.bbox,
+        width: clickParams.width,
+        height: clickParams.height,
+        x: clickParams.x,
+        y: clickParams.y,
+        formats: ['application/json'],
+        signal,
+      })
 
       // Check if we got any features
-      if (!data.features || data.features.length === 0) {
+      if (response.features.length === 0) {
         // Return a special flag instead of throwing to prevent error state
         console.log('ℹ️ No station found at this location')
         throw new Error('NO_STATION_FOUND')
       }
 
-      return data
+      try {
+        return stationClickResponseSchema.parse(response.raw)
+      } catch (error) {
+        if (!(error instanceof SchemaError)) throw error
+        throw new FeatureInfoError('PARSE_ERROR', `Unexpected station response (${error.message})`, { format: 'application/json' })
+      }
     },
     enabled: enabled && !!clickParams,
     staleTime: 0, // Don't cache click results
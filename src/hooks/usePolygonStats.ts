@@ -0,0 +1,125 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import L from 'leaflet'
+import { fetchPointDepth } from '../api/waterDepth'
+import { mapWithConcurrency } from '../utils/concurrency'
+import { samplePolygonGrid, computeDepthStats, isSelfIntersecting, type DepthStats, type PolygonGrid } from '../utils/floodStats'
+import type { ProbeQuery } from './useProbes'
+
+// Parallel GetFeatureInfo requests per polygon (keeps GeoServer responsive)
+const SAMPLE_CONCURRENCY = 4
+
+export interface LayerFloodStats extends DepthStats {
+  layer: string
+}
+
+export interface PolygonStatsState {
+  grid: PolygonGrid | null
+  unit: string
+  completed: number // Samples answered so far
+  failed: number
+  layers: LayerFloodStats[] // One entry per queried layer
+  isLoading: boolean
+  error: string | null
+}
+
+const EMPTY_STATS: PolygonStatsState = {
+  grid: null,
+  unit: 'feet',
+  completed: 0,
+  failed: 0,
+  layers: [],
+  isLoading: false,
+  error: null,
+}
+
+/**
+ * Flood statistics for a polygon, sampled on a grid with GetFeatureInfo
+ * Each grid point is one request for all layers; statistics update as samples arrive.
+ * Starting a new polygon or clearing cancels in-flight requests.
+ */
+export function usePolygonStats() {
+  const [stats, setStats] = useState<PolygonStatsState>(EMPTY_STATS)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort()
+    abortControllerRef.current = null
+  }, [])
+
+  // Cancel in-flight samples on unmount
+  useEffect(() => cancel, [cancel])
+
+  const run = useCallback(async (points: L.LatLng[], query: ProbeQuery) => {
+    cancel()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    // A crossing ring has no well-defined inside to sample
+    if (isSelfIntersecting(points)) {
+      setStats({ ...EMPTY_STATS, error: 'Polygon edges cross; redraw it without crossing lines' })
+      return
+    }
+
+    const grid = samplePolygonGrid(points)
+    // Depths per layer, indexed like grid.points (undefined = pending)
+    const depthsByLayer = new Map(query.layers.map((layer) => [layer, new Array<number | null>(grid.points.length)]))
+    let unit = 'feet'
+    let completed = 0
+    let failed = 0
+
+    const summarize = (): LayerFloodStats[] => query.layers.map((layer) => ({
+      layer,
+      ...computeDepthStats(
+        (depthsByLayer.get(layer) ?? []).filter((depth) => depth !== undefined),
+        grid.cellArea
+      ),
+    }))
+
+    setStats({ ...EMPTY_STATS, grid, layers: summarize(), isLoading: grid.points.length > 0 })
+    if (grid.points.length === 0) return
+
+    try {
+      await mapWithConcurrency(grid.points, SAMPLE_CONCURRENCY, async (point, index) => {
+        try {
+          const result = await fetchPointDepth({ ...query, lat: point.lat, lng: point.lng, signal: controller.signal })
+          for (const { layer, depth } of result.layerDepths) {
+            const depths = depthsByLayer.get(layer)
+            if (depths) depths[index] = depth
+          }
+          if (result.depth !== null) unit = result.unit
+        } catch (error) {
+          if (error instanceof DOMException && error.name === 'AbortError') throw error
+          // Failed samples count as missing data rather than failing the polygon
+          failed++
+          depthsByLayer.forEach((depths) => { depths[index] = null })
+        }
+        // A sample that settles after a redraw or clear must not touch the new run's state
+        if (controller.signal.aborted || abortControllerRef.current !== controller) return
+        completed++
+        setStats((prev) => ({ ...prev, unit, completed, failed, layers: summarize() }))
+      }, controller.signal)
+
+      setStats((prev) => ({
+        ...prev,
+        isLoading: false,
+        error: failed > 0 ? `${failed} of ${grid.points.length} samples failed` : null,
+      }))
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Error sampling polygon:', error)
+        setStats((prev) => ({ ...prev, isLoading: false, error: (error instanceof Error && error.message) || 'Request failed' }))
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+      }
+    }
+  }, [cancel])
+
+  const clear = useCallback(() => {
+    cancel()
+    setStats(EMPTY_STATS)
+  }, [cancel])
+
+  return { stats, run, clear }
+}
@@ -0,0 +1,119 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { fetchPointDepth, type PointDepthParams } from '../api/waterDepth'
+import type { DepthProbe } from '../types/map'
+
+const STORAGE_KEY = 'depth_probes'
+
+// Map resolution, layers and time to query a probe with
+export type ProbeQuery = Omit<PointDepthParams, 'lat' | 'lng' | 'signal'>
+
+const loadProbes = (): DepthProbe[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    // Readings interrupted by a reload can't resume; mark them for re-query
+    return Array.isArray(stored)
+      ? stored.map((probe: DepthProbe) => probe.status === 'loading'
+        ? { ...probe, status: 'error' as const, error: 'Interrupted, re-query to update' }
+        : probe)
+      : []
+  } catch {
+    return []
+  }
+}
+
+// Next free "Point N" label
+const nextLabel = (probes: DepthProbe[]) => {
+  const numbers = probes.map((probe) => Number(/^Point (\d+)$/.exec(probe.label)?.[1] ?? 0))
+  return `Point ${Math.max(0, ...numbers) + 1}`
+}
+
+/**
+ * Depth probe list persisted in localStorage
+ * Each probe has its own request, so re-querying one doesn't cancel the others.
+ */
+export function useProbes() {
+  const [probes, setProbes] = useState<DepthProbe[]>(loadProbes)
+  const controllersRef = useRef(new Map<string, AbortController>())
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(probes))
+  }, [probes])
+
+  // Abort in-flight readings on unmount
+  useEffect(() => {
+    const controllers = controllersRef.current
+    return () => controllers.forEach((controller) => controller.abort())
+  }, [])
+
+  const updateProbe = (id: string, changes: Partial<DepthProbe>) => {
+    setProbes((prev) => prev.map((probe) => (probe.id === id ? { ...probe, ...changes } : probe)))
+  }
+
+  const runQuery = useCallback(async (id: string, lat: number, lng: number, query: ProbeQuery) => {
+    controllersRef.current.get(id)?.abort()
+    const controller = new AbortController()
+    controllersRef.current.set(id, controller)
+
+    updateProbe(id, {
+      status: 'loading',
+      error: undefined,
+      timestamp: new Date().toISOString(),
+      forecastTime: query.time ?? undefined,
+    })
+
+    try {
+      const result = await fetchPointDepth({ ...query, lat, lng, signal: controller.signal })
+      updateProbe(id, { depth: result.depth, unit: result.unit, layer: result.layer, status: 'ready' })
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Error fetching probe depth:', error)
+        updateProbe(id, { status: 'error', error: (error instanceof Error && error.message) || 'Request failed' })
+      }
+    } finally {
+      if (controllersRef.current.get(id) === controller) {
+        controllersRef.current.delete(id)
+      }
+    }
+  }, [])
+
+  const addProbe = useCallback((lat: number, lng: number, query: ProbeQuery) => {
+    const id = crypto.randomUUID()
+    setProbes((prev) => [
+      ...prev,
+      {
+        id,
+        label: nextLabel(prev),
+        lat,
+        lng,
+        layer: null,
+        depth: null,
+        unit: 'feet',
+        timestamp: new Date().toISOString(),
+        status: 'loading',
+      },
+    ])
+    runQuery(id, lat, lng, query)
+  }, [runQuery])
+
+  const requeryProbe = useCallback((probe: DepthProbe, query: ProbeQuery) => {
+    runQuery(probe.id, probe.lat, probe.lng, query)
+  }, [runQuery])
+
+  const renameProbe = useCallback((id: string, label: string) => {
+    updateProbe(id, { label })
+  }, [])
+
+  const removeProbe = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort()
+    controllersRef.current.delete(id)
+    setProbes((prev) => prev.filter((probe) => probe.id !== id))
+  }, [])
+
+  const clearProbes = useCallback(() => {
+    controllersRef.current.forEach((controller) => controller.abort())
+    controllersRef.current.clear()
+    setProbes([])
+  }, [])
+
+  return { probes, addProbe, requeryProbe, renameProbe, removeProbe, clearProbes }
+}
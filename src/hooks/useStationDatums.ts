@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query'
+import { fetchStationDatums } from '../api/datums'
+
+// Datums rarely change, so cache for a day
+export const stationDatumsQueryOptions = (stationId: string | null | undefined) => ({
+  queryKey: ['stationDatums', stationId],
+  queryFn: ({ signal }: { signal: AbortSignal }) => fetchStationDatums(stationId as string, signal),
+  enabled: !!stationId,
+  staleTime: 24 * 60 * 60 * 1000, // 24 hours
+  gcTime: 24 * 60 * 60 * 1000,
+  retry: false, // Non-NOAA stations have no datums; fall back to record offsets
+})
+
+// Hook to fetch datum offsets for a NOAA station
+export function useStationDatums(stationId: string | null | undefined) {
+  return useQuery(stationDatumsQueryOptions(stationId))
+}
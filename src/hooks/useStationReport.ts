@@ -0,0 +1,112 @@
+import { useState, useCallback, useMemo } from 'react'
+import { API_CONFIG } from '../config/api.config'
+import { useWaterLevelDisplay } from './useWaterLevelDisplay'
+import { useStationDatums } from './useStationDatums'
+import { useFloodStages } from './useFloodStages'
+import { FLOOD_STAGE_LEVELS, summarizeExceedance, type FloodStageValues } from '../utils/floodStages'
+import { summarizeStation } from '../utils/stationCompare'
+import { alignWaterLevels, computeResidualStats } from '../utils/surge'
+import { findTideExtrema, groupTidesByDay } from '../utils/tideExtrema'
+import { convertLength } from '../utils/units'
+import { formatZonedDateTime, parseApiTimestamp, type ResolvedTimeZone } from '../utils/timeZone'
+import { downloadTextFile } from '../utils/dataExport'
+import { buildStationReportHtml, openReportWindow, renderReportChart } from '../utils/stationReport'
+import type { WaterLevelPrediction, WaterLevelObservation } from '../types/map'
+
+interface StationReportInput {
+  stationId: string
+  stationName: string
+  lat: number
+  lng: number
+  range: { start: string; end: string }
+  timeZone: ResolvedTimeZone
+  predictions: WaterLevelPrediction[]
+  observations: WaterLevelObservation[]
+  retrievedAt: string | null // When the water level data was fetched
+}
+
+/**
+ * Build a printable station report from the data shown in the station sheet
+ * Opens the report in a new window (print to PDF from there); if popups are
+ * blocked the HTML is downloaded instead.
+ */
+export function useStationReport(input: StationReportInput) {
+  const { stationId, stationName, lat, lng, range, timeZone, predictions, observations, retrievedAt } = input
+  const { valueOf, levelOf, unit, datum } = useWaterLevelDisplay(stationId, predictions, observations)
+  const { data: stationDatums } = useStationDatums(stationId)
+  const { floodStages, isCustom } = useFloodStages(stationId)
+  const [isGenerating, setIsGenerating] = useState(false)
+
+  const stages = useMemo(() => {
+    const values: FloodStageValues = {}
+    if (!floodStages) return values
+    for (const stage of FLOOD_STAGE_LEVELS) {
+      const feet = floodStages.stages[stage.value]
+      const value = feet !== undefined ? levelOf(feet, floodStages.datum) : null
+      if (value !== null) values[stage.value] = value
+    }
+    return values
+  }, [floodStages, levelOf])
+
+  const generateReport = useCallback(async () => {
+    setIsGenerating(true)
+    try {
+      const toPoints = (records: Array<WaterLevelPrediction | WaterLevelObservation>) => records
+        .map((record) => ({ x: parseApiTimestamp(record.t), y: valueOf(record) }))
+        .sort((a, b) => a.x - b.x)
+      const observedPoints = toPoints(observations)
+
+      const chartImage = await renderReportChart([
+        { name: 'Observations', color: '#B4E50D', data: observedPoints },
+        { name: 'NOAA Predictions', color: '#36A2EB', data: toPoints(predictions) },
+      ].filter((series) => series.data.length > 0), stages, unit, datum, timeZone)
+
+      const html = buildStationReportHtml({
+        stationId,
+        stationName,
+        lat,
+        lng,
+        range,
+        timeZone,
+        unit,
+        datum,
+        chartImage,
+        summary: summarizeStation({ predictions, observations }, { valueOf }),
+        residual: computeResidualStats(alignWaterLevels(predictions, observations, valueOf)),
+        stages,
+        exceedance: observedPoints.length > 0
+          ? summarizeExceedance(observedPoints.map((point) => ({ t: point.x, v: point.y })), stages)
+          : null,
+        tideDays: groupTidesByDay(findTideExtrema(predictions, {
+          getValue: valueOf,
+          minAmplitude: convertLength(0.1, 'ft', unit),
+          timeZone: timeZone.zone,
+        })),
+        provenance: [
+          { label: 'Water levels', value: `NOAA CO-OPS observations and predictions via ${API_CONFIG.baseURL}/noaa/water-level/download-all` },
+          { label: 'Retrieved', value: retrievedAt ? formatZonedDateTime(Date.parse(retrievedAt), timeZone.zone) : 'Unknown' },
+          {
+            label: 'Time zone',
+            value: `${timeZone.label} (${timeZone.zone}${timeZone.isEstimated ? ', estimated from longitude' : ''}); data requested in GMT`,
+          },
+          {
+            label: 'Datum conversion',
+            value: stationDatums && Object.keys(stationDatums).length > 0
+              ? 'NOAA CO-OPS published station datums'
+              : 'Offsets implied by the records (v / v_navd)',
+          },
+          { label: 'Flood stages', value: floodStages ? (isCustom ? 'User-defined thresholds' : 'NOAA/NWS published flood levels') : 'None available' },
+          { label: 'Records', value: `${observations.length} observations, ${predictions.length} predictions` },
+        ],
+      })
+
+      if (!openReportWindow(html)) {
+        downloadTextFile(html, `station_${stationId}_report_${range.start}_to_${range.end}.html`, 'text/html;charset=utf-8;')
+      }
+    } finally {
+      setIsGenerating(false)
+    }
+  }, [stationId, stationName, lat, lng, range, timeZone, predictions, observations, retrievedAt, valueOf, unit, datum, stages, stationDatums, floodStages, isCustom])
+
+  return { generateReport, isGenerating }
+}
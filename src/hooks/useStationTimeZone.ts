@@ -0,0 +1,33 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { fetchStationTimeZone } from '../api/datums'
+import { useTimeZone } from '../contexts/TimeZoneContext'
+import { resolveTimeZone, type ResolvedTimeZone } from '../utils/timeZone'
+
+// Station time zones don't change, so cache for a day
+export const stationTimeZoneQueryOptions = (stationId: string | null | undefined) => ({
+  queryKey: ['stationTimeZone', stationId],
+  queryFn: ({ signal }: { signal: AbortSignal }) => fetchStationTimeZone(stationId as string, signal),
+  enabled: !!stationId,
+  staleTime: 24 * 60 * 60 * 1000, // 24 hours
+  gcTime: 24 * 60 * 60 * 1000,
+  retry: false, // Non-NOAA stations have no metadata; fall back to a longitude estimate
+})
+
+/**
+ * Zone to show a station's timestamps in, following the user's preference
+ * Station modes use NOAA metadata, or the station longitude until it loads.
+ */
+export function useStationTimeZone(stationId: string | null | undefined, lng?: number): ResolvedTimeZone {
+  const { mode } = useTimeZone()
+  const usesStation = mode === 'lst' || mode === 'lst_ldt'
+  const { data: stationTimeZone } = useQuery({
+    ...stationTimeZoneQueryOptions(stationId),
+    enabled: !!stationId && usesStation,
+  })
+
+  return useMemo(
+    () => resolveTimeZone(mode, stationTimeZone, lng),
+    [mode, stationTimeZone, lng]
+  )
+}
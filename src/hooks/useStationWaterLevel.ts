@@ -0,0 +1,90 @@
+import { useCallback } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { fetchStationsWaterLevelRange } from '../api/stations'
+import { useTimeZone } from '../contexts/TimeZoneContext'
+import { stationTimeZoneQueryOptions } from './useStationTimeZone'
+import { getTodayValue, type DateRange } from '../utils/dateRange'
+import { resolveTimeZone } from '../utils/timeZone'
+import type { WaterLevelObservation, WaterLevelPrediction, WaterLevelResponse } from '../types/map'
+
+// Stable empty values so charts and tables don't recompute while loading
+const NO_PREDICTIONS: WaterLevelPrediction[] = []
+const NO_OBSERVATIONS: WaterLevelObservation[] = []
+
+/**
+ * How long fetched water levels stay fresh
+ * Ranges reaching today still gain observations (NOAA posts every 6 minutes);
+ * past ranges only change when preliminary data is verified.
+ */
+const getWaterLevelStaleTime = (range: DateRange, timeZone?: string): number => {
+  return range.end >= getTodayValue(new Date(), timeZone)
+    ? 6 * 60 * 1000 // 6 minutes
+    : 60 * 60 * 1000 // 1 hour
+}
+
+// Cached per station set, range and zone (the zone decides the local-day window)
+export const stationsWaterLevelQueryOptions = (stationIds: string[], range: DateRange, timeZone?: string) => ({
+  queryKey: ['stationsWaterLevel', stationIds, range.start, range.end, timeZone ?? null],
+  queryFn: ({ signal }: { signal: AbortSignal }) => fetchStationsWaterLevelRange(stationIds, range, signal, timeZone),
+  enabled: stationIds.length > 0 && !!range.start && !!range.end,
+  staleTime: getWaterLevelStaleTime(range, timeZone),
+  gcTime: 30 * 60 * 1000, // 30 minutes
+})
+
+export const stationWaterLevelQueryOptions = (stationId: string | null | undefined, range: DateRange, timeZone?: string) => ({
+  ...stationsWaterLevelQueryOptions(stationId ? [stationId] : [], range, timeZone),
+  queryKey: ['stationWaterLevel', stationId, range.start, range.end, timeZone ?? null],
+})
+
+/**
+ * Predictions and observations of one station over a date range
+ * Switching back to a range already fetched is served from the cache.
+ */
+export function useStationWaterLevel(
+  stationId: string | null | undefined,
+  range: DateRange,
+  timeZone?: string,
+  options: { enabled?: boolean } = {}
+) {
+  const query = useQuery({
+    ...stationWaterLevelQueryOptions(stationId, range, timeZone),
+    enabled: !!stationId && !!range.start && !!range.end && options.enabled !== false,
+  })
+
+  const stationData = stationId ? query.data?.saved_files[stationId] : undefined
+  return {
+    predictions: stationData?.predictions ?? NO_PREDICTIONS,
+    observations: stationData?.observations ?? NO_OBSERVATIONS,
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: query.refetch,
+    // When the shown data was fetched (ISO), for report provenance
+    retrievedAt: query.dataUpdatedAt ? new Date(query.dataUpdatedAt).toISOString() : null,
+  }
+}
+
+/**
+ * Several stations in one batched request (comparison overlay)
+ */
+export function useStationsWaterLevel(stationIds: string[], range: DateRange, timeZone?: string) {
+  return useQuery<WaterLevelResponse>(stationsWaterLevelQueryOptions(stationIds, range, timeZone))
+}
+
+/**
+ * Warm the cache for a station before it is opened (e.g. on marker hover)
+ * Resolves the station's display zone first so the prefetched key matches the
+ * one the opened view asks for.
+ */
+export function usePrefetchStationWaterLevel() {
+  const queryClient = useQueryClient()
+  const { mode } = useTimeZone()
+
+  return useCallback(async (stationId: string, getRange: (timeZone: string) => DateRange, lng?: number) => {
+    const usesStation = mode === 'lst' || mode === 'lst_ldt'
+    const stationTimeZone = usesStation
+      ? await queryClient.fetchQuery(stationTimeZoneQueryOptions(stationId)).catch(() => undefined)
+      : undefined
+    const { zone } = resolveTimeZone(mode, stationTimeZone, lng)
+    await queryClient.prefetchQuery(stationWaterLevelQueryOptions(stationId, getRange(zone), zone))
+  }, [queryClient, mode])
+}
@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react'
+
+// Playback speeds in frames per second
+export const ANIMATION_SPEEDS = [0.5, 1, 2, 4] as const
+
+export type AnimationSpeed = (typeof ANIMATION_SPEEDS)[number]
+
+/**
+ * Pick the starting frame: the server default if listed, otherwise the latest time not in the future
+ */
+const getInitialIndex = (values: string[], defaultValue?: string) => {
+  if (values.length === 0) return 0
+  if (defaultValue) {
+    const defaultMs = Date.parse(defaultValue)
+    const defaultIndex = values.findIndex((value) => Date.parse(value) === defaultMs)
+    if (defaultIndex !== -1) return defaultIndex
+  }
+
+  const now = Date.now()
+  let index = 0
+  values.forEach((value, i) => {
+    if (Date.parse(value) <= now) index = i
+  })
+  return index
+}
+
+// Hook to step through WMS time dimension values with play/pause controls
+export function useTimeAnimation(values: string[], defaultValue?: string) {
+  const [index, setIndex] = useState(() => getInitialIndex(values, defaultValue))
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState<AnimationSpeed>(1)
+
+  // Reset when the available times change (e.g. a different layer was selected)
+  useEffect(() => {
+    setIndex(getInitialIndex(values, defaultValue))
+    setIsPlaying(false)
+  }, [values, defaultValue])
+
+  // Advance one frame per tick, looping back to the start
+  useEffect(() => {
+    if (!isPlaying || values.length < 2) return
+
+    const interval = setInterval(() => {
+      setIndex((prev) => (prev + 1) % values.length)
+    }, 1000 / speed)
+
+    return () => clearInterval(interval)
+  }, [isPlaying, speed, values.length])
+
+  const stepForward = useCallback(() => {
+    setIsPlaying(false)
+    setIndex((prev) => Math.min(prev + 1, values.length - 1))
+  }, [values.length])
+
+  const stepBack = useCallback(() => {
+    setIsPlaying(false)
+    setIndex((prev) => Math.max(prev - 1, 0))
+  }, [])
+
+  const seek = useCallback((nextIndex: number) => {
+    setIsPlaying(false)
+    setIndex(Math.min(Math.max(nextIndex, 0), Math.max(values.length - 1, 0)))
+  }, [values.length])
+
+  const togglePlay = useCallback(() => setIsPlaying((prev) => !prev), [])
+
+  return {
+    index,
+    time: values[index] ?? null,
+    isPlaying,
+    speed,
+    setSpeed,
+    togglePlay,
+    stepForward,
+    stepBack,
+    seek,
+  }
+}
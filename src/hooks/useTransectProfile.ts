@@ -0,0 +1,100 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import L from 'leaflet'
+import { fetchPointDepth } from '../api/waterDepth'
+import { mapWithConcurrency } from '../utils/concurrency'
+import { sampleTransect } from '../utils/transect'
+import type { ProbeQuery } from './useProbes'
+
+// Parallel GetFeatureInfo requests per profile (keeps GeoServer responsive)
+const SAMPLE_CONCURRENCY = 4
+
+export interface TransectSample {
+  lat: number
+  lng: number
+  distance: number // Meters from the start of the line
+  depth: number | null // null = NoData or failed request
+}
+
+export interface TransectProfile {
+  samples: TransectSample[]
+  unit: string
+  completed: number // Samples answered so far
+  isLoading: boolean
+  error: string | null
+}
+
+const EMPTY_PROFILE: TransectProfile = { samples: [], unit: 'feet', completed: 0, isLoading: false, error: null }
+
+/**
+ * Depth-vs-distance profile along a polyline, sampled with GetFeatureInfo
+ * Samples fill in as they arrive; starting a new profile cancels the previous one.
+ */
+export function useTransectProfile() {
+  const [profile, setProfile] = useState<TransectProfile>(EMPTY_PROFILE)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort()
+    abortControllerRef.current = null
+  }, [])
+
+  // Cancel in-flight samples on unmount
+  useEffect(() => cancel, [cancel])
+
+  const run = useCallback(async (points: L.LatLng[], query: ProbeQuery) => {
+    cancel()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    const samplePoints = sampleTransect(points)
+    setProfile({
+      samples: samplePoints.map((point) => ({ ...point, depth: null })),
+      unit: 'feet',
+      completed: 0,
+      isLoading: true,
+      error: null,
+    })
+
+    let failed = 0
+    try {
+      await mapWithConcurrency(samplePoints, SAMPLE_CONCURRENCY, async (point, index) => {
+        try {
+          const result = await fetchPointDepth({ ...query, lat: point.lat, lng: point.lng, signal: controller.signal })
+          setProfile((prev) => ({
+            ...prev,
+            unit: result.depth !== null ? result.unit : prev.unit,
+            completed: prev.completed + 1,
+            samples: prev.samples.map((sample, i) => (i === index ? { ...sample, depth: result.depth } : sample)),
+          }))
+        } catch (error) {
+          if (error instanceof DOMException && error.name === 'AbortError') throw error
+          // A failed sample leaves a gap in the profile instead of failing the whole line
+          failed++
+          setProfile((prev) => ({ ...prev, completed: prev.completed + 1 }))
+        }
+      }, controller.signal)
+
+      setProfile((prev) => ({
+        ...prev,
+        isLoading: false,
+        error: failed > 0 ? `${failed} of ${samplePoints.length} samples failed` : null,
+      }))
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Error sampling transect:', error)
+        setProfile((prev) => ({ ...prev, isLoading: false, error: (error instanceof Error && error.message) || 'Request failed' }))
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+      }
+    }
+  }, [cancel])
+
+  const clear = useCallback(() => {
+    cancel()
+    setProfile(EMPTY_PROFILE)
+  }, [cancel])
+
+  return { profile, run, clear }
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react'
+
+/**
+ * Window of fixed-height rows to render inside a scrolling container
+ * Rows outside the viewport (plus `overscan`) are replaced by top and bottom
+ * padding, so long tables keep a small DOM. `containerRef` is a callback ref,
+ * so the container can mount after the hook (e.g. when switching views).
+ */
+export function useVirtualRows<T extends HTMLElement>(count: number, rowHeight: number, overscan = 10) {
+  const [container, containerRef] = useState<T | null>(null)
+  const [scrollTop, setScrollTop] = useState(0)
+  const [viewportHeight, setViewportHeight] = useState(600)
+
+  useEffect(() => {
+    if (!container) return
+
+    let frame = 0
+    const handleScroll = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(() => setScrollTop(container.scrollTop))
+    }
+    const observer = typeof ResizeObserver !== 'undefined'
+      ? new ResizeObserver(([entry]) => setViewportHeight(entry.contentRect.height))
+      : null
+
+    container.addEventListener('scroll', handleScroll, { passive: true })
+    observer?.observe(container)
+    return () => {
+      cancelAnimationFrame(frame)
+      container.removeEventListener('scroll', handleScroll)
+      observer?.disconnect()
+    }
+  }, [container])
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan)
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan)
+
+  return {
+    containerRef,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, (count - end) * rowHeight),
+  }
+}
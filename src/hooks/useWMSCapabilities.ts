@@ -0,0 +1,30 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { fetchWMSCapabilities } from '../api/wms'
+import type { WMSCapabilities, WMSCapabilityLayer } from '../types/wms'
+
+// Hook to fetch GetCapabilities for the GeoServer workspace
+export function useWMSCapabilities(enabled: boolean = true) {
+  return useQuery<WMSCapabilities>({
+    queryKey: ['wmsCapabilities'],
+    queryFn: ({ signal }) => fetchWMSCapabilities(signal),
+    enabled,
+    staleTime: 30 * 60 * 1000, // 30 minutes - published layers rarely change
+    gcTime: 60 * 60 * 1000, // 1 hour
+  })
+}
+
+// Capability layers indexed by workspace-qualified layer name
+export function useCapabilityLayers() {
+  const query = useWMSCapabilities()
+
+  const layersByName = useMemo(() => {
+    const map = new Map<string, WMSCapabilityLayer>()
+    for (const layer of query.data?.layers ?? []) {
+      map.set(layer.name, layer)
+    }
+    return map
+  }, [query.data])
+
+  return { ...query, layersByName }
+}
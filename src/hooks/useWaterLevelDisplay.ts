@@ -0,0 +1,65 @@
+import { useMemo } from 'react'
+import { useQueries } from '@tanstack/react-query'
+import { useUnits } from '../contexts/UnitsContext'
+import { useStationDatums, stationDatumsQueryOptions } from './useStationDatums'
+import { createWaterLevelConverter, deriveDatumOffsets, type DatumOffsets } from '../utils/units'
+import type { WaterLevelPrediction, WaterLevelObservation, StationWaterLevelData } from '../types/map'
+
+// Published station datums, or offsets implied by the records' `v`/`v_navd` pairs
+const resolveOffsets = (
+  stationDatums: DatumOffsets | undefined,
+  predictions: WaterLevelPrediction[],
+  observations: WaterLevelObservation[]
+): DatumOffsets => {
+  if (stationDatums && Object.keys(stationDatums).length > 0) return stationDatums
+  return deriveDatumOffsets([...predictions, ...observations])
+}
+
+/**
+ * Convert station water levels to the preferred unit and datum
+ * Offsets come from the station's published datums; when those are unavailable
+ * the records' own `v`/`v_navd` pairs relate their datum to NAVD88. If the preferred
+ * datum still can't be reached, values stay in the records' datum (`datum` says which).
+ */
+export function useWaterLevelDisplay(
+  stationId: string | null | undefined,
+  predictions: WaterLevelPrediction[],
+  observations: WaterLevelObservation[]
+) {
+  const { unit, datum: preferredDatum } = useUnits()
+  const { data: stationDatums } = useStationDatums(stationId)
+
+  const converter = useMemo(() => createWaterLevelConverter(
+    resolveOffsets(stationDatums, predictions, observations),
+    predictions[0] ?? observations[0],
+    unit,
+    preferredDatum
+  ), [stationDatums, predictions, observations, unit, preferredDatum])
+
+  return { ...converter, unit, preferredDatum }
+}
+
+/**
+ * Same conversion for several stations at once, keyed by station ID
+ */
+export function useStationsWaterLevelDisplay(stations: Record<string, StationWaterLevelData>) {
+  const { unit, datum: preferredDatum } = useUnits()
+  const stationIds = Object.keys(stations)
+  const datumQueries = useQueries({
+    queries: stationIds.map((stationId) => stationDatumsQueryOptions(stationId)),
+  })
+  const datumsKey = datumQueries.map((query) => query.dataUpdatedAt).join(',')
+
+  const converters = useMemo(() => Object.fromEntries(stationIds.map((stationId, index) => {
+    const { predictions = [], observations = [] } = stations[stationId]
+    return [stationId, createWaterLevelConverter(
+      resolveOffsets(datumQueries[index]?.data, predictions, observations),
+      predictions[0] ?? observations[0],
+      unit,
+      preferredDatum
+    )]
+  // datumsKey tracks query results; the query array itself is new every render
+  })), [stations, datumsKey, unit, preferredDatum])
+
+  return { converters, unit, preferredDatum }
+}
@@ -4,35 +4,152 @@
  */
 
 import { API_CONFIG } from '../config/api.config'
+import { SchemaError, type Schema } from './schema'
 
-interface FetchOptions extends RequestInit {
+export type ApiErrorCode =
+  | 'HTTP_ERROR' // Non-2xx response
+  | 'UNAUTHORIZED' // 401: missing, expired or rejected credentials
+  | 'VALIDATION_ERROR' // 422 from FastAPI, or the request schema rejected the body; see fieldErrors
+  | 'TIMEOUT' // No response within the timeout
+  | 'NETWORK_ERROR' // Request never reached the server
+  | 'PARSE_ERROR' // Body isn't JSON
+  | 'SCHEMA_ERROR' // JSON doesn't match the response schema
+
+/**
+ * Typed API failure
+ * Aborted requests are not wrapped; they still reject with the fetch AbortError.
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode
+  readonly status?: number
+  readonly detail?: string // Server's explanation (FastAPI `detail`), if any
+  readonly fieldErrors: Record<string, string> // Messages by request field name
+
+  constructor(
+    code: ApiErrorCode,
+    message: string,
+    options: { status?: number; detail?: string; fieldErrors?: Record<string, string> } = {}
+  ) {
+    super(message)
+    this.name = 'ApiError'
+    this.code = code
+    this.status = options.status
+    this.detail = options.detail
+    this.fieldErrors = options.fieldErrors ?? {}
+  }
+}
+
+interface FetchOptions<T = unknown> extends RequestInit {
   skipAuth?: boolean
+  timeout?: number // Milliseconds (default: API_CONFIG.timeout)
+  schema?: Schema<T> // Response body is checked against it
+}
+
+interface BodyOptions<T, B> extends FetchOptions<T> {
+  requestSchema?: Schema<B> // Body is checked against it before sending
+}
+
+// FastAPI validation error item
+interface ValidationIssue {
+  loc?: Array<string | number>
+  msg?: string
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const isValidationIssue = (value: unknown): value is ValidationIssue => {
+  return isRecord(value) && (value.loc === undefined || Array.isArray(value.loc))
+}
+
+// Request parts FastAPI puts in front of the field name in `loc`
+const LOCATION_PREFIXES = new Set(['body', 'query', 'path', 'header', 'cookie'])
+
+/**
+ * Map FastAPI 422 issues to one message per form field
+ * The field is the last named `loc` entry (["body", "email"] -> "email");
+ * issues about the whole body land under "_".
+ */
+export const parseValidationIssues = (issues: unknown[]): Record<string, string> => {
+  const fieldErrors: Record<string, string> = {}
+  for (const issue of issues.filter(isValidationIssue)) {
+    const path = (issue.loc ?? []).filter((part) => !LOCATION_PREFIXES.has(String(part)))
+    const field = [...path].reverse().find((part): part is string => typeof part === 'string') ?? '_'
+    // Pydantic v2 prefixes custom validator messages
+    const message = (typeof issue.msg === 'string' ? issue.msg : 'Invalid value').replace(/^Value error, /, '')
+    fieldErrors[field] ??= message.charAt(0).toUpperCase() + message.slice(1)
+  }
+  return fieldErrors
+}
+
+/**
+ * Messages from an API error for the given form fields
+ * Anything that isn't an ApiError, or names no such field, gives an empty object.
+ */
+export const getFieldErrors = <K extends string>(error: unknown, fields: readonly K[]): Partial<Record<K, string>> => {
+  if (!(error instanceof ApiError)) return {}
+  const result: Partial<Record<K, string>> = {}
+  for (const field of fields) {
+    if (error.fieldErrors[field]) result[field] = error.fieldErrors[field]
+  }
+  return result
+}
+
+// Build the typed error for a non-2xx response from its body
+const toApiError = (response: Response, body: unknown): ApiError => {
+  const status = response.status
+  const detail = isRecord(body) ? body.detail : undefined
+
+  if (status === 422 && Array.isArray(detail)) {
+    const fieldErrors = parseValidationIssues(detail)
+    const message = Object.entries(fieldErrors)
+      .map(([field, text]) => (field === '_' ? text : `${field.replace(/_/g, ' ')}: ${text}`))
+      .join('; ')
+    return new ApiError('VALIDATION_ERROR', message || 'Request validation failed', { status, fieldErrors })
+  }
+
+  const text = typeof detail === 'string'
+    ? detail
+    : isRecord(detail) && typeof detail.message === 'string' ? detail.message : undefined
+  const message = text || `HTTP ${status}: ${response.statusText || 'Request failed'}`
+  return new ApiError(status === 401 ? 'UNAUTHORIZED' : 'HTTP_ERROR', message, { status, detail: text })
 }
 
 /**
  * Enhanced fetch wrapper with automatic authorization headers
+ * Requests time out after API_CONFIG.timeout; with a `schema` the response is
+ * validated before it is returned. Failures reject with ApiError.
  *
  * @example
- * const data = await apiFetch('/me')
+ * const user = await apiFetch('/me', { schema: userSchema })
  * const result = await apiFetch('/users', { method: 'POST', body: JSON.stringify(data) })
  */
-export const apiFetch = async <T = any>(
+export const apiFetch = async <T = unknown>(
   endpoint: string,
-  options: FetchOptions = {}
+  options: FetchOptions<T> = {}
 ): Promise<T> => {
-  const { skipAuth = false, headers: customHeaders, ...restOptions } = options
+  const {
+    skipAuth = false,
+    timeout = API_CONFIG.timeout,
+    schema,
+    signal,
+    headers: customHeaders,
+    ...restOptions
+  } = options
 
   // Get token from localStorage (managed by Better Auth)
-  const token = localStorage.getItem('access_token')
+  const token = skipAuth ? null : localStorage.getItem('access_token')
 
-  // Build headers
+  // Build headers (Content-Type only with a body: on GETs it would force a
+  // CORS preflight on third-party APIs)
   const headers: Record<string, string> = {
-    ...API_CONFIG.headers,
+    ...(restOptions.body !== undefined ? API_CONFIG.headers : {}),
     ...(customHeaders as Record<string, string>),
   }
 
   // Add authorization header if token exists and not skipped
-  if (token && !skipAuth) {
+  if (token) {
     headers['Authorization'] = `Bearer ${token}`
   }
 
@@ -41,40 +158,83 @@ export const apiFetch = async <T = any>(
     ? endpoint
     : `${API_CONFIG.baseURL}${endpoint}`
 
-  try {
-    const response = await fetch(url, {
-      ...restOptions,
-      headers,
-    })
+  // Abort on the caller's signal or the timeout, whichever comes first
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeout)
+  const abortFromCaller = () => controller.abort()
+  if (signal?.aborted) controller.abort()
+  signal?.addEventListener('abort', abortFromCaller)
 
-    // Handle 401 Unauthorized - token expired or invalid
-    if (response.status === 401) {
-      // Clear invalid token
-      localStorage.removeItem('access_token')
-      localStorage.removeItem('user')
+  try {
+    let response: Response
+    try {
+      response = await fetch(url, {
+        ...restOptions,
+        headers,
+        signal: controller.signal,
+      })
+    } catch (error) {
+      if ((error as Error).name === 'AbortError' && !timedOut) throw error
+      if (timedOut) throw new ApiError('TIMEOUT', `Request timed out after ${Math.round(timeout / 1000)} s`)
+      throw new ApiError('NETWORK_ERROR', 'Could not reach the server')
+    }
 
-      // Redirect to login (or let Better Auth handle it)
-      window.location.href = '/login'
-      throw new Error('Unauthorized - please login again')
+    const text = await response.text()
+    let body: unknown
+    try {
+      body = text ? JSON.parse(text) : undefined
+    } catch {
+      if (!response.ok) throw toApiError(response, undefined)
+      throw new ApiError('PARSE_ERROR', 'Invalid JSON response', { status: response.status })
     }
 
-    // Handle other HTTP errors
     if (!response.ok) {
-      const error = await response.json().catch(() => ({
-        detail: `HTTP ${response.status}: ${response.statusText}`
-      }))
-      throw new Error(error.detail || 'Request failed')
+      // Token expired or invalid: clear the session and send the user to login
+      if (response.status === 401 && token) {
+        localStorage.removeItem('access_token')
+        localStorage.removeItem('user')
+        window.location.href = '/login'
+      }
+      throw toApiError(response, body)
     }
 
-    // Parse JSON response
-    const data = await response.json()
-    return data as T
-
+    if (!schema) return body as T
+    try {
+      return schema.parse(body)
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error
+      console.error(`Unexpected response from ${endpoint}:`, error.message)
+      throw new ApiError('SCHEMA_ERROR', `Unexpected response from server (${error.message})`, { status: response.status })
+    }
   } catch (error) {
-    if (error instanceof Error) {
-      throw error
+    // Reading the body can also be cut off by the timeout
+    if (timedOut && !(error instanceof ApiError)) {
+      throw new ApiError('TIMEOUT', `Request timed out after ${Math.round(timeout / 1000)} s`)
     }
-    throw new Error('An unexpected error occurred')
+    throw error
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', abortFromCaller)
+  }
+}
+
+/**
+ * JSON request body, checked against `requestSchema` first
+ * A rejected body fails like a 422, with the message under the field's name.
+ */
+const toRequestBody = <B>(body: B, requestSchema?: Schema<B>): string => {
+  if (!requestSchema) return JSON.stringify(body)
+  try {
+    return JSON.stringify(requestSchema.parse(body))
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error
+    const field = error.path.split(/[.[]/).filter((part) => part && !part.endsWith(']')).pop() ?? '_'
+    const message = error.reason.charAt(0).toUpperCase() + error.reason.slice(1)
+    throw new ApiError('VALIDATION_ERROR', error.message, { fieldErrors: { [field]: message } })
   }
 }
 
@@ -82,23 +242,27 @@ export const apiFetch = async <T = any>(
  * API client methods for common HTTP operations
  */
 export const api = {
-  get: <T = any>(endpoint: string, options?: FetchOptions) =>
+  get: <T = unknown>(endpoint: string, options?: FetchOptions<T>) =>
     apiFetch<T>(endpoint, { ...options, method: 'GET' }),
 
-  post: <T = any>(endpoint: string, body: any, options?: FetchOptions) =>
-    apiFetch<T>(endpoint, {
-      ...options,
+  post: <T = unknown, B = unknown>(endpoint: string, body: B, options: BodyOptions<T, B> = {}) => {
+    const { requestSchema, ...rest } = options
+    return apiFetch<T>(endpoint, {
+      ...rest,
       method: 'POST',
-      body: JSON.stringify(body),
-    }),
+      body: toRequestBody(body, requestSchema),
+    })
+  },
 
-  put: <T = any>(endpoint: string, body: any, options?: FetchOptions) =>
-    apiFetch<T>(endpoint, {
-      ...options,
+  put: <T = unknown, B = unknown>(endpoint: string, body: B, options: BodyOptions<T, B> = {}) => {
+    const { requestSchema, ...rest } = options
+    return apiFetch<T>(endpoint, {
+      ...rest,
       method: 'PUT',
-      body: JSON.stringify(body),
-    }),
+      body: toRequestBody(body, requestSchema),
+    })
+  },
 
-  delete: <T = any>(endpoint: string, options?: FetchOptions) =>
+  delete: <T = unknown>(endpoint: string, options?: FetchOptions<T>) =>
     apiFetch<T>(endpoint, { ...options, method: 'DELETE' }),
 }
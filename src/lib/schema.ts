@@ -0,0 +1,132 @@
+/**
+ * Runtime schemas for API payloads
+ * Small composable validators: each checks an unknown value and returns it
+ * typed, or throws a SchemaError naming the offending path.
+ */
+
+export interface Schema<T> {
+  parse: (value: unknown, path?: string) => T
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+/**
+ * Value doesn't match its schema
+ */
+export class SchemaError extends Error {
+  readonly path: string // Dotted path to the value ("user.email", "items[2]")
+  readonly reason: string // What is wrong, without the path
+
+  constructor(path: string, reason: string) {
+    super(`${path || 'value'}: ${reason}`)
+    this.name = 'SchemaError'
+    this.path = path
+    this.reason = reason
+  }
+}
+
+const typeError = (path: string, expected: string, value: unknown) => {
+  const received = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value
+  return new SchemaError(path, `expected ${expected}, received ${received}`)
+}
+
+const primitive = <T>(expected: string, check: (value: unknown) => boolean): Schema<T> => ({
+  parse: (value, path = '') => {
+    if (!check(value)) throw typeError(path, expected, value)
+    return value as T
+  },
+})
+
+export const string = (): Schema<string> => primitive('string', (value) => typeof value === 'string')
+
+export const number = (): Schema<number> => primitive('number', (value) => typeof value === 'number' && Number.isFinite(value))
+
+export const boolean = (): Schema<boolean> => primitive('boolean', (value) => typeof value === 'boolean')
+
+// Anything, unchecked (nested data the client passes through untouched)
+export const unknown = (): Schema<unknown> => ({ parse: (value) => value })
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  parse: (value, path) => (value === null ? null : schema.parse(value, path)),
+})
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  parse: (value, path) => (value === undefined ? undefined : schema.parse(value, path)),
+})
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  parse: (value, path = '') => {
+    if (!Array.isArray(value)) throw typeError(path, 'array', value)
+    return value.map((entry, index) => item.parse(entry, `${path}[${index}]`))
+  },
+})
+
+/**
+ * Fixed-length array with one schema per position (e.g. a [lat, lng] pair)
+ */
+export const tuple = <T extends unknown[]>(...items: { [K in keyof T]: Schema<T[K]> }): Schema<T> => ({
+  parse: (value, path = '') => {
+    if (!Array.isArray(value)) throw typeError(path, 'array', value)
+    if (value.length !== items.length) {
+      throw new SchemaError(path, `expected ${items.length} items, received ${value.length}`)
+    }
+    return items.map((item, index) => item.parse(value[index], `${path}[${index}]`)) as T
+  },
+})
+
+/**
+ * One of a fixed set of strings
+ */
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+  parse: (value, path = '') => {
+    if (!values.includes(value as T)) {
+      throw new SchemaError(path, `expected one of ${values.join(', ')}, received ${JSON.stringify(value)}`)
+    }
+    return value as T
+  },
+})
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Object with known fields; unknown fields are kept as-is
+ */
+export const object = <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => ({
+  parse: (value, path = '') => {
+    if (!isObject(value)) throw typeError(path, 'object', value)
+    const result: Record<string, unknown> = { ...value }
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      result[key] = shape[key].parse(value[key], path ? `${path}.${key}` : key)
+    }
+    return result as T
+  },
+})
+
+/**
+ * Object used as a map (e.g. results keyed by station ID)
+ */
+export const record = <T>(item: Schema<T>): Schema<Record<string, T>> => ({
+  parse: (value, path = '') => {
+    if (!isObject(value)) throw typeError(path, 'object', value)
+    const result: Record<string, T> = {}
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = item.parse(entry, path ? `${path}.${key}` : key)
+    }
+    return result
+  },
+})
+
+/**
+ * Extra check on a parsed value (e.g. an email format); `check` returns the
+ * problem, or null when the value is fine
+ */
+export const refine = <T>(schema: Schema<T>, check: (value: T) => string | null | undefined): Schema<T> => ({
+  parse: (value, path = '') => {
+    const parsed = schema.parse(value, path)
+    const problem = check(parsed)
+    if (problem) throw new SchemaError(path, problem)
+    return parsed
+  },
+})
@@ -1,4 +1,6 @@
 import { http, HttpResponse } from 'msw';
+import { DEFAULT_LAYER_CATALOG } from '../config/layers.config';
+import { API_CONFIG } from '../config/api.config';
 
 // Generate realistic tide data
 const generateTideData = (stationId, days = 7) => {
@@ -48,6 +50,19 @@ const stations = [
   { id: 'VA015', name: 'Southside Station', lat: 36.8123456, lng: -76.2987654, value: 0.67 }
 ];
 
+// Saved map views (in-memory, reset on reload)
+const BOOKMARKS_URL = `${API_CONFIG.baseURL}/users/me/bookmarks`;
+let nextBookmarkId = 2;
+let bookmarks = [
+  {
+    id: 1,
+    name: 'Downtown Norfolk',
+    view: { lat: 36.8468, lng: -76.2852, zoom: 14, base: 'satellite', layer: 'water_surface_elevation', overlays: ['raster_geo_point'] },
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString()
+  }
+];
+
 export const handlers = [
   // Get all stations
   http.get('/api/stations', () => {
@@ -147,48 +162,8 @@ export const handlers = [
           tags: ['topography', 'elevation', 'terrain']
         }
       },
-      {
-        id: 'norfolk-dem-1',
-        name: 'Norfolk DEM Layer 1',
-        description: 'Digital Elevation Model - Dataset 1',
-        type: 'raster',
-        url: import.meta.env.VITE_GEOSERVER_BASE_URL,
-        layers: 'flood-app:NorflokDEM10m_Prj1',
-        format: 'image/png',
-        transparent: true,
-        version: '1.3.0',
-        attribution: '© Norfolk GeoServer',
-        maxZoom: 18,
-        minZoom: 8,
-        opacity: 0.8,
-        bounds: [[36.7, -76.5], [37.0, -76.0]],
-        metadata: {
-          source: 'Norfolk Municipal',
-          category: 'elevation',
-          tags: ['dem', 'elevation', 'norfolk', 'flooding']
-        }
-      },
-      {
-        id: 'norfolk-dem-2',
-        name: 'Norfolk DEM Layer 2',
-        description: 'Digital Elevation Model - Dataset 2',
-        type: 'raster',
-        url: import.meta.env.VITE_GEOSERVER_BASE_URL,
-        layers: 'flood-app:NorflokDEM10m_Prj2',
-        format: 'image/png',
-        transparent: true,
-        version: '1.3.0',
-        attribution: '© Norfolk GeoServer',
-        maxZoom: 18,
-        minZoom: 8,
-        opacity: 0.8,
-        bounds: [[36.7, -76.5], [37.0, -76.0]],
-        metadata: {
-          source: 'Norfolk Municipal',
-          category: 'elevation',
-          tags: ['dem', 'elevation', 'norfolk', 'flooding']
-        }
-      }
+      // WMS overlays (layer catalog)
+      ...DEFAULT_LAYER_CATALOG
     ];
 
     return HttpResponse.json({
@@ -239,5 +214,53 @@ export const handlers = [
         }));
       }, 500 + Math.random() * 800); // 500-1300ms delay
     });
+  }),
+
+  // List saved map views
+  http.get(BOOKMARKS_URL, () => {
+    return HttpResponse.json(bookmarks);
+  }),
+
+  // Save a map view
+  http.post(BOOKMARKS_URL, async ({ request }) => {
+    const { name, view } = await request.json();
+    if (!name || !name.trim() || !view) {
+      return HttpResponse.json({ detail: 'Name and view are required' }, { status: 400 });
+    }
+
+    const now = new Date().toISOString();
+    const bookmark = { id: nextBookmarkId++, name: name.trim(), view, created_at: now, updated_at: now };
+    bookmarks = [...bookmarks, bookmark];
+    return HttpResponse.json(bookmark, { status: 201 });
+  }),
+
+  // Rename or update a saved map view
+  http.put(`${BOOKMARKS_URL}/:id`, async ({ params, request }) => {
+    const id = Number(params.id);
+    const existing = bookmarks.find(bookmark => bookmark.id === id);
+    if (!existing) {
+      return HttpResponse.json({ detail: 'Bookmark not found' }, { status: 404 });
+    }
+
+    const { name, view } = await request.json();
+    const updated = {
+      ...existing,
+      name: name?.trim() || existing.name,
+      view: view ?? existing.view,
+      updated_at: new Date().toISOString()
+    };
+    bookmarks = bookmarks.map(bookmark => bookmark.id === id ? updated : bookmark);
+    return HttpResponse.json(updated);
+  }),
+
+  // Delete a saved map view
+  http.delete(`${BOOKMARKS_URL}/:id`, ({ params }) => {
+    const id = Number(params.id);
+    if (!bookmarks.some(bookmark => bookmark.id === id)) {
+      return HttpResponse.json({ detail: 'Bookmark not found' }, { status: 404 });
+    }
+
+    bookmarks = bookmarks.filter(bookmark => bookmark.id !== id);
+    return HttpResponse.json({ success: true });
   })
 ];
\ No newline at end of file
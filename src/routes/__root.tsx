@@ -14,6 +14,8 @@ import { NotFound } from '~/components/NotFound'
 import appCss from '~/styles/app.css?url'
 import { seo } from '~/utils/seo'
 import { BetterAuthProvider } from '~/contexts/BetterAuthContext'
+import { UnitsProvider } from '~/contexts/UnitsContext'
+import { TimeZoneProvider } from '~/contexts/TimeZoneContext'
 
 export const Route = createRootRouteWithContext<{
   queryClient: QueryClient
@@ -83,7 +85,11 @@ function RootDocument({ children }: { children: React.ReactNode }) {
       </head>
       <body>
         <BetterAuthProvider>
-            {children}
+          <UnitsProvider>
+            <TimeZoneProvider>
+              {children}
+            </TimeZoneProvider>
+          </UnitsProvider>
         </BetterAuthProvider>
         <TanStackRouterDevtools position="bottom-right" />
         <Scripts />
@@ -1,12 +1,26 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { ClientOnly } from '@tanstack/react-router'
-import { MapContainer, TileLayer, WMSTileLayer, useMapEvents, Marker, Popup, ZoomControl } from 'react-leaflet'
-import { Layers, X, Download, Table, Pen, LineChart, Menu } from 'lucide-react'
+import { MapContainer, TileLayer, WMSTileLayer, useMapEvents, Marker, Popup, Tooltip, Polyline, Polygon, ZoomControl } from 'react-leaflet'
+import { Layers, X, Table, Pen, LineChart, Menu, Search, MapPin, Ruler, Hexagon, Waves, FileText } from 'lucide-react'
 import { useStationClick } from '../hooks/useMapLayers'
-import type { StationClickParams, StationClickResponse, WaterLevelPrediction, WaterLevelObservation } from '../types/map'
-import { fetchStationWaterLevel } from '../api/stations'
+import { useLayerRegistry, getDefaultVisibility } from '../hooks/useLayerRegistry'
+import { useCapabilityLayers } from '../hooks/useWMSCapabilities'
+import { useTimeAnimation } from '../hooks/useTimeAnimation'
+import { useProbes } from '../hooks/useProbes'
+import { useWaterLevelDisplay } from '../hooks/useWaterLevelDisplay'
+import { useStationReport } from '../hooks/useStationReport'
+import { useStationTimeZone } from '../hooks/useStationTimeZone'
+import { useStationWaterLevel } from '../hooks/useStationWaterLevel'
+import { useVirtualRows } from '../hooks/useVirtualRows'
+import { useTransectProfile } from '../hooks/useTransectProfile'
+import { usePolygonStats } from '../hooks/usePolygonStats'
+import type { BaseLayerType, DepthProbe, StationClickParams, StationClickResponse, WMSLayerConfig, LayerDisplaySettings } from '../types/map'
+import type { WMSBoundingBox, WMSCapabilityLayer, WMSStyle } from '../types/wms'
+import { fetchPointDepth } from '../api/waterDepth'
 import { WaterLevelChart } from '../components/WaterLevelChart'
+import { TransectProfileChart } from '../components/TransectProfileChart'
+import { FloodStatsPanel } from '../components/FloodStatsPanel'
 import { ComparisonButton } from '../components/ui/ComparisonButton'
 import { ComparisonModal } from '../components/ui/ComparisonModal'
 import { CompareMap } from '../components/ui/CompareMap'
@@ -18,11 +32,36 @@ import { Drawer } from '../components/ui/Drawer'
 import { DrawerContent } from '../components/ui/DrawerContent'
 import { LoadingScreen } from '../components/ui/LoadingScreen'
 import { Spinner } from '../components/ui/Spinner'
+import { LayerBrowser } from '../components/ui/LayerBrowser'
+import { TimeSlider } from '../components/ui/TimeSlider'
+import { LegendPanel, type LegendEntry } from '../components/ui/LegendPanel'
+import { ActiveLayerList } from '../components/ui/ActiveLayerList'
+import { ProbeList } from '../components/ui/ProbeList'
+import { UnitPreferences } from '../components/ui/UnitPreferences'
+import { SurgeSummary } from '../components/ui/SurgeSummary'
+import { TideTable } from '../components/ui/TideTable'
+import { QualityBadges } from '../components/ui/QualityBadges'
+import { CompletenessSummary } from '../components/ui/CompletenessSummary'
+import { DateRangePicker } from '../components/ui/DateRangePicker'
+import { ExportMenu } from '../components/ui/ExportMenu'
 import { useBetterAuth } from '../contexts/BetterAuthContext'
+import { useUnits } from '../contexts/UnitsContext'
+import { GEOSERVER_CONFIG } from '../config/geoserver.config'
+import type { BookmarkView } from '../types/bookmarks'
+import { validateMapSearch, serializeMapSearch, roundCoordinate, type MapSearch } from '../utils/mapSearch'
+import { convertLength, formatLength } from '../utils/units'
+import { alignWaterLevels, computeResidualStats } from '../utils/surge'
+import { findTideExtrema, groupTidesByDay } from '../utils/tideExtrema'
+import { getPresetRange, toApiDateRange, type DateRange } from '../utils/dateRange'
+import { computeCompleteness, OBSERVATION_LATENCY_MS } from '../utils/gaps'
+import { formatZonedDateTime, formatZonedTimestamp, parseApiTimestamp } from '../utils/timeZone'
+import { decodeQuality } from '../utils/qualityFlags'
+import { exportDataset, type ExportFormat } from '../utils/dataExport'
+import { buildStationDataset, STATION_EXPORT_COLUMNS, DEFAULT_STATION_EXPORT_COLUMNS, type StationExportColumn } from '../utils/stationExport'
 import L from 'leaflet'
 
 // Layer types configuration (full opacity like current index.tsx)
-type LayerType = 'default' | 'satellite' | 'terrain'
+type LayerType = BaseLayerType
 
 interface LayerConfig {
   name: string
@@ -58,106 +97,201 @@ const LAYER_TYPES: Record<LayerType, LayerConfig> = {
 }
 
 export const Route = createFileRoute('/')({
+  validateSearch: validateMapSearch,
   component: HomePage,
 })
-// Toggleable layers (appear in LayerController)
-const TOGGLEABLE_WMS_LAYERS = [
-  {
-    id: 'water_surface_elevation',
-    name: 'Coastal WSE in 12 hours',
-    url: import.meta.env.VITE_GEOSERVER_BASE_URL,
-    layers: 'flood-app:rendered_noaa_wse',
-    format: 'image/png',
-    transparent: true,
-    version: '1.3.0',
-    zIndex: 501,
-  },
-  {
-    id: 'water_surface_elevation_second_phase',
-    name: 'Coastal WSE in 24 hours',
-    url: import.meta.env.VITE_GEOSERVER_BASE_URL,
-    layers: 'flood-app:noaa_wse_second',
-    format: 'image/png',
-    transparent: true,
-    version: '1.3.0',
-    zIndex: 501,
+
+// Default center: Norfolk/Moyock area, Virginia (matches GeoServer data location)
+const DEFAULT_CENTER: [number, number] = [36.8443205, -76.2820786]
+const DEFAULT_ZOOM = 12
+
+/**
+ * Build GetFeatureInfo parameters for the station layer at a map position
+ */
+const buildStationClickParams = (map: L.Map, latlng: L.LatLngExpression): StationClickParams => {
+  const size = map.getSize()
+  const bounds = map.getBounds()
+
+  // Convert click coordinates to pixel coordinates
+  const containerPoint = map.latLngToContainerPoint(latlng)
+
+  return {
+    x: Math.round(containerPoint.x),
+    y: Math.round(containerPoint.y),
+    width: size.x,
+    height: size.y,
+    bbox: `${bounds.getWest()},${bounds.getSouth()},${bounds.getEast()},${bounds.getNorth()}`,
+    layers: 'flood-app:NOAA_Pred_Sts_Prj'
   }
-] as const
-
-// Geo Station Point layer (toggleable via checkbox in LayerController)
-const PERMANENT_LAYER = {
-  id: 'raster_geo_point',
-  name: 'NOAA Stations',
-  url: import.meta.env.VITE_GEOSERVER_BASE_URL,
-  layers: 'flood-app:NOAA_Pred_Sts_Prj', // flood-app:noaa_predictions
-  format: 'image/png',
-  transparent: true,
-  version: '1.3.0',
-  zIndex: 503,
-} as const
-
-const TOGGLEABLE_CHECKBOX_WMS_LAYERS = [
-  {
-    id: 'drainage_network',
-    name: 'Drainage Network',
-    url: import.meta.env.VITE_GEOSERVER_BASE_URL,
-    layers: 'flood-app:Drainage_Network',
-    format: 'image/png',
-    transparent: true,
-    version: '1.3.0',
-    zIndex: 504, // Above PERMANENT_LAYER (503)
-  },
-  {
-    id: 'inland_flood_map',
-    name: 'Inland Flood Map',
-    url: import.meta.env.VITE_GEOSERVER_BASE_URL,
-    layers: 'flood-app:Inland_Flood_Map',
-    format: 'image/png',
-    transparent: true,
-    version: '1.3.0',
-    zIndex: 505, // Above drainage_network (504)
-  },
-  {
-    id: 'watershades',
-    name: 'Watersheds',
-    url: import.meta.env.VITE_GEOSERVER_BASE_URL,
-    layers: 'flood-app:Watersheds',
-    format: 'image/png',
-    transparent: true,
-    version: '1.3.0',
-    zIndex: 506, // Above inland_flood_map (505)
-  },
-] as const
+}
 
-// Queryable layers configuration for pen mode depth queries
-const QUERYABLE_LAYERS_CONFIG: Record<string, { geoserverLayer: string; source: 'dropdown' | 'checkbox' }> = {
-  'water_surface_elevation': {
-    geoserverLayer: 'flood-app:rendered_noaa_wse',
-    source: 'dropdown'
-  },
-  'water_surface_elevation_second_phase': {
-    geoserverLayer: 'flood-app:noaa_wse_second',
-    source: 'dropdown'
-  },
-  'inland_flood_map': {
-    geoserverLayer: 'flood-app:Inland_Flood_Map',
-    source: 'checkbox'
+/**
+ * Build GetFeatureInfo parameters for a 101x101 pixel box centered on a position
+ * Used when restoring a station from the URL, where the point may not be under the cursor.
+ */
+const buildStationQueryParams = (map: L.Map, [lat, lng]: [number, number]): StationClickParams => {
+  const size = map.getSize()
+  const bounds = map.getBounds()
+  const halfWidthDeg = 50 * (bounds.getEast() - bounds.getWest()) / size.x
+  const halfHeightDeg = 50 * (bounds.getNorth() - bounds.getSouth()) / size.y
+
+  return {
+    x: 50,
+    y: 50,
+    width: 101,
+    height: 101,
+    bbox: `${lng - halfWidthDeg},${lat - halfHeightDeg},${lng + halfWidthDeg},${lat + halfHeightDeg}`,
+    layers: 'flood-app:NOAA_Pred_Sts_Prj'
+  }
+}
+
+// Map resolution in degrees per pixel (EPSG:4326), used to size point queries
+const getDegreesPerPixel = (map: L.Map) => {
+  const bounds = map.getBounds()
+  const size = map.getSize()
+  return {
+    degPerPixelX: (bounds.getEast() - bounds.getWest()) / size.x,
+    degPerPixelY: (bounds.getNorth() - bounds.getSouth()) / size.y,
   }
 }
 
+// Clicks on floating UI controls shouldn't reach the map tools
+const isClickOnControl = (target: HTMLElement | null | undefined) => {
+  return !!target && !!(
+    target.closest('.layer-controller-prevent-click') ||
+    target.closest('.layer-switcher-prevent-click') ||
+    target.closest('.pen-toggle-prevent-click') ||
+    target.closest('.probe-toggle-prevent-click')
+  )
+}
+
+const DRAW_PATH_OPTIONS = { color: '#f97316', weight: 3 }
+
+/**
+ * Line or polygon drawing for transects and area statistics
+ * Click to add vertices, double-click to finish, Escape to cancel.
+ */
+const ShapeDrawer: React.FC<{
+  shape: 'line' | 'polygon'
+  onComplete: (points: L.LatLng[]) => void
+  onCancel: () => void
+}> = ({ shape, onComplete, onCancel }) => {
+  const minVertices = shape === 'polygon' ? 3 : 2
+  const [points, setPoints] = useState<L.LatLng[]>([])
+  const [cursor, setCursor] = useState<L.LatLng | null>(null)
+
+  const map = useMapEvents({
+    click: (e) => {
+      if (isClickOnControl(e.originalEvent?.target as HTMLElement)) return
+      setPoints((prev) => [...prev, e.latlng])
+    },
+    dblclick: () => {
+      // The double-click's own clicks add duplicate vertices; drop them
+      const vertices = points.filter((point, i) => i === 0 || map.latLngToContainerPoint(point)
+        .distanceTo(map.latLngToContainerPoint(points[i - 1])) > 3)
+      if (vertices.length >= minVertices) {
+        onComplete(vertices)
+        setPoints([])
+      }
+    },
+    mousemove: (e) => setCursor(e.latlng),
+  })
+
+  // Double-click finishes the line instead of zooming while drawing
+  useEffect(() => {
+    map.doubleClickZoom.disable()
+    return () => {
+      map.doubleClickZoom.enable()
+    }
+  }, [map])
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel()
+    }
+    window.addEventListener('keydown', handleEsc)
+    return () => window.removeEventListener('keydown', handleEsc)
+  }, [onCancel])
+
+  if (points.length === 0) return null
+
+  // Rubber band from the last vertex (and back to the first for polygons)
+  const previewPositions = cursor
+    ? shape === 'polygon' && points.length > 1
+      ? [points[points.length - 1], cursor, points[0]]
+      : [points[points.length - 1], cursor]
+    : []
+
+  return (
+    <>
+      {shape === 'polygon' && points.length > 2 ? (
+        <Polygon positions={points} pathOptions={DRAW_PATH_OPTIONS} />
+      ) : (
+        <Polyline positions={points} pathOptions={DRAW_PATH_OPTIONS} />
+      )}
+      {previewPositions.length > 0 && (
+        <Polyline positions={previewPositions} pathOptions={{ ...DRAW_PATH_OPTIONS, weight: 2, dashArray: '6 6' }} />
+      )}
+    </>
+  )
+}
+
+// Reports the map center/zoom after every pan or zoom
+const MapViewTracker: React.FC<{ onViewChange: (lat: number, lng: number, zoom: number) => void }> = ({ onViewChange }) => {
+  const map = useMapEvents({
+    moveend: () => {
+      const center = map.getCenter()
+      onViewChange(center.lat, center.lng, map.getZoom())
+    },
+  })
+  return null
+}
+
 function LayerController({
+  radioLayers,
+  checkboxLayers,
   layerVisibility,
   onLayerToggle,
   checkboxLayerVisibility,
   onCheckboxLayerToggle,
+  layerExtents,
   onZoomToLayer,
+  onRemoveLayer,
+  onBrowseLayers,
+  activeLayers,
+  layerSettings,
+  stylesByLayer,
+  onOpacityChange,
+  onStyleChange,
+  onReorder,
 }: {
+  radioLayers: WMSLayerConfig[]
+  checkboxLayers: WMSLayerConfig[]
   layerVisibility: Record<string, boolean>
   onLayerToggle: (layerId: string) => void
   checkboxLayerVisibility: Record<string, boolean>
   onCheckboxLayerToggle: (layerId: string) => void
-  onZoomToLayer?: (lat: number, lon: number, zoom: number) => void
+  layerExtents: Record<string, WMSBoundingBox> // Keyed by layer id
+  onZoomToLayer?: (bbox: WMSBoundingBox) => void
+  onRemoveLayer?: (layerId: string) => void
+  onBrowseLayers?: () => void
+  activeLayers: WMSLayerConfig[]
+  layerSettings: Record<string, LayerDisplaySettings>
+  stylesByLayer: Record<string, WMSStyle[]>
+  onOpacityChange: (layerId: string, opacity: number) => void
+  onStyleChange: (layerId: string, style: string) => void
+  onReorder: (layerIds: string[]) => void
 }) {
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Disable Leaflet map dragging/zooming while using sliders and drag handles
+  useEffect(() => {
+    if (containerRef.current) {
+      L.DomEvent.disableClickPropagation(containerRef.current)
+      L.DomEvent.disableScrollPropagation(containerRef.current)
+    }
+  }, [])
+
   // Get currently selected layer
   const selectedLayerId = Object.keys(layerVisibility).find(
     (layerId) => layerVisibility[layerId]
@@ -165,7 +299,8 @@ function LayerController({
 
   return (
     <div
-      className="layer-controller-prevent-click absolute bottom-20 left-4 z-[1000] min-w-[220px] flex flex-col gap-3"
+      ref={containerRef}
+      className="layer-controller-prevent-click absolute bottom-20 left-4 z-[1000] min-w-[220px] max-h-[calc(100%-7rem)] overflow-y-auto flex flex-col gap-3"
       onClick={(e) => {
         // Stop click propagation to prevent map click handler from firing
         e.stopPropagation()
@@ -186,7 +321,7 @@ function LayerController({
           className="w-full px-3 py-2.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-700 cursor-pointer shadow-sm"
         >
           <option value="none">No Data</option>
-          {TOGGLEABLE_WMS_LAYERS.map((layer) => (
+          {radioLayers.map((layer) => (
             <option key={layer.id} value={layer.id}>
               {layer.name}
             </option>
@@ -197,55 +332,105 @@ function LayerController({
       {/* Container 2: Checkbox Layers */}
       <div className="bg-white p-4 rounded-md shadow-md">
         <div className="space-y-2">
-          {/* Geo Station Point (PERMANENT_LAYER) */}
-          <label className="flex items-center gap-2 cursor-pointer">
-            <input
-              type="checkbox"
-              checked={checkboxLayerVisibility[PERMANENT_LAYER.id]}
-              onChange={() => onCheckboxLayerToggle(PERMANENT_LAYER.id)}
-              className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 cursor-pointer"
-            />
-            <span className="text-sm text-gray-700">{PERMANENT_LAYER.name}</span>
-          </label>
-
-          {/* Other Checkbox Layers */}
-          {TOGGLEABLE_CHECKBOX_WMS_LAYERS.map((layer) => {
-            // Layer center coordinates (from GetCapabilities)
-            const layerCenters: Record<string, { lat: number; lon: number }> = {
-              'drainage_network': { lat: 21.614, lon: 39.322 },
-              'inland_flood_map': { lat: 21.547, lon: 39.220 },
-              'watershades': { lat: 21.614, lon: 39.322 }, // Assume same as drainage
-            }
-
-            return (
-              <div key={layer.id} className="flex items-center gap-2">
-                <label className="flex items-center gap-2 cursor-pointer flex-1">
-                  <input
-                    type="checkbox"
-                    checked={checkboxLayerVisibility[layer.id]}
-                    onChange={() => onCheckboxLayerToggle(layer.id)}
-                    className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 cursor-pointer"
-                  />
-                  <span className="text-sm text-gray-700">{layer.name}</span>
-                </label>
-                {onZoomToLayer && layerCenters[layer.id] && (
-                  <button
-                    onClick={() => onZoomToLayer(layerCenters[layer.id].lat, layerCenters[layer.id].lon, 12)}
-                    className="text-xs text-blue-600 hover:text-blue-800 px-2 py-1 hover:bg-blue-50 rounded"
-                    title="Zoom to layer"
-                  >
-                    ➜
-                  </button>
-                )}
-              </div>
-            )
-          })}
+          {checkboxLayers.map((layer) => (
+            <div key={layer.id} className="flex items-center gap-2">
+              <label className="flex items-center gap-2 cursor-pointer flex-1">
+                <input
+                  type="checkbox"
+                  checked={!!checkboxLayerVisibility[layer.id]}
+                  onChange={() => onCheckboxLayerToggle(layer.id)}
+                  className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 cursor-pointer"
+                />
+                <span className="text-sm text-gray-700">{layer.name}</span>
+              </label>
+              {onZoomToLayer && layerExtents[layer.id] && (
+                <button
+                  onClick={() => onZoomToLayer(layerExtents[layer.id])}
+                  className="text-xs text-blue-600 hover:text-blue-800 px-2 py-1 hover:bg-blue-50 rounded"
+                  title="Zoom to layer"
+                >
+                  ➜
+                </button>
+              )}
+              {onRemoveLayer && layer.source === 'capabilities' && (
+                <button
+                  onClick={() => onRemoveLayer(layer.id)}
+                  className="text-gray-400 hover:text-red-600 p-1 hover:bg-red-50 rounded"
+                  title="Remove layer"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
         </div>
+
+        {/* Open the GetCapabilities layer browser */}
+        {onBrowseLayers && (
+          <button
+            onClick={onBrowseLayers}
+            className="mt-3 w-full flex items-center justify-center gap-2 px-3 py-1.5 text-xs font-medium text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 transition-colors"
+          >
+            <Search className="w-3.5 h-3.5" />
+            Browse layers
+          </button>
+        )}
       </div>
+
+      {/* Container 3: Opacity, order and style of active layers */}
+      <ActiveLayerList
+        layers={activeLayers}
+        settings={layerSettings}
+        stylesByLayer={stylesByLayer}
+        onOpacityChange={onOpacityChange}
+        onStyleChange={onStyleChange}
+        onReorder={onReorder}
+      />
     </div>
   )
 }
 
+// WMS overlay with display settings applied (opacity, zIndex, STYLES, TIME)
+interface OverlayWMSLayerProps {
+  layer: WMSLayerConfig
+  opacity: number
+  zIndex: number
+  style?: string
+  time?: string | null
+}
+
+const OverlayWMSLayer: React.FC<OverlayWMSLayerProps> = ({ layer, opacity, zIndex, style, time }) => {
+  // Stable params object so tiles are only re-requested when the style or time changes
+  const params = useMemo(() => {
+    const wmsParams: Record<string, string> = { layers: layer.layers, styles: style ?? '' }
+    if (time) {
+      wmsParams.TIME = time
+    }
+    return wmsParams as unknown as L.WMSParams
+  }, [layer.layers, style, time])
+
+  return (
+    <WMSTileLayer
+      url={layer.url}
+      layers={layer.layers}
+      format={layer.format}
+      transparent={layer.transparent}
+      version={layer.version}
+      zIndex={zIndex}
+      opacity={opacity}
+      params={params}
+      // Tile loading optimizations
+      maxZoom={21}
+      maxNativeZoom={21}
+      minZoom={8}
+      updateWhenIdle={true}
+      updateWhenZooming={false}
+      keepBuffer={1}
+      tileSize={256}
+    />
+  )
+}
+
 // Base Layer Switcher Component
 interface LayerSwitcherProps {
   selectedLayer: LayerType
@@ -327,6 +512,74 @@ const PenModeToggle: React.FC<PenModeToggleProps> = ({ isActive, onToggle, disab
   </div>
 )
 
+// Probe Mode Toggle Button Component (multi-point depth probes)
+const ProbeModeToggle: React.FC<PenModeToggleProps> = ({ isActive, onToggle, disabled = false }) => (
+  <div
+    className="probe-toggle-prevent-click absolute top-[364px] right-4 z-[1001]"
+    onClick={(e) => e.stopPropagation()}
+    onMouseDown={(e) => e.stopPropagation()}
+  >
+    <button
+      onClick={disabled ? undefined : onToggle}
+      disabled={disabled}
+      className={`backdrop-blur-sm rounded-lg shadow-lg p-3 transition-all duration-200 ${
+        disabled
+          ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+          : isActive
+          ? 'bg-blue-500 hover:bg-blue-600 text-white'
+          : 'bg-white/95 hover:bg-white text-gray-700'
+      }`}
+      title={
+        disabled
+          ? 'Select a WMS layer to enable probe mode'
+          : isActive
+          ? 'Disable Probe Mode'
+          : 'Enable Probe Mode'
+      }
+    >
+      <MapPin className="w-5 h-5" />
+    </button>
+  </div>
+)
+
+// Drawing Tool Toggle Button Component (transect, polygon; next to the pen mode toggle)
+interface DrawToolToggleProps extends PenModeToggleProps {
+  icon: React.ReactNode
+  label: string
+  positionClassName: string
+}
+
+const DrawToolToggle: React.FC<DrawToolToggleProps> = ({ isActive, onToggle, disabled = false, icon, label, positionClassName }) => (
+  <div
+    className={`pen-toggle-prevent-click absolute ${positionClassName} z-[1001]`}
+    onClick={(e) => e.stopPropagation()}
+    onMouseDown={(e) => e.stopPropagation()}
+  >
+    <button
+      onClick={disabled ? undefined : onToggle}
+      disabled={disabled}
+      className={`backdrop-blur-sm rounded-lg shadow-lg p-3 transition-all duration-200 ${
+        disabled
+          ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+          : isActive
+          ? 'bg-blue-500 hover:bg-blue-600 text-white'
+          : 'bg-white/95 hover:bg-white text-gray-700'
+      }`}
+      title={
+        disabled
+          ? `Select a WMS layer to enable ${label.toLowerCase()}`
+          : isActive
+          ? 'Cancel Drawing (Esc)'
+          : `${label} (double-click to finish)`
+      }
+    >
+      {icon}
+    </button>
+  </div>
+)
+
+// Station table rows have a fixed height so they can be virtualized
+const TABLE_ROW_HEIGHT = 45
 
 // Bottom Sheet Component
 interface StationModalProps {
@@ -341,170 +594,103 @@ const StationModal: React.FC<StationModalProps> = ({ data, isVisible, onClose })
   const station = data.features[0]
   const stationName = station.properties.Station
   const stationId = station.properties.StationID
+  const [stationLng, stationLat] = station.geometry.coordinates
+
+  // Timestamps and date ranges follow the user's time zone preference
+  const timeZone = useStationTimeZone(stationId, stationLng)
+  const { zone } = timeZone
+
+  // Date range state (defaults to yesterday and today, in the display zone)
+  const [dateRange, setDateRange] = useState<DateRange>(() => getPresetRange('yesterdayToday', new Date(), timeZone.zone))
+
+  // Water level chart data (cached per station, range and zone)
+  const {
+    predictions,
+    observations,
+    isLoading: isChartLoading,
+    retrievedAt,
+  } = useStationWaterLevel(stationId, dateRange, zone, { enabled: isVisible })
+
+  // Hide observations with NOAA quality flags set from the table
+  const [hideFlaggedRows, setHideFlaggedRows] = useState(false)
+
+  // View mode state (chart, table or tide table)
+  const [viewMode, setViewMode] = useState<'chart' | 'table' | 'tides'>('chart')
+
+  // Values in the user's unit and datum
+  const { valueOf, unit, datum, preferredDatum, isDatumFallback } = useWaterLevelDisplay(stationId, predictions, observations)
+
+  // Printable station report (chart, tide table, stats and provenance)
+  const { generateReport, isGenerating: isReportGenerating } = useStationReport({
+    stationId,
+    stationName,
+    lat: stationLat,
+    lng: stationLng,
+    range: dateRange,
+    timeZone,
+    predictions,
+    observations,
+    retrievedAt,
+  })
 
-  // Date range state
-  const [selectedDate, setSelectedDate] = useState<string>('')
-  const [dateViewMode, setDateViewMode] = useState<'day' | 'week' | '2week'>('day')
-  const [startDate, setStartDate] = useState<string>('')
-  const [endDate, setEndDate] = useState<string>('')
-
-  // Water level chart data state
-  const [predictions, setPredictions] = useState<WaterLevelPrediction[]>([])
-  const [observations, setObservations] = useState<WaterLevelObservation[]>([])
-  const [isChartLoading, setIsChartLoading] = useState(false)
-  const [chartError, setChartError] = useState<Error | null>(null)
-
-  // View mode state (chart or table)
-  const [viewMode, setViewMode] = useState<'chart' | 'table'>('chart')
-
-  // Download CSV handler
-  const handleDownloadCSV = () => {
+  // Export handler (shared export module: CF-CSV, XLSX or JSON)
+  const handleExport = (format: ExportFormat, columns: StationExportColumn[]) => {
     if (observations.length === 0 && predictions.length === 0) {
       alert('No data available to download')
       return
     }
 
-    // Create CSV header (matching new table structure)
-    const csvHeader = 'Time,NOAA Prediction (ft),Observation (ft)\n'
-
-    // Create CSV rows using tableData structure
-    const csvRows = tableData.map(item => {
-      const predictionValue = typeof item.prediction === 'number' ? item.prediction.toFixed(2) : '-'
-      const observationValue = typeof item.observation === 'number' ? item.observation.toFixed(2) : '-'
-      return `${item.time},${predictionValue},${observationValue}`
-    }).join('\n')
-
-    // Combine header and rows
-    const csvContent = csvHeader + csvRows
-
-    // Create Blob
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
-
-    // Create download link
-    const link = document.createElement('a')
-    const url = URL.createObjectURL(blob)
-
-    // Set filename with station info and date range
-    const filename = `station_${stationId}_${startDate}_to_${endDate}.csv`
-
-    link.setAttribute('href', url)
-    link.setAttribute('download', filename)
-    link.style.visibility = 'hidden'
-
-    // Trigger download
-    document.body.appendChild(link)
-    link.click()
-
-    // Cleanup
-    document.body.removeChild(link)
-    URL.revokeObjectURL(url)
+    exportDataset(buildStationDataset({
+      stationId,
+      stationName,
+      predictions,
+      observations,
+      valueOf,
+      unit,
+      datum,
+      range: dateRange,
+      columns,
+      timeZone,
+    }), format)
   }
 
-  // Auto-select today's date when bottom sheet opens
-  useEffect(() => {
-    if (isVisible && !selectedDate) {
-      const today = new Date().toISOString().split('T')[0]
-      setSelectedDate(today)
-    }
-  }, [isVisible, selectedDate])
-
-  // Fetch water level data when date range changes
-  useEffect(() => {
-    const fetchData = async () => {
-      if (isVisible && stationId && startDate && endDate) {
-        try {
-          setIsChartLoading(true)
-          setChartError(null)
-          console.log('🔄 Fetching water level data:', { stationId, startDate, endDate })
-          const response = await fetchStationWaterLevel(stationId, startDate, endDate)
-          console.log('✅ Water level data received:', response)
-
-          // Extract predictions and observations for the selected station
-          const stationData = response.saved_files[stationId]
-          if (stationData) {
-            setPredictions(stationData.predictions || [])
-            setObservations(stationData.observations || [])
-          } else {
-            setPredictions([])
-            setObservations([])
-          }
-        } catch (error) {
-          console.error('❌ Error fetching water level data:', error)
-          setChartError(error as Error)
-          setPredictions([])
-          setObservations([])
-        } finally {
-          setIsChartLoading(false)
-        }
-      }
-    }
-
-    fetchData()
-  }, [isVisible, stationId, startDate, endDate])
-
-  // Calculate date range based on selected date and view mode
-  useEffect(() => {
-    if (!selectedDate) {
-      setStartDate('')
-      setEndDate('')
-      return
-    }
-
-    const start = new Date(selectedDate)
-    setStartDate(selectedDate)
-
-    const end = new Date(start)
-    switch (dateViewMode) {
-      case 'day':
-        end.setDate(end.getDate() + 1)
-        break
-      case 'week':
-        end.setDate(end.getDate() + 7)
-        break
-      case '2week':
-        end.setDate(end.getDate() + 14)
-        break
-    }
-    setEndDate(end.toISOString().split('T')[0])
-  }, [selectedDate, dateViewMode])
-
-  // Get today's date for max attribute
-  const today = new Date().toISOString().split('T')[0]
-
-  // Create table data with predictions and observations side by side
+  // Create table data with predictions, observations and their residual side by side
+  const observationQuality = useMemo(
+    () => new Map(observations.map((record) => [record.t, { record, quality: decodeQuality(record) }])),
+    [observations]
+  )
+  const flaggedCount = useMemo(
+    () => Array.from(observationQuality.values()).filter(({ quality }) => quality.isSuspect).length,
+    [observationQuality]
+  )
   const tableData = useMemo(() => {
-    // Get all unique timestamps from predictions (primary source)
-    const timestampMap = new Map<string, { time: string; prediction: number | null; observation: number | null }>()
-
-    // Add all predictions
-    predictions.forEach(pred => {
-      timestampMap.set(pred.t, {
-        time: pred.t,
-        prediction: pred.v,
-        observation: null
-      })
-    })
-
-    // Match observations to timestamps
-    observations.forEach(obs => {
-      const existing = timestampMap.get(obs.t)
-      if (existing) {
-        existing.observation = obs.v
-      } else {
-        // If observation timestamp doesn't exist in predictions, add it
-        timestampMap.set(obs.t, {
-          time: obs.t,
-          prediction: null,
-          observation: obs.v
-        })
-      }
-    })
+    const visible = hideFlaggedRows ? observations.filter((record) => !observationQuality.get(record.t)?.quality.isSuspect) : observations
+    return alignWaterLevels(predictions, visible, valueOf)
+  }, [predictions, observations, observationQuality, hideFlaggedRows, valueOf])
+  const residualStats = useMemo(() => computeResidualStats(tableData), [tableData])
+
+  // Only the rows in view are rendered, so month-long 6-minute tables stay light
+  const virtualRows = useVirtualRows<HTMLDivElement>(tableData.length, TABLE_ROW_HEIGHT)
+
+  // Share of expected samples present in the range; observations stop at the latest expected one
+  const completeness = useMemo(() => {
+    const { startMs, endMs } = toApiDateRange(dateRange, zone)
+    const latestExpected = (retrievedAt ? Date.parse(retrievedAt) : Date.now()) - OBSERVATION_LATENCY_MS
+    return {
+      observations: computeCompleteness(
+        observations.map((record) => parseApiTimestamp(record.t)),
+        { start: startMs, end: Math.min(endMs, latestExpected) }
+      ),
+      predictions: computeCompleteness(predictions.map((record) => parseApiTimestamp(record.t)), { start: startMs, end: endMs }),
+    }
+  }, [dateRange, zone, retrievedAt, observations, predictions])
 
-    // Convert to array and sort by time
-    return Array.from(timestampMap.values()).sort((a, b) =>
-      new Date(a.time).getTime() - new Date(b.time).getTime()
-    )
-  }, [predictions, observations])
+  // Daily highs and lows from the predictions (0.1 ft confirms a turn)
+  const tideDays = useMemo(() => groupTidesByDay(findTideExtrema(predictions, {
+    getValue: valueOf,
+    minAmplitude: convertLength(0.1, 'ft', unit),
+    timeZone: zone,
+  })), [predictions, valueOf, unit, zone])
 
   return (
     <div className={`fixed bottom-0 left-0 right-0 z-[2000] h-1/2 transition-transform duration-300 ease-in-out ${
@@ -526,75 +712,24 @@ const StationModal: React.FC<StationModalProps> = ({ data, isVisible, onClose })
 
           {/* Middle: Date Range Controls */}
           <div className="flex items-center gap-3 flex-1 justify-center">
-            {/* Selectable Date Picker */}
-            <input
-              type="date"
-              value={selectedDate}
-              onChange={(e) => setSelectedDate(e.target.value)}
-              min="2010-01-01"
-              max={today}
-              className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-
-            {/* View Mode Buttons */}
-            <div className="flex gap-1 border border-gray-300 rounded-md overflow-hidden">
-              <button
-                onClick={() => setDateViewMode('day')}
-                className={`px-4 py-1.5 text-sm font-medium transition-colors ${
-                  dateViewMode === 'day'
-                    ? 'bg-blue-500 text-white'
-                    : 'bg-white text-gray-700 hover:bg-gray-50'
-                }`}
-              >
-                Day
-              </button>
-              <button
-                onClick={() => setDateViewMode('week')}
-                className={`px-4 py-1.5 text-sm font-medium border-x border-gray-300 transition-colors ${
-                  dateViewMode === 'week'
-                    ? 'bg-blue-500 text-white'
-                    : 'bg-white text-gray-700 hover:bg-gray-50'
-                }`}
-              >
-                Week
-              </button>
-              <button
-                onClick={() => setDateViewMode('2week')}
-                className={`px-4 py-1.5 text-sm font-medium transition-colors ${
-                  dateViewMode === '2week'
-                    ? 'bg-blue-500 text-white'
-                    : 'bg-white text-gray-700 hover:bg-gray-50'
-                }`}
-              >
-                2 Week
-              </button>
-            </div>
-
-            {/* Read-only Date Range Display */}
-            <input
-              type="date"
-              value={startDate}
-              readOnly
-              className="px-3 py-1.5 text-sm border border-gray-300 rounded-md bg-gray-50 text-gray-600 cursor-not-allowed"
-              placeholder="Start Date"
-            />
-            <input
-              type="date"
-              value={endDate}
-              readOnly
-              className="px-3 py-1.5 text-sm border border-gray-300 rounded-md bg-gray-50 text-gray-600 cursor-not-allowed"
-              placeholder="End Date"
-            />
+            <DateRangePicker value={dateRange} onChange={setDateRange} timeZone={zone} />
           </div>
 
           {/* Right: Action Buttons */}
           <div className="flex items-center gap-2 flex-shrink-0">
+            <UnitPreferences compact />
+            <ExportMenu
+              onExport={handleExport}
+              columns={STATION_EXPORT_COLUMNS}
+              defaultColumns={DEFAULT_STATION_EXPORT_COLUMNS}
+            />
             <button
-              onClick={handleDownloadCSV}
-              className="p-2 rounded-md border border-gray-300 hover:bg-gray-50 transition-colors"
-              title="Download CSV"
+              onClick={generateReport}
+              disabled={isReportGenerating || isChartLoading || (observations.length === 0 && predictions.length === 0)}
+              className="p-2 rounded-md border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-40"
+              title="Station Report (print or save as PDF)"
             >
-              <Download className="w-4 h-4 text-gray-700" />
+              {isReportGenerating ? <Spinner size="sm" color="blue" /> : <FileText className="w-4 h-4 text-gray-700" />}
             </button>
             <button
               onClick={() => setViewMode(viewMode === 'chart' ? 'table' : 'chart')}
@@ -607,6 +742,15 @@ const StationModal: React.FC<StationModalProps> = ({ data, isVisible, onClose })
                 <LineChart className="w-4 h-4 text-gray-700" />
               )}
             </button>
+            <button
+              onClick={() => setViewMode(viewMode === 'tides' ? 'chart' : 'tides')}
+              className={`p-2 rounded-md border border-gray-300 transition-colors ${
+                viewMode === 'tides' ? 'bg-blue-500 text-white' : 'hover:bg-gray-50 text-gray-700'
+              }`}
+              title={viewMode === 'tides' ? 'Show Chart View' : 'Show Tide Table'}
+            >
+              <Waves className="w-4 h-4" />
+            </button>
             <button
               onClick={onClose}
               className="p-2 rounded-md hover:bg-gray-100 transition-colors"
@@ -618,30 +762,69 @@ const StationModal: React.FC<StationModalProps> = ({ data, isVisible, onClose })
 
         {/* Data Body - Table and Chart */}
         <div className="flex-1 overflow-y-auto px-4 pt-4 pb-4 min-h-0">
-          {viewMode === 'table' ? (
+          {viewMode === 'tides' ? (
+            /* Tide Table */
+            <TideTable days={tideDays} unitLabel={`${unit} ${datum}`} timeLabel={timeZone.label} />
+          ) : viewMode === 'table' ? (
             /* Data Table */
             <div>
-              <div className="overflow-x-auto">
-                <table className="w-full border border-gray-200 rounded-lg">
-                  <thead className="bg-gray-50">
+              <div className="mb-3">
+                <SurgeSummary stats={residualStats} unit={unit} timeZone={zone} />
+              </div>
+              <div className="flex justify-end mb-2">
+                <label
+                  className={`flex items-center gap-1 px-2 py-1 text-xs rounded-md text-gray-600 ${flaggedCount > 0 ? 'hover:bg-gray-100 cursor-pointer' : 'opacity-50'}`}
+                  title="Observations with NOAA quality flags set (outliers, flat tolerance, rate of change, max/min)"
+                >
+                  <input
+                    type="checkbox"
+                    checked={hideFlaggedRows}
+                    disabled={flaggedCount === 0}
+                    onChange={(e) => setHideFlaggedRows(e.target.checked)}
+                  />
+                  Hide flagged ({flaggedCount})
+                </label>
+              </div>
+              <div ref={virtualRows.containerRef} className="overflow-auto max-h-[40vh] border border-gray-200 rounded-lg">
+                <table className="w-full">
+                  <thead className="bg-gray-50 sticky top-0 z-10">
                     <tr>
-                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase border-b">Time</th>
-                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase border-b">NOAA Prediction (ft)</th>
-                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase border-b">Observation (ft)</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase border-b">Time ({timeZone.label})</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase border-b">NOAA Prediction ({unit} {datum})</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase border-b">Observation ({unit} {datum})</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase border-b">Residual ({unit})</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase border-b">Sigma ({unit})</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase border-b">Quality</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200">
-                    {tableData.map((item, index) => (
-                      <tr key={item.time} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
-                        <td className="px-4 py-3 text-sm text-gray-900">{item.time}</td>
-                        <td className="px-4 py-3 text-sm text-gray-900">
-                          {typeof item.prediction === 'number' ? item.prediction.toFixed(2) : '-'}
-                        </td>
-                        <td className="px-4 py-3 text-sm text-gray-900">
-                          {typeof item.observation === 'number' ? item.observation.toFixed(2) : '-'}
-                        </td>
-                      </tr>
-                    ))}
+                    {virtualRows.paddingTop > 0 && <tr style={{ height: virtualRows.paddingTop }} />}
+                    {tableData.slice(virtualRows.start, virtualRows.end).map((item, offset) => {
+                      const index = virtualRows.start + offset
+                      const observed = item.observation !== null ? observationQuality.get(item.time) : undefined
+                      const sigma = observed && observed.record.s !== '' ? Number(observed.record.s) : NaN
+                      return (
+                        <tr key={item.time} style={{ height: TABLE_ROW_HEIGHT }} className={`whitespace-nowrap ${observed?.quality.isSuspect ? 'bg-orange-50' : index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}`}>
+                          <td className="px-4 py-3 text-sm text-gray-900">{formatZonedTimestamp(parseApiTimestamp(item.time), zone)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            {typeof item.prediction === 'number' ? item.prediction.toFixed(2) : '-'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            {typeof item.observation === 'number' ? item.observation.toFixed(2) : '-'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            {typeof item.residual === 'number' ? item.residual.toFixed(2) : '-'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            {Number.isFinite(sigma) ? convertLength(sigma, 'ft', unit).toFixed(3) : '-'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            {observed ? <QualityBadges quality={observed.quality} /> : '-'}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                    {virtualRows.paddingBottom > 0 && <tr style={{ height: virtualRows.paddingBottom }} />}
                   </tbody>
                 </table>
               </div>
@@ -655,6 +838,7 @@ const StationModal: React.FC<StationModalProps> = ({ data, isVisible, onClose })
                 title={`Water Level Chart - ${stationName}`}
                 loading={isChartLoading}
                 stationId={stationId}
+                timeZone={timeZone}
               />
             </div>
           )}
@@ -663,7 +847,15 @@ const StationModal: React.FC<StationModalProps> = ({ data, isVisible, onClose })
         {/* Footer */}
         <div className="py-2 px-4 border-t bg-gray-50 flex-shrink-0">
           <div className="flex justify-between items-center text-sm text-gray-600">
-            <span>Last Seen: {data.timeStamp}</span>
+            <span title={timeZone.isEstimated ? 'Station time zone estimated from its longitude' : timeZone.zone}>
+              Last Seen: {formatZonedDateTime(parseApiTimestamp(data.timeStamp), zone)}
+            </span>
+            {isDatumFallback && (
+              <span className="text-amber-700">No {preferredDatum} offset for this station, showing {datum}</span>
+            )}
+            {!isChartLoading && (
+              <CompletenessSummary observations={completeness.observations} predictions={completeness.predictions} timeZone={zone} />
+            )}
             <span>{observations.length + predictions.length} records found ({observations.length} observations, {predictions.length} predictions)</span>
           </div>
         </div>
@@ -702,55 +894,183 @@ function MapComponent() {
   const navigate = useNavigate()
   const { user, signOut } = useBetterAuth()
 
+  // Map state from the URL (restores shared links)
+  const search = Route.useSearch()
+
   // Drawer state
   const [isDrawerOpen, setIsDrawerOpen] = useState(false)
 
+  // Layer registry (catalog endpoint with bundled fallback)
+  const { radioLayers, checkboxLayers, queryableLayers } = useLayerRegistry()
+
   const [layerVisibility, setLayerVisibility] = useState<Record<string, boolean>>(
-    TOGGLEABLE_WMS_LAYERS.reduce(
-      (acc, layer, index) => ({
-        ...acc,
-        [layer.id]: index === 0, // Only first layer visible by default
-      }),
-      {},
-    ),
+    () => search.layer
+      ? Object.fromEntries(radioLayers.map((layer) => [layer.id, layer.id === search.layer]))
+      : getDefaultVisibility(radioLayers, true),
   )
 
   // Base layer state management
-  const [selectedBaseLayer, setSelectedBaseLayer] = useState<LayerType>('satellite')
-
-  // Checkbox layer visibility state (includes PERMANENT_LAYER + other checkbox layers)
-  const [checkboxLayerVisibility, setCheckboxLayerVisibility] = useState<Record<string, boolean>>({
-    [PERMANENT_LAYER.id]: true, // Geo Station Point checked by default
-    ...TOGGLEABLE_CHECKBOX_WMS_LAYERS.reduce(
-      (acc, layer) => ({
-        ...acc,
-        [layer.id]: true, // All checked by default
-      }),
-      {},
-    ),
+  const [selectedBaseLayer, setSelectedBaseLayer] = useState<LayerType>(search.base ?? 'satellite')
+
+  // Checkbox layer visibility state (NOAA Stations + other checkbox layers)
+  const [checkboxLayerVisibility, setCheckboxLayerVisibility] = useState<Record<string, boolean>>(
+    () => search.overlays
+      ? Object.fromEntries(checkboxLayers.map((layer) => [layer.id, search.overlays!.includes(layer.id)]))
+      : getDefaultVisibility(checkboxLayers),
+  )
+
+  // Map center/zoom (updated after every pan or zoom)
+  const [mapView, setMapView] = useState({
+    lat: search.lat ?? DEFAULT_CENTER[0],
+    lng: search.lng ?? DEFAULT_CENTER[1],
+    zoom: search.zoom ?? DEFAULT_ZOOM,
   })
+  const [isMapReady, setIsMapReady] = useState(false)
+
+  // Layers added from the layer browser (rendered as checkbox layers)
+  const [addedLayers, setAddedLayers] = useState<WMSLayerConfig[]>([])
+  const [showLayerBrowser, setShowLayerBrowser] = useState(false)
+  const mapCheckboxLayers = useMemo(() => [...checkboxLayers, ...addedLayers], [checkboxLayers, addedLayers])
+
+  // Real layer extents from GetCapabilities, falling back to catalog bounds
+  const { layersByName } = useCapabilityLayers()
+  const layerExtents = useMemo(() => {
+    const extents: Record<string, WMSBoundingBox> = {}
+    for (const layer of [...radioLayers, ...mapCheckboxLayers]) {
+      const bbox = layersByName.get(layer.layers)?.bbox
+      if (bbox) {
+        extents[layer.id] = bbox
+      } else if (layer.bounds) {
+        const [[south, west], [north, east]] = layer.bounds
+        extents[layer.id] = { west, south, east, north }
+      }
+    }
+    return extents
+  }, [radioLayers, mapCheckboxLayers, layersByName])
+
+  // Time dimension of the selected dropdown layer (drives the WMS TIME parameter)
+  const selectedRadioLayer = radioLayers.find((layer) => layerVisibility[layer.id])
+  const selectedTimeDimension = selectedRadioLayer ? layersByName.get(selectedRadioLayer.layers)?.time : undefined
+  const timeValues = useMemo(() => selectedTimeDimension?.values ?? [], [selectedTimeDimension])
+  const timeAnimation = useTimeAnimation(timeValues, selectedTimeDimension?.default)
+  const selectedTime = timeValues.length > 1 ? timeAnimation.time : null
+
+  // Per-layer opacity, order and style overrides
+  const [layerSettings, setLayerSettings] = useState<Record<string, LayerDisplaySettings>>({})
+
+  // Visible WMS layers, top-most first (after drag-to-reorder)
+  const activeLayers = useMemo(() => {
+    const getZIndex = (layer: WMSLayerConfig) => layerSettings[layer.id]?.zIndex ?? layer.zIndex
+    return [
+      ...radioLayers.filter((layer) => layerVisibility[layer.id]),
+      ...mapCheckboxLayers.filter((layer) => checkboxLayerVisibility[layer.id]),
+    ].sort((a, b) => getZIndex(b) - getZIndex(a))
+  }, [radioLayers, mapCheckboxLayers, layerVisibility, checkboxLayerVisibility, layerSettings])
+
+  // Available WMS styles per layer (from GetCapabilities)
+  const stylesByLayer = useMemo(() => {
+    const styles: Record<string, WMSStyle[]> = {}
+    for (const layer of activeLayers) {
+      styles[layer.id] = layersByName.get(layer.layers)?.styles ?? []
+    }
+    return styles
+  }, [activeLayers, layersByName])
+
+  const handleOpacityChange = useCallback((layerId: string, opacity: number) => {
+    setLayerSettings((prev) => ({ ...prev, [layerId]: { ...prev[layerId], opacity } }))
+  }, [])
+
+  const handleStyleChange = useCallback((layerId: string, style: string) => {
+    setLayerSettings((prev) => ({
+      ...prev,
+      [layerId]: { ...prev[layerId], opacity: prev[layerId]?.opacity ?? 1, style: style || undefined },
+    }))
+  }, [])
+
+  // Rewrite zIndex from the new order, keeping overlays above the base maps (501+)
+  // Hidden overlays are renumbered too (below the visible ones, in their current
+  // order), so no two layers share a zIndex when one is enabled later
+  const handleReorder = useCallback((layerIds: string[]) => {
+    setLayerSettings((prev) => {
+      const getZIndex = (layer: WMSLayerConfig) => prev[layer.id]?.zIndex ?? layer.zIndex
+      const hiddenIds = [...radioLayers, ...mapCheckboxLayers]
+        .filter((layer) => !layerIds.includes(layer.id))
+        .sort((a, b) => getZIndex(b) - getZIndex(a))
+        .map((layer) => layer.id)
+      const order = [...layerIds, ...hiddenIds]
+
+      const next = { ...prev }
+      order.forEach((layerId, index) => {
+        next[layerId] = {
+          ...prev[layerId],
+          opacity: prev[layerId]?.opacity ?? 1,
+          zIndex: 501 + order.length - 1 - index,
+        }
+      })
+      return next
+    })
+  }, [radioLayers, mapCheckboxLayers])
+
+  // Apply catalog defaults to layers that arrive after the first render
+  useEffect(() => {
+    setLayerVisibility((prev) => {
+      const missing = radioLayers.filter((layer) => !(layer.id in prev))
+      if (missing.length === 0) return prev
+      // Keep the current dropdown selection; only pick a default when nothing is selected
+      const defaults = Object.values(prev).some(Boolean)
+        ? Object.fromEntries(missing.map((layer) => [layer.id, false]))
+        : getDefaultVisibility(missing, true)
+      return { ...prev, ...defaults }
+    })
+    setCheckboxLayerVisibility((prev) => {
+      const missing = checkboxLayers.filter((layer) => !(layer.id in prev))
+      if (missing.length === 0) return prev
+      return { ...getDefaultVisibility(missing), ...prev }
+    })
+  }, [radioLayers, checkboxLayers])
 
   // Calculate if pen mode should be disabled (checks both dropdown and checkbox queryable layers)
-  const hasDropdownLayer = Object.values(layerVisibility).some(visible => visible)
-  const hasInlandFloodMap = checkboxLayerVisibility['inland_flood_map']
-  const isPenModeDisabled = !hasDropdownLayer && !hasInlandFloodMap
+  const isPenModeDisabled = !queryableLayers.some((layer) =>
+    layer.group === 'radio' ? layerVisibility[layer.id] : checkboxLayerVisibility[layer.id]
+  )
 
   // Modal and station click state
   const [clickParams, setClickParams] = useState<StationClickParams | null>(null)
   const [selectedStation, setSelectedStation] = useState<StationClickResponse | null>(null)
   const [modalVisible, setModalVisible] = useState(false)
 
+  // Station and pen marker from the URL, queried once the map is ready
+  const [pendingStation, setPendingStation] = useState<[number, number] | null>(search.station ?? null)
+  const [pendingPen, setPendingPen] = useState<[number, number] | null>(search.pen ?? null)
+
   // Pen mode state
-  const [penModeActive, setPenModeActive] = useState(false)
-  const [markerPosition, setMarkerPosition] = useState<L.LatLng | null>(null)
+  const [penModeActive, setPenModeActive] = useState(!!search.pen)
+  const [markerPosition, setMarkerPosition] = useState<L.LatLng | null>(
+    () => search.pen ? L.latLng(search.pen[0], search.pen[1]) : null
+  )
   const [markerDepth, setMarkerDepth] = useState<number | null>(null)
   const [markerUnit, setMarkerUnit] = useState<string>('feet')
+  const { unit: displayUnit } = useUnits()
   const [isLoadingDepth, setIsLoadingDepth] = useState(false)
 
+  // Probe mode state (many labelled depth readings, kept across reloads)
+  const [probeModeActive, setProbeModeActive] = useState(false)
+  const { probes, addProbe, requeryProbe, renameProbe, removeProbe, clearProbes } = useProbes()
+
+  // Transect state (drawn line and its sampled depth profile)
+  const [transectModeActive, setTransectModeActive] = useState(false)
+  const [transectLine, setTransectLine] = useState<L.LatLng[] | null>(null)
+  const { profile: transectProfile, run: runTransectProfile, clear: clearTransectProfile } = useTransectProfile()
+
+  // Polygon state (drawn area and its flood statistics)
+  const [polygonModeActive, setPolygonModeActive] = useState(false)
+  const [statsPolygon, setStatsPolygon] = useState<L.LatLng[] | null>(null)
+  const { stats: polygonStats, run: runPolygonStats, clear: clearPolygonStats } = usePolygonStats()
+
   // Comparison mode state
-  const [comparisonMode, setComparisonMode] = useState(false)
-  const [comparisonLeftLayer, setComparisonLeftLayer] = useState<string | null>(null)
-  const [comparisonRightLayer, setComparisonRightLayer] = useState<string | null>(null)
+  const [comparisonMode, setComparisonMode] = useState(!!search.compare)
+  const [comparisonLeftLayer, setComparisonLeftLayer] = useState<string | null>(search.compare?.[0] ?? null)
+  const [comparisonRightLayer, setComparisonRightLayer] = useState<string | null>(search.compare?.[1] ?? null)
   const [showComparisonModal, setShowComparisonModal] = useState(false)
 
   // Notification toast state
@@ -764,7 +1084,7 @@ function MapComponent() {
   // Refs for pen mode
   const abortControllerRef = useRef<AbortController | null>(null)
 
-  const handleLayerToggle = (layerId: string) => {
+  const handleLayerToggle = useCallback((layerId: string) => {
     // Handle "none" selection - hide all layers
     if (layerId === 'none') {
       setLayerVisibility((prev) => {
@@ -785,7 +1105,7 @@ function MapComponent() {
       }
       return newState
     })
-  }
+  }, [])
 
   // Handle checkbox layer toggle
   const handleCheckboxLayerToggle = (layerId: string) => {
@@ -796,20 +1116,20 @@ function MapComponent() {
   }
 
   // Handle comparison enable
-  const handleComparisonEnable = (leftLayerId: string, rightLayerId: string) => {
+  const handleComparisonEnable = useCallback((leftLayerId: string, rightLayerId: string) => {
     setComparisonLeftLayer(leftLayerId)
     setComparisonRightLayer(rightLayerId)
     setComparisonMode(true)
     console.log('✅ Comparison mode enabled:', { leftLayerId, rightLayerId })
-  }
+  }, [])
 
   // Handle comparison disable
-  const handleComparisonDisable = () => {
+  const handleComparisonDisable = useCallback(() => {
     setComparisonMode(false)
     setComparisonLeftLayer(null)
     setComparisonRightLayer(null)
     console.log('🚫 Comparison mode disabled')
-  }
+  }, [])
 
   // Handle notification sent
   const handleNotificationSent = (success: boolean, message: string) => {
@@ -824,17 +1144,75 @@ function MapComponent() {
     navigate({ to: '/login' })
   }
 
-  // Handle zoom to layer location
-  const handleZoomToLayer = useCallback((lat: number, lon: number, zoom: number) => {
+  // Handle zoom to layer extent
+  const handleZoomToLayer = useCallback((bbox: WMSBoundingBox) => {
     if (mapRef.current) {
-      mapRef.current.setView([lat, lon], zoom)
+      mapRef.current.fitBounds([[bbox.south, bbox.west], [bbox.north, bbox.east]])
     }
   }, [])
 
+  // Add a published layer on top of the existing overlays
+  const addCapabilityLayer = useCallback((layerName: string, title: string) => {
+    setAddedLayers((prev) => {
+      if (prev.some((layer) => layer.layers === layerName)) return prev
+      // Reordered layers carry their zIndex in layerSettings
+      const topZIndex = Math.max(...[...radioLayers, ...checkboxLayers, ...prev].map((layer) => layerSettings[layer.id]?.zIndex ?? layer.zIndex), 500)
+      return [
+        ...prev,
+        {
+          id: layerName,
+          name: title,
+          url: GEOSERVER_CONFIG.wmsURL,
+          layers: layerName,
+          format: 'image/png',
+          transparent: true,
+          version: '1.3.0',
+          zIndex: topZIndex + 1,
+          group: 'checkbox',
+          queryable: false,
+          defaultVisible: true,
+          source: 'capabilities',
+        },
+      ]
+    })
+    setCheckboxLayerVisibility((prev) => ({ ...prev, [layerName]: true }))
+  }, [radioLayers, checkboxLayers, layerSettings])
+
+  // Add a layer picked in the layer browser
+  const handleAddLayer = useCallback((capabilityLayer: WMSCapabilityLayer) => {
+    addCapabilityLayer(capabilityLayer.name, capabilityLayer.title)
+  }, [addCapabilityLayer])
+
+  // Remove a layer added from the layer browser
+  const handleRemoveLayer = useCallback((layerId: string) => {
+    setAddedLayers((prev) => prev.filter((layer) => layer.id !== layerId))
+    setCheckboxLayerVisibility((prev) => {
+      const { [layerId]: _removed, ...rest } = prev
+      return rest
+    })
+  }, [])
+
+  // Legends for visible WMS layers, top-most layer first
+  const legendEntries = useMemo<LegendEntry[]>(
+    () => activeLayers.map((layer) => ({
+      id: layer.id,
+      name: layer.name,
+      layerName: layer.layers,
+      style: layerSettings[layer.id]?.style,
+    })),
+    [activeLayers, layerSettings]
+  )
+
+  // WMS layer names currently available in the LayerController
+  const activeLayerNames = useMemo(
+    () => new Set([...radioLayers, ...mapCheckboxLayers].map((layer) => layer.layers)),
+    [radioLayers, mapCheckboxLayers]
+  )
+
   // Get highest z-index DEM raster layer (for pen mode depth queries)
   const getActiveLayer = useCallback(() => {
     // Filter only visible DEM raster layers (not point layers)
-    const demLayers = TOGGLEABLE_WMS_LAYERS.filter(layer =>
+    const demLayers = radioLayers.filter(layer =>
       layerVisibility[layer.id]
     )
     if (demLayers.length === 0) return null
@@ -842,35 +1220,34 @@ function MapComponent() {
     return demLayers.reduce((highest, current) =>
       current.zIndex > highest.zIndex ? current : highest
     )
-  }, [layerVisibility])
+  }, [radioLayers, layerVisibility])
 
   // Get all visible queryable layers (for multi-layer pen mode depth queries)
   const getVisibleQueryableLayers = useCallback(() => {
     const visibleLayers: string[] = []
 
     // Loop through all queryable layers
-    Object.keys(QUERYABLE_LAYERS_CONFIG).forEach(layerId => {
-      const config = QUERYABLE_LAYERS_CONFIG[layerId]
-
-      // Check visibility based on source (dropdown or checkbox)
-      const isVisible = config.source === 'dropdown'
-        ? layerVisibility[layerId]
-        : checkboxLayerVisibility[layerId]
+    queryableLayers.forEach(layer => {
+      // Check visibility based on group (dropdown or checkbox)
+      const isVisible = layer.group === 'radio'
+        ? layerVisibility[layer.id]
+        : checkboxLayerVisibility[layer.id]
 
       // If visible, add GeoServer layer name to array
       if (isVisible) {
-        visibleLayers.push(config.geoserverLayer)
+        visibleLayers.push(layer.layers)
       }
     })
 
     return visibleLayers
-  }, [layerVisibility, checkboxLayerVisibility])
+  }, [queryableLayers, layerVisibility, checkboxLayerVisibility])
 
   // Fetch water depth from GetFeatureInfo API (supports multiple layers)
   const fetchWaterDepth = useCallback(async (
     latlng: L.LatLng,
     map: L.Map,
-    layerNames: string[]
+    layerNames: string[],
+    time?: string | null
   ) => {
     // Cancel previous request
     if (abortControllerRef.current) {
@@ -882,138 +1259,18 @@ function MapComponent() {
     try {
       setIsLoadingDepth(true)
 
-      // Get map bounds and size (already in EPSG:4326)
-      const bounds = map.getBounds()
-      const mapSize = map.getSize()
-
-      // Calculate pixel size in degrees (EPSG:4326)
-      const degPerPixelX = (bounds.getEast() - bounds.getWest()) / mapSize.x
-      const degPerPixelY = (bounds.getNorth() - bounds.getSouth()) / mapSize.y
-
-      // Create a 101x101 pixel BBOX centered on cursor position
-      const halfSize = 50 // 50 pixels on each side = 101 total
-      const halfWidthDeg = halfSize * degPerPixelX
-      const halfHeightDeg = halfSize * degPerPixelY
-
-      // Build BBOX in EPSG:4326 (minX, minY, maxX, maxY) = (west, south, east, north)
-      const bboxMinX = latlng.lng - halfWidthDeg
-      const bboxMinY = latlng.lat - halfHeightDeg
-      const bboxMaxX = latlng.lng + halfWidthDeg
-      const bboxMaxY = latlng.lat + halfHeightDeg
-
-      const bbox = `${bboxMinX},${bboxMinY},${bboxMaxX},${bboxMaxY}`
-
-      // Build comma-separated layer string
-      const layerString = layerNames.join(',')
-
-      // Debug logging
-      console.log('🎯 Pen Mode Debug:', {
-        cursor: { lat: latlng.lat, lng: latlng.lng },
-        bbox,
-        bboxParsed: { west: bboxMinX, south: bboxMinY, east: bboxMaxX, north: bboxMaxY },
-        pixelSize: { degPerPixelX, degPerPixelY },
-        layers: layerString
-      })
-
-      // Build params matching the working example format
-      const params = new URLSearchParams({
-        SERVICE: 'WMS',
-        VERSION: '1.1.1',
-        REQUEST: 'GetFeatureInfo',
-        FORMAT: 'image/jpeg',
-        TRANSPARENT: 'true',
-        QUERY_LAYERS: layerString,
-        LAYERS: layerString,
-        exceptions: 'application/vnd.ogc.se_inimage',
-        INFO_FORMAT: 'text/html',
-        FEATURE_COUNT: '50',
-        X: '50', // Center of 101x101 box
-        Y: '50', // Center of 101x101 box
-        SRS: 'EPSG:4326',
-        WIDTH: '101',
-        HEIGHT: '101',
-        BBOX: bbox,
+      const result = await fetchPointDepth({
+        lat: latlng.lat,
+        lng: latlng.lng,
+        ...getDegreesPerPixel(map),
+        layers: layerNames,
+        time,
+        signal: abortControllerRef.current.signal,
       })
 
-      // Add STYLES parameter without value (matching template)
-      const paramsString = params.toString() + '&STYLES'
-
-      // Use correct base URL with /flood-app/ workspace
-      const baseUrl = `${import.meta.env.VITE_GEOSERVER_BASE_URL.replace('/wms', '')}/flood-app/wms`
-
-      const response = await fetch(
-        `${baseUrl}?${paramsString}`,
-        { signal: abortControllerRef.current.signal }
-      )
-
-      if (!response.ok) throw new Error('API request failed')
-
-      // Parse HTML response to extract JSON
-      const htmlText = await response.text()
-      console.log('📄 Raw HTML response:', htmlText.substring(0, 200))
-
-      // Extract body content first (to skip CSS in <style> tags)
-      const bodyStart = htmlText.indexOf('<body>')
-      const bodyEnd = htmlText.indexOf('</body>')
-
-      if (bodyStart === -1 || bodyEnd === -1) {
-        console.log('❌ No <body> tag found in HTML')
-        setMarkerDepth(null)
-        setMarkerUnit('feet')
-        return
-      }
-
-      const bodyContent = htmlText.substring(bodyStart + 6, bodyEnd) // +6 to skip '<body>'
-      console.log('📦 Body content:', bodyContent.substring(0, 100))
-
-      // Now search for JSON braces within body content only
-      const firstBrace = bodyContent.indexOf('{')
-      const lastBrace = bodyContent.lastIndexOf('}')
-      console.log('🔍 Brace positions in body:', { firstBrace, lastBrace })
-
-      // If no JSON found in body, show "No data"
-      if (firstBrace === -1 || lastBrace === -1) {
-        console.log('❌ No JSON braces found in body')
-        setMarkerDepth(null)
-        setMarkerUnit('feet')
-        return
-      }
-
-      const jsonString = bodyContent.substring(firstBrace, lastBrace + 1)
-      console.log('📋 Extracted JSON string:', jsonString.substring(0, 100))
-
-      const data = JSON.parse(jsonString)
-      console.log('✅ Parsed JSON data:', data)
-
-      // Loop through features array to find first non-null GRAY_INDEX
-      if (data.features && data.features.length > 0) {
-        console.log(`🔢 Found ${data.features.length} features`)
-        let foundDepth = false
-        for (const feature of data.features) {
-          const grayIndex = feature.properties?.GRAY_INDEX
-          const unit = feature.properties?.unit || 'feet'
-          console.log('🎯 Feature properties:', { grayIndex, unit, properties: feature.properties })
-          // Check if valid: not null/undefined AND not negative (negative = NoData sentinel)
-          if (grayIndex !== undefined && grayIndex !== null && grayIndex >= 0) {
-            console.log('✅ Setting depth:', grayIndex, unit)
-            setMarkerDepth(grayIndex)
-            setMarkerUnit(unit)
-            foundDepth = true
-            break // Found first valid value, stop looking
-          } else if (grayIndex < 0) {
-            console.log('⚠️ Negative GRAY_INDEX (NoData sentinel):', grayIndex)
-          }
-        }
-        if (!foundDepth) {
-          console.log('⚠️ No valid GRAY_INDEX found')
-          setMarkerDepth(null)
-          setMarkerUnit('feet')
-        }
-      } else {
-        console.log('⚠️ No features in response')
-        setMarkerDepth(null)
-        setMarkerUnit('feet')
-      }
+      console.log('✅ Water depth result:', result)
+      setMarkerDepth(result.depth)
+      setMarkerUnit(result.unit)
     } catch (error: any) {
       if (error.name !== 'AbortError') {
         console.error('Error fetching water depth:', error)
@@ -1046,8 +1303,81 @@ function MapComponent() {
     setMarkerDepth(null) // Reset depth when placing new marker
 
     // Fetch water depth from all visible queryable layers
-    fetchWaterDepth(e.latlng, map, visibleQueryableLayers)
-  }, [penModeActive, getVisibleQueryableLayers, fetchWaterDepth])
+    fetchWaterDepth(e.latlng, map, visibleQueryableLayers, selectedTime)
+  }, [penModeActive, getVisibleQueryableLayers, fetchWaterDepth, selectedTime])
+
+  // Query context for probes: current map resolution, visible queryable layers and forecast time
+  const getProbeQuery = useCallback((map: L.Map) => ({
+    ...getDegreesPerPixel(map),
+    layers: getVisibleQueryableLayers(),
+    time: selectedTime,
+  }), [getVisibleQueryableLayers, selectedTime])
+
+  // Handle probe mode click (adds a probe, keeping the existing ones)
+  const handleProbeModeClick = useCallback((e: L.LeafletMouseEvent) => {
+    const query = getProbeQuery(e.target)
+    if (query.layers.length === 0) {
+      console.log('⚠️ No queryable layers visible for probe mode')
+      return
+    }
+    addProbe(e.latlng.lat, e.latlng.lng, query)
+  }, [getProbeQuery, addProbe])
+
+  const handleRequeryProbe = useCallback((probe: DepthProbe) => {
+    if (!mapRef.current) return
+    const query = getProbeQuery(mapRef.current)
+    if (query.layers.length > 0) {
+      requeryProbe(probe, query)
+    }
+  }, [getProbeQuery, requeryProbe])
+
+  const handleFocusProbe = useCallback((probe: DepthProbe) => {
+    mapRef.current?.setView([probe.lat, probe.lng], Math.max(mapRef.current.getZoom(), 16))
+  }, [])
+
+  // Sample the finished transect with the visible queryable layers
+  const handleTransectClose = useCallback(() => {
+    clearTransectProfile()
+    setTransectLine(null)
+  }, [clearTransectProfile])
+
+  const handlePolygonClose = useCallback(() => {
+    clearPolygonStats()
+    setStatsPolygon(null)
+  }, [clearPolygonStats])
+
+  // Only one result panel at a time (both sit bottom-left)
+  const handleTransectComplete = useCallback((points: L.LatLng[]) => {
+    setTransectModeActive(false)
+    if (!mapRef.current) return
+    const query = getProbeQuery(mapRef.current)
+    if (query.layers.length === 0) return
+    handlePolygonClose()
+    setTransectLine(points)
+    runTransectProfile(points, query)
+  }, [getProbeQuery, runTransectProfile, handlePolygonClose])
+
+  // Sample the finished polygon on a grid with the visible queryable layers
+  const handlePolygonComplete = useCallback((points: L.LatLng[]) => {
+    setPolygonModeActive(false)
+    if (!mapRef.current) return
+    const query = getProbeQuery(mapRef.current)
+    if (query.layers.length === 0) return
+    handleTransectClose()
+    setStatsPolygon(points)
+    runPolygonStats(points, query)
+  }, [getProbeQuery, runPolygonStats, handleTransectClose])
+
+  const handleDrawCancel = useCallback(() => {
+    setTransectModeActive(false)
+    setPolygonModeActive(false)
+  }, [])
+
+  // Display names for queried GeoServer layers
+  const queryableLayerTitles = useMemo(
+    () => Object.fromEntries(queryableLayers.map((layer) => [layer.layers, layer.name])),
+    [queryableLayers]
+  )
 
   // Cleanup on unmount or pen mode toggle
   useEffect(() => {
@@ -1070,7 +1400,10 @@ function MapComponent() {
       setMarkerDepth(null)
       setMarkerUnit('feet')
     }
-  }, [layerVisibility, checkboxLayerVisibility, penModeActive, getVisibleQueryableLayers])
+    if (visibleQueryableLayers.length === 0 && probeModeActive) {
+      setProbeModeActive(false)
+    }
+  }, [layerVisibility, checkboxLayerVisibility, penModeActive, probeModeActive, getVisibleQueryableLayers])
 
   // Create custom pin icon
   const [pinIconInstance, setPinIconInstance] = useState<L.Icon | null>(null)
@@ -1096,6 +1429,7 @@ function MapComponent() {
       setSelectedStation(stationData)
       setModalVisible(true)
       setClickParams(null) // Reset click params after success
+      setPendingStation(null)
     }
   }, [stationData, isLoading])
 
@@ -1104,27 +1438,172 @@ function MapComponent() {
     if (error && !isLoading) {
       console.log('❌ Station query error, resetting clickParams:', error.message)
       setClickParams(null)
+      setPendingStation(null)
     }
   }, [error, isLoading])
 
+  // Query the station restored from the URL
+  useEffect(() => {
+    if (!pendingStation || !isMapReady || comparisonMode || !mapRef.current) return
+    setClickParams(buildStationQueryParams(mapRef.current, pendingStation))
+  }, [pendingStation, isMapReady, comparisonMode])
+
+  // Query water depth at the pen marker restored from the URL
+  useEffect(() => {
+    if (!pendingPen || !isMapReady || comparisonMode || !mapRef.current) return
+    const visibleQueryableLayers = getVisibleQueryableLayers()
+    if (visibleQueryableLayers.length > 0) {
+      fetchWaterDepth(L.latLng(pendingPen[0], pendingPen[1]), mapRef.current, visibleQueryableLayers, selectedTime)
+    }
+    setPendingPen(null)
+  }, [pendingPen, isMapReady, comparisonMode, getVisibleQueryableLayers, fetchWaterDepth, selectedTime])
+
+  // Round the view so tiny float differences don't create history entries
+  const handleViewChange = useCallback((lat: number, lng: number, zoom: number) => {
+    setMapView({ lat: roundCoordinate(lat), lng: roundCoordinate(lng), zoom })
+  }, [])
+
+  // Current map state as URL search params
+  const stationCoordinates = selectedStation?.features[0]?.geometry.coordinates
+  const stateSearch = useMemo<MapSearch>(() => ({
+    lat: mapView.lat,
+    lng: mapView.lng,
+    zoom: mapView.zoom,
+    base: selectedBaseLayer,
+    layer: selectedRadioLayer?.id ?? 'none',
+    overlays: mapCheckboxLayers.filter((layer) => checkboxLayerVisibility[layer.id]).map((layer) => layer.id),
+    compare: comparisonMode && comparisonLeftLayer && comparisonRightLayer
+      ? [comparisonLeftLayer, comparisonRightLayer]
+      : undefined,
+    station: stationCoordinates
+      ? [roundCoordinate(stationCoordinates[1]), roundCoordinate(stationCoordinates[0])]
+      : pendingStation ?? undefined,
+    pen: penModeActive && markerPosition
+      ? [roundCoordinate(markerPosition.lat), roundCoordinate(markerPosition.lng)]
+      : undefined,
+  }), [
+    mapView, selectedBaseLayer, selectedRadioLayer, mapCheckboxLayers, checkboxLayerVisibility,
+    comparisonMode, comparisonLeftLayer, comparisonRightLayer, stationCoordinates, pendingStation,
+    penModeActive, markerPosition,
+  ])
+
+  // View saved with a bookmark (no station or pen marker)
+  const bookmarkView = useMemo<BookmarkView>(() => {
+    const { station: _station, pen: _pen, ...view } = stateSearch
+    return view
+  }, [stateSearch])
+
+  // Open a saved view through the URL, so it applies like back/forward navigation
+  const handleApplyView = useCallback((view: BookmarkView) => {
+    setIsDrawerOpen(false)
+    navigate({ to: '/', search: view })
+  }, [navigate])
+
+  // Last search written to or read from the URL
+  const lastSyncedSearchRef = useRef(serializeMapSearch(search))
+  // Last URL search the effect below has seen, so it acts once per URL change
+  const lastSeenSearchRef = useRef(lastSyncedSearchRef.current)
+  const hasSyncedRef = useRef(false)
+  const replaceNextSyncRef = useRef(false)
+
+  // Write state changes to the URL; each change after the first is a history entry
+  useEffect(() => {
+    const replace = !hasSyncedRef.current || replaceNextSyncRef.current
+    hasSyncedRef.current = true
+    replaceNextSyncRef.current = false
+
+    const serialized = serializeMapSearch(stateSearch)
+    if (serialized === lastSyncedSearchRef.current) return
+    lastSyncedSearchRef.current = serialized
+    navigate({ to: '/', search: stateSearch, replace })
+  }, [stateSearch, navigate])
+
+  // Apply URL changes that didn't come from the map (back/forward navigation)
+  // Re-runs for other dependencies are no-ops: the URL hasn't changed, and a
+  // search we navigated to ourselves is skipped.
+  useEffect(() => {
+    const serialized = serializeMapSearch(search)
+    if (serialized === lastSeenSearchRef.current) return
+    lastSeenSearchRef.current = serialized
+    if (serialized === lastSyncedSearchRef.current) return
+    lastSyncedSearchRef.current = serialized
+    // Normalizing the applied state shouldn't add another history entry
+    replaceNextSyncRef.current = true
+
+    if (search.lat !== undefined && search.lng !== undefined) {
+      const zoom = search.zoom ?? mapView.zoom
+      setMapView({ lat: search.lat, lng: search.lng, zoom })
+      mapRef.current?.setView([search.lat, search.lng], zoom)
+    }
+
+    if (search.base) {
+      setSelectedBaseLayer(search.base)
+    }
+
+    if (search.layer) {
+      handleLayerToggle(search.layer)
+    }
+
+    if (search.overlays) {
+      const overlays = search.overlays
+      // Published layers added from the layer browser use their qualified name as id
+      for (const layerId of overlays) {
+        if (layerId.includes(':') && !mapCheckboxLayers.some((layer) => layer.id === layerId)) {
+          addCapabilityLayer(layerId, layersByName.get(layerId)?.title ?? layerId)
+        }
+      }
+      setCheckboxLayerVisibility((prev) => ({
+        ...Object.fromEntries(Object.keys(prev).map((layerId) => [layerId, false])),
+        ...Object.fromEntries(overlays.map((layerId) => [layerId, true])),
+      }))
+    }
+
+    if (search.compare) {
+      handleComparisonEnable(search.compare[0], search.compare[1])
+    } else if (comparisonMode) {
+      handleComparisonDisable()
+    }
+
+    if (search.station) {
+      const [lat, lng] = search.station
+      const isSelected = !!stationCoordinates
+        && roundCoordinate(stationCoordinates[1]) === lat
+        && roundCoordinate(stationCoordinates[0]) === lng
+      if (!isSelected) {
+        setPendingStation(search.station)
+      }
+    } else {
+      setPendingStation(null)
+      setModalVisible(false)
+      setSelectedStation(null)
+    }
+
+    if (search.pen) {
+      setPenModeActive(true)
+      setMarkerPosition(L.latLng(search.pen[0], search.pen[1]))
+      setMarkerDepth(null)
+      setPendingPen(search.pen)
+    } else {
+      setPenModeActive(false)
+    }
+  }, [
+    search, mapView.zoom, handleLayerToggle, mapCheckboxLayers, addCapabilityLayer, layersByName,
+    handleComparisonEnable, handleComparisonDisable, comparisonMode, stationCoordinates,
+  ])
+
   // Map click event component
   const MapClickHandler = () => {
     useMapEvents({
       click: (e) => {
         // Check if click originated from UI control
-        const target = e.originalEvent?.target as HTMLElement
-        if (target) {
-          const clickedOnControl =
-            target.closest('.layer-controller-prevent-click') ||
-            target.closest('.layer-switcher-prevent-click') ||
-            target.closest('.pen-toggle-prevent-click')
-
-          if (clickedOnControl) {
-            console.log('🚫 Click on UI control detected, ignoring map click')
-            return
-          }
+        if (isClickOnControl(e.originalEvent?.target as HTMLElement)) {
+          console.log('🚫 Click on UI control detected, ignoring map click')
+          return
         }
 
+        // Shape drawing handles its own clicks
+        if (transectModeActive || polygonModeActive) return
+
         console.log('✅ Valid map click detected')
 
         // Handle pen mode click
@@ -1133,22 +1612,14 @@ function MapComponent() {
           return
         }
 
-        const map = e.target
-        const size = map.getSize()
-        const bounds = map.getBounds()
-
-        // Convert click coordinates to pixel coordinates
-        const containerPoint = map.latLngToContainerPoint(e.latlng)
+        // Handle probe mode click
+        if (probeModeActive) {
+          handleProbeModeClick(e)
+          return
+        }
 
         // Build GetFeatureInfo parameters
-        const params: StationClickParams = {
-          x: Math.round(containerPoint.x),
-          y: Math.round(containerPoint.y),
-          width: size.x,
-          height: size.y,
-          bbox: `${bounds.getWest()},${bounds.getSouth()},${bounds.getEast()},${bounds.getNorth()}`,
-          layers: 'flood-app:NOAA_Pred_Sts_Prj'
-        }
+        const params = buildStationClickParams(e.target, e.latlng)
 
         console.log('📍 Setting click params for station query:', params)
         setClickParams(params)
@@ -1161,9 +1632,6 @@ function MapComponent() {
   useEffect(() => {
     import('leaflet/dist/leaflet.css')
   }, [])
-  // Default center: Norfolk/Moyock area, Virginia (matches GeoServer data location)
-  const center: [number, number] = [36.8443205, -76.2820786]
-  const zoom = 12
 
   return (
     <div className={`w-full relative transition-all duration-300 ${
@@ -1186,18 +1654,19 @@ function MapComponent() {
         <CompareMap
           leftLayerId={comparisonLeftLayer}
           rightLayerId={comparisonRightLayer}
-          layersConfig={TOGGLEABLE_WMS_LAYERS}
+          layersConfig={radioLayers}
           onDisable={handleComparisonDisable}
         />
       ) : (
         // Normal Mode: Show MapContainer with all controls
         <MapContainer
           ref={mapRef}
-          center={center}
-          zoom={zoom}
+          center={[mapView.lat, mapView.lng]}
+          zoom={mapView.zoom}
+          whenReady={() => setIsMapReady(true)}
           maxZoom={21}
           worldCopyJump={true}
-          className={`h-full w-full ${penModeActive ? 'cursor-crosshair' : ''}`}
+          className={`h-full w-full ${penModeActive || probeModeActive || transectModeActive || polygonModeActive ? 'cursor-crosshair' : ''}`}
           zoomControl={false}
         >
           {/* Dynamic Base Layers */}
@@ -1213,85 +1682,45 @@ function MapComponent() {
             />
           ))}
 
-          {/* Toggleable WMS Layers */}
-          {TOGGLEABLE_WMS_LAYERS.map((layer) =>
-            layerVisibility[layer.id] ? (
-              <WMSTileLayer
-                key={layer.id}
-                url={layer.url}
-                layers={layer.layers}
-                format={layer.format}
-                transparent={layer.transparent}
-                version={layer.version}
-                zIndex={layer.zIndex}
-                // Tile loading optimizations
-                maxZoom={21}
-                maxNativeZoom={21}
-                minZoom={8}
-                updateWhenIdle={true}
-                updateWhenZooming={false}
-                keepBuffer={1}
-                tileSize={256}
-              />
-            ) : null
-          )}
-
-          {/* Permanent Layer (Geo Station Point - Toggleable via checkbox) */}
-          {checkboxLayerVisibility[PERMANENT_LAYER.id] && (
-            <WMSTileLayer
-              key={PERMANENT_LAYER.id}
-              url={PERMANENT_LAYER.url}
-              layers={PERMANENT_LAYER.layers}
-              format={PERMANENT_LAYER.format}
-              transparent={PERMANENT_LAYER.transparent}
-              version={PERMANENT_LAYER.version}
-              zIndex={PERMANENT_LAYER.zIndex}
-              // Point layer optimizations (higher zoom OK for vector points)
-              maxZoom={21}
-              maxNativeZoom={21}
-              minZoom={8}
-              updateWhenIdle={true}
-              updateWhenZooming={false}
-              keepBuffer={1}
+          {/* WMS Overlays (dropdown + checkbox layers, includes NOAA Stations) */}
+          {activeLayers.map((layer) => (
+            <OverlayWMSLayer
+              key={layer.id}
+              layer={layer}
+              opacity={layerSettings[layer.id]?.opacity ?? 1}
+              zIndex={layerSettings[layer.id]?.zIndex ?? layer.zIndex}
+              style={layerSettings[layer.id]?.style}
+              time={layer.id === selectedRadioLayer?.id ? selectedTime : null}
             />
-          )}
-
-          {/* Checkbox WMS Layers (Toggleable) */}
-          {TOGGLEABLE_CHECKBOX_WMS_LAYERS.map((layer) =>
-            checkboxLayerVisibility[layer.id] ? (
-              <WMSTileLayer
-                key={layer.id}
-                url={layer.url}
-                layers={layer.layers}
-                format={layer.format}
-                transparent={layer.transparent}
-                version={layer.version}
-                zIndex={layer.zIndex}
-                // Tile loading optimizations
-                maxZoom={21}
-                maxNativeZoom={21}
-                minZoom={8}
-                updateWhenIdle={true}
-                updateWhenZooming={false}
-                keepBuffer={1}
-                tileSize={256}
-              />
-            ) : null
-          )}
+          ))}
 
           {/* Map Click Handler */}
           <MapClickHandler />
 
+          {/* Keeps the URL in sync with the map view */}
+          <MapViewTracker onViewChange={handleViewChange} />
+
           {/* Zoom Control (bottom-right) */}
           <ZoomControl position="bottomright" />
 
           {/* WMS Layer Controller (top-left) */}
           <LayerController
+            radioLayers={radioLayers}
+            checkboxLayers={mapCheckboxLayers}
             layerVisibility={layerVisibility}
             onLayerToggle={handleLayerToggle}
             checkboxLayerVisibility={checkboxLayerVisibility}
             onCheckboxLayerToggle={handleCheckboxLayerToggle}
+            layerExtents={layerExtents}
             onZoomToLayer={handleZoomToLayer}
+            onRemoveLayer={handleRemoveLayer}
+            onBrowseLayers={() => setShowLayerBrowser(true)}
+            activeLayers={activeLayers}
+            layerSettings={layerSettings}
+            stylesByLayer={stylesByLayer}
+            onOpacityChange={handleOpacityChange}
+            onStyleChange={handleStyleChange}
+            onReorder={handleReorder}
           />
 
           {/* Base Layer Switcher (bottom-right) - Hidden in comparison mode */}
@@ -1306,6 +1735,9 @@ function MapComponent() {
             disabled={isPenModeDisabled}
             onToggle={() => {
               setPenModeActive(!penModeActive)
+              setProbeModeActive(false)
+              setTransectModeActive(false)
+              setPolygonModeActive(false)
               if (penModeActive) {
                 setMarkerDepth(null)
                 setMarkerUnit('feet')
@@ -1313,6 +1745,68 @@ function MapComponent() {
             }}
           />
 
+          {/* Probe Mode Toggle Button */}
+          <ProbeModeToggle
+            isActive={probeModeActive}
+            disabled={isPenModeDisabled}
+            onToggle={() => {
+              setProbeModeActive(!probeModeActive)
+              setPenModeActive(false)
+              setTransectModeActive(false)
+              setPolygonModeActive(false)
+            }}
+          />
+
+          {/* Transect Toggle Button (draw a line for a depth profile) */}
+          <DrawToolToggle
+            isActive={transectModeActive}
+            disabled={isPenModeDisabled}
+            icon={<Ruler className="w-5 h-5" />}
+            label="Draw Depth Profile"
+            positionClassName="top-20 right-20"
+            onToggle={() => {
+              setTransectModeActive(!transectModeActive)
+              setPenModeActive(false)
+              setProbeModeActive(false)
+              setPolygonModeActive(false)
+            }}
+          />
+
+          {/* Polygon Toggle Button (draw an area for flood statistics) */}
+          <DrawToolToggle
+            isActive={polygonModeActive}
+            disabled={isPenModeDisabled}
+            icon={<Hexagon className="w-5 h-5" />}
+            label="Draw Area Statistics"
+            positionClassName="top-20 right-36"
+            onToggle={() => {
+              setPolygonModeActive(!polygonModeActive)
+              setPenModeActive(false)
+              setProbeModeActive(false)
+              setTransectModeActive(false)
+            }}
+          />
+
+          {/* Shape Drawing (transect or polygon) */}
+          {(transectModeActive || polygonModeActive) && (
+            <ShapeDrawer
+              key={transectModeActive ? 'line' : 'polygon'}
+              shape={transectModeActive ? 'line' : 'polygon'}
+              onComplete={transectModeActive ? handleTransectComplete : handlePolygonComplete}
+              onCancel={handleDrawCancel}
+            />
+          )}
+
+          {/* Sampled Transect Line */}
+          {transectLine && (
+            <Polyline positions={transectLine} pathOptions={DRAW_PATH_OPTIONS} />
+          )}
+
+          {/* Sampled Polygon */}
+          {statsPolygon && (
+            <Polygon positions={statsPolygon} pathOptions={{ ...DRAW_PATH_OPTIONS, fillOpacity: 0.1 }} />
+          )}
+
           {/* Comparison Button - Below Layer Controller */}
           <ComparisonButton onClick={() => setShowComparisonModal(true)} />
 
@@ -1338,7 +1832,7 @@ function MapComponent() {
                     </div>
                   ) : markerDepth !== null ? (
                     <div className="text-base font-semibold text-gray-900">
-                      {markerDepth.toFixed(2)} {markerUnit}
+                      {formatLength(convertLength(markerDepth, markerUnit, displayUnit), displayUnit)}
                     </div>
                   ) : (
                     <div className="text-sm text-gray-400">No data</div>
@@ -1348,6 +1842,20 @@ function MapComponent() {
             </Marker>
           )}
 
+          {/* Probe Markers (labelled, one per saved reading; shown outside probe mode too) */}
+          {pinIconInstance && probes.map((probe) => (
+            <Marker key={probe.id} position={[probe.lat, probe.lng]} icon={pinIconInstance}>
+              <Tooltip permanent direction="top" offset={[0, -32]}>
+                <span className="font-medium">{probe.label}</span>
+                {probe.status === 'ready' && (
+                  <span className="ml-1 text-gray-600">
+                    {probe.depth !== null ? formatLength(convertLength(probe.depth, probe.unit, displayUnit), displayUnit) : 'No data'}
+                  </span>
+                )}
+              </Tooltip>
+            </Marker>
+          ))}
+
           {/* Current Location Control - Go to current location (positioned below Fullscreen button) */}
           <CurrentLocationControl />
 
@@ -1356,15 +1864,71 @@ function MapComponent() {
         </MapContainer>
       )}
 
+      {/* Probe List - Rename, re-query, delete and export probes */}
+      {!comparisonMode && probeModeActive && (
+        <ProbeList
+          probes={probes}
+          onRename={renameProbe}
+          onRemove={removeProbe}
+          onRequery={handleRequeryProbe}
+          onFocus={handleFocusProbe}
+          onClear={clearProbes}
+          onClose={() => setProbeModeActive(false)}
+        />
+      )}
+
+      {/* Transect Depth Profile */}
+      {!comparisonMode && transectLine && (
+        <TransectProfileChart profile={transectProfile} onClose={handleTransectClose} />
+      )}
+
+      {/* Polygon Flood Statistics */}
+      {!comparisonMode && statsPolygon && (
+        <FloodStatsPanel stats={polygonStats} layerTitles={queryableLayerTitles} onClose={handlePolygonClose} />
+      )}
+
+      {/* Legend Panel - GetLegendGraphic for every visible WMS layer */}
+      {!comparisonMode && (
+        <LegendPanel entries={legendEntries} className="absolute bottom-24 right-4 z-[1001]" />
+      )}
+
+      {/* Forecast Time Slider - Animates the selected layer through its time dimension */}
+      {!comparisonMode && selectedRadioLayer && selectedTime && (
+        <TimeSlider
+          layerName={selectedRadioLayer.name}
+          values={timeValues}
+          index={timeAnimation.index}
+          isPlaying={timeAnimation.isPlaying}
+          speed={timeAnimation.speed}
+          onSeek={timeAnimation.seek}
+          onTogglePlay={timeAnimation.togglePlay}
+          onStepBack={timeAnimation.stepBack}
+          onStepForward={timeAnimation.stepForward}
+          onSpeedChange={timeAnimation.setSpeed}
+          lng={mapView.lng}
+        />
+      )}
+
       {/* Fullscreen Control - Toggle fullscreen mode (positioned below Comparison button) */}
       {!comparisonMode && <FullscreenControl />}
 
+      {/* Layer Browser (GetCapabilities) */}
+      {!comparisonMode && (
+        <LayerBrowser
+          visible={showLayerBrowser}
+          onClose={() => setShowLayerBrowser(false)}
+          activeLayerNames={activeLayerNames}
+          onAddLayer={handleAddLayer}
+          onZoomToLayer={handleZoomToLayer}
+        />
+      )}
+
       {/* Comparison Modal */}
       <ComparisonModal
         visible={showComparisonModal}
         onClose={() => setShowComparisonModal(false)}
         onEnable={handleComparisonEnable}
-        layers={TOGGLEABLE_WMS_LAYERS}
+        layers={radioLayers}
       />
 
       {/* Station Modal */}
@@ -1417,6 +1981,8 @@ function MapComponent() {
             name={user.full_name}
             email={user.email}
             phone={user.phone_number}
+            currentView={bookmarkView}
+            onApplyView={handleApplyView}
             onLogout={handleLogout}
             onClose={() => setIsDrawerOpen(false)}
           />
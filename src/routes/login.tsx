@@ -5,6 +5,7 @@ import { FormInput } from '../components/ui/FormInput'
 import { LoadingScreen } from '../components/ui/LoadingScreen'
 import { validateEmail, validateRequired } from '../utils/validation'
 import { useBetterAuth } from '../contexts/BetterAuthContext'
+import { getFieldErrors } from '../lib/api-client'
 import type { LoginRequest } from '../types/auth'
 
 export const Route = createFileRoute('/login')({
@@ -130,7 +131,11 @@ function LoginPage() {
       // Redirect to main page
       navigate({ to: '/' })
     } catch (error) {
-      if (error instanceof Error) {
+      // FastAPI validation errors go under their fields
+      const fieldErrors = getFieldErrors(error, ['email', 'password'] as const)
+      if (Object.keys(fieldErrors).length > 0) {
+        setErrors(prev => ({ ...prev, ...fieldErrors }))
+      } else if (error instanceof Error) {
         setSubmitError(error.message)
       } else {
         setSubmitError('An unexpected error occurred')
@@ -12,6 +12,7 @@ import {
   validatePhoneNumber,
 } from '../utils/validation'
 import { useBetterAuth } from '../contexts/BetterAuthContext'
+import { getFieldErrors } from '../lib/api-client'
 import type { SignupRequest } from '../types/auth'
 
 export const Route = createFileRoute('/signup')({
@@ -172,7 +173,11 @@ function SignupPage() {
       // Redirect to main page
       navigate({ to: '/' })
     } catch (error) {
-      if (error instanceof Error) {
+      // FastAPI validation errors go under their fields
+      const fieldErrors = getFieldErrors(error, ['full_name', 'email', 'phone_number', 'password'] as const)
+      if (Object.keys(fieldErrors).length > 0) {
+        setErrors(prev => ({ ...prev, ...fieldErrors }))
+      } else if (error instanceof Error) {
         setSubmitError(error.message)
       } else {
         setSubmitError('An unexpected error occurred')
@@ -1,14 +1,25 @@
 import { createFileRoute } from '@tanstack/react-router'
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { ClientOnly } from '@tanstack/react-router'
 import { MapContainer, TileLayer, WMSTileLayer, Marker, Popup } from 'react-leaflet'
 import { useTideData } from '~/hooks/useTideData'
 import { useStations } from '~/hooks/useStations'
+import { useLayerRegistry } from '~/hooks/useLayerRegistry'
 import L from 'leaflet'
 import { WaterLevelChart } from '~/components/WaterLevelChart'
 import TideMonitoringSiteCategories from '~/components/ui/TideMonitoringSiteCategories'
-import { fetchStationWaterLevel } from '../api/stations'
-import type { WaterLevelPrediction, WaterLevelObservation } from '../types/map'
+import { MultiStationChart } from '~/components/MultiStationChart'
+import { ExportMenu } from '~/components/ui/ExportMenu'
+import { useStationTimeZone } from '~/hooks/useStationTimeZone'
+import { useStationWaterLevel, useStationsWaterLevel, usePrefetchStationWaterLevel } from '~/hooks/useStationWaterLevel'
+import { addDays, getTodayValue, type DateRange } from '~/utils/dateRange'
+import { useUnits } from '~/contexts/UnitsContext'
+import { convertLength, formatLength } from '~/utils/units'
+import { MAX_COMPARED_STATIONS, type ComparedStation } from '~/utils/stationCompare'
+import { exportDataset, type ExportFormat } from '~/utils/dataExport'
+import { buildStationDataset, STATION_EXPORT_COLUMNS, DEFAULT_STATION_EXPORT_COLUMNS, type StationExportColumn } from '~/utils/stationExport'
+import { useWaterLevelDisplay } from '~/hooks/useWaterLevelDisplay'
+import type { WaterLevelResponse } from '../types/map'
 export const Route = createFileRoute('/water-level')({
   component: HomePage,
 })
@@ -52,32 +63,10 @@ const createCircularMarkerIcon = (value: number) => {
   return null
 }
 
-const WMS_LAYERS = [
-  {
-    id: 'raster_data_1',
-    name: 'Raster Data 1',
-    url: import.meta.env.VITE_GEOSERVER_BASE_URL,
-    layers: 'flood-app:NorflokDEM10m_Prj1',
-    format: 'image/png',
-    transparent: true,
-    version: '1.3.0',
-    zIndex: 502,
-  },
-  {
-    id: 'raster_data_2',
-    name: 'Raster Data 2',
-    url: import.meta.env.VITE_GEOSERVER_BASE_URL,
-    layers: 'flood-app:NorflokDEM10m_Prj2',
-    format: 'image/png',
-    transparent: true,
-    version: '1.3.0',
-    zIndex: 501,
-  }
-] as const
-
 function HomePage() {
   const [selectedStationId, setSelectedStationId] = useState<string | null>(null)
   const [selectedStationName, setSelectedStationName] = useState('')
+  const { unit } = useUnits()
 
   const { data: tideData, isLoading: isTideLoading, error: tideError } = useTideData(
     selectedStationId,
@@ -102,71 +91,88 @@ function HomePage() {
   )
 }
 
+// Stable empty value so the comparison chart doesn't recompute while loading
+const NO_COMPARISON_DATA: WaterLevelResponse['saved_files'] = {}
+
+// 7 days before and after today in the display zone, as YYYY-MM-DD
+const getDefaultDateRange = (timeZone: string): DateRange => {
+  const today = getTodayValue(new Date(), timeZone)
+  return { start: addDays(today, -7), end: addDays(today, 7) }
+}
+
 function MapComponent() {
   const [selectedStationId, setSelectedStationId] = useState<string | null>(null)
   const [selectedStationName, setSelectedStationName] = useState('')
-  const [predictions, setPredictions] = useState<WaterLevelPrediction[]>([])
-  const [observations, setObservations] = useState<WaterLevelObservation[]>([])
-  const [isWaterLevelLoading, setIsWaterLevelLoading] = useState(false)
-  const [waterLevelError, setWaterLevelError] = useState<Error | null>(null)
+  const [selectedStationLng, setSelectedStationLng] = useState<number | undefined>(undefined)
+  const { unit } = useUnits()
+  // The longitude gives a station-time estimate until the metadata loads
+  const timeZone = useStationTimeZone(selectedStationId, selectedStationLng)
+  // Recomputed with the zone so the window follows the display day
+  const dateRange = useMemo(() => getDefaultDateRange(timeZone.zone), [timeZone.zone])
+  const {
+    predictions,
+    observations,
+    isLoading: isWaterLevelLoading,
+    error: waterLevelError,
+    refetch: refetchWaterLevel,
+  } = useStationWaterLevel(selectedStationId, dateRange, timeZone.zone)
+  const { valueOf, datum } = useWaterLevelDisplay(selectedStationId, predictions, observations)
+  const prefetchWaterLevel = usePrefetchStationWaterLevel()
+
+  const handleExport = (format: ExportFormat, columns: StationExportColumn[]) => {
+    if (!selectedStationId) return
+    exportDataset(buildStationDataset({
+      stationId: selectedStationId,
+      stationName: selectedStationName,
+      predictions,
+      observations,
+      valueOf,
+      unit,
+      datum,
+      range: dateRange,
+      columns,
+      timeZone,
+    }), format)
+  }
 
   const { data: tideData, isLoading: isTideLoading, error: tideError } = useTideData(
     selectedStationId,
     { days: 7, enabled: !!selectedStationId }
   )
 
-  const handleStationClick = (stationId: string, stationName: string) => {
+  const handleStationClick = (stationId: string, stationName: string, lng?: number) => {
     setSelectedStationId(stationId)
     setSelectedStationName(stationName)
+    setSelectedStationLng(lng)
   }
 
-  // Fetch water level data when station is selected
-  useEffect(() => {
-    const fetchData = async () => {
-      if (!selectedStationId) return
-
-      try {
-        setIsWaterLevelLoading(true)
-        setWaterLevelError(null)
-
-        // Calculate date range (7 days before and after today)
-        const today = new Date()
-        const startDate = new Date(today)
-        startDate.setDate(today.getDate() - 7)
-        const endDate = new Date(today)
-        endDate.setDate(today.getDate() + 7)
-
-        const startDateStr = startDate.toISOString().split('T')[0]
-        const endDateStr = endDate.toISOString().split('T')[0]
-
-        console.log('🔄 Fetching water level data for station:', { selectedStationId, startDateStr, endDateStr })
-        const response = await fetchStationWaterLevel(selectedStationId, startDateStr, endDateStr)
-        console.log('✅ Water level data received:', response)
-
-        // Extract predictions and observations for the selected station
-        const stationData = response.saved_files[selectedStationId]
-        if (stationData) {
-          setPredictions(stationData.predictions || [])
-          setObservations(stationData.observations || [])
-        } else {
-          setPredictions([])
-          setObservations([])
-        }
-      } catch (error) {
-        console.error('❌ Error fetching water level data:', error)
-        setWaterLevelError(error as Error)
-        setPredictions([])
-        setObservations([])
-      } finally {
-        setIsWaterLevelLoading(false)
-      }
-    }
+  // Stations picked for the overlay comparison (fetched together once there are two)
+  const [comparedStations, setComparedStations] = useState<ComparedStation[]>([])
+  // Compared stations share one time axis, in the first station's zone
+  const comparisonTimeZone = useStationTimeZone(comparedStations[0]?.id, comparedStations[0]?.lng)
+  const comparisonRange = useMemo(() => getDefaultDateRange(comparisonTimeZone.zone), [comparisonTimeZone.zone])
+  // One batched request for all compared stations
+  const {
+    data: comparisonData,
+    isLoading: isComparisonLoading,
+    error: comparisonError,
+  } = useStationsWaterLevel(
+    comparedStations.length >= 2 ? comparedStations.map((station) => station.id) : [],
+    comparisonRange,
+    comparisonTimeZone.zone
+  )
+
+  const toggleComparedStation = (stationId: string, stationName: string, lng?: number) => {
+    setComparedStations((prev) => prev.some((station) => station.id === stationId)
+      ? prev.filter((station) => station.id !== stationId)
+      : prev.length < MAX_COMPARED_STATIONS ? [...prev, { id: stationId, name: stationName, lng }] : prev)
+  }
 
-    fetchData()
-  }, [selectedStationId])
 
 
   const { data: stationsData, isLoading, error } = useStations()
+  const { layers } = useLayerRegistry()
+  const elevationLayers = layers.filter((layer) => layer.category === 'elevation')
   const [isMapReady, setIsMapReady] = useState(false)
   const mapRef = useRef(null)
 
@@ -237,7 +243,7 @@ function MapComponent() {
           />
 
           {/* WMS Layers */}
-          {WMS_LAYERS.map((layer) => 
+          {elevationLayers.map((layer) => 
             (
               <WMSTileLayer
                 key={layer.id}
@@ -250,7 +256,9 @@ function MapComponent() {
             )
           )}
               {isMapReady && stationsData?.features?.map((station) => {
-                const circularIcon = createCircularMarkerIcon(station.properties.value || 0)
+                // Station values are reported in feet
+                const stationValue = convertLength(station.properties.value || 0, 'ft', unit)
+                const circularIcon = createCircularMarkerIcon(Number(stationValue.toFixed(2)))
                 return (
                   <Marker
                     key={station.properties.id}
@@ -260,7 +268,9 @@ function MapComponent() {
                     ]}
                     icon={circularIcon || undefined}
                     eventHandlers={{
-                      click: () => handleStationClick(station.properties.id, station.properties.name)
+                      click: () => handleStationClick(station.properties.id, station.properties.name, station.geometry.coordinates[0]),
+                      // Start loading before the click so the chart opens from cache
+                      mouseover: () => prefetchWaterLevel(station.properties.id, getDefaultDateRange, station.geometry.coordinates[0])
                     }}
                   >
                     <Popup>
@@ -268,13 +278,25 @@ function MapComponent() {
                         <h3 className="font-semibold">{station.properties.name}</h3>
                         <p className="text-gray-600">ID: {station.properties.id}</p>
                         <p className="text-gray-600">Status: {station.properties.status}</p>
-                        <p className="text-gray-600">Value: {station.properties.value || 0}</p>
+                        <p className="text-gray-600">Value: {formatLength(stationValue, unit)}</p>
                         <button
-                          onClick={() => handleStationClick(station.properties.id, station.properties.name)}
+                          onClick={() => handleStationClick(station.properties.id, station.properties.name, station.geometry.coordinates[0])}
                           className="mt-2 px-3 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700"
                         >
                           View Tide Data
                         </button>
+                        {(() => {
+                          const isCompared = comparedStations.some((item) => item.id === station.properties.id)
+                          return (
+                            <button
+                              onClick={() => toggleComparedStation(station.properties.id, station.properties.name, station.geometry.coordinates[0])}
+                              disabled={!isCompared && comparedStations.length >= MAX_COMPARED_STATIONS}
+                              className="mt-2 ml-2 px-3 py-1 border border-blue-600 text-blue-600 rounded text-xs hover:bg-blue-50 disabled:opacity-40"
+                            >
+                              {isCompared ? 'Remove from Comparison' : 'Add to Comparison'}
+                            </button>
+                          )
+                        })()}
                       </div>
                     </Popup>
                   </Marker>
@@ -284,6 +306,15 @@ function MapComponent() {
     </div>
 
 
+            {/* Comparison Indicator (needs a second station) */}
+            {comparedStations.length === 1 && (
+        <div className="absolute top-4 right-4 bg-white p-3 rounded-md shadow-md z-[1000]">
+          <p className="text-sm text-gray-700">
+            Comparing {comparedStations[0].name}, add another station to overlay
+          </p>
+        </div>
+      )}
+
             {/* Selected Station Indicator */}
             {selectedStationId && (
         <div className="absolute bottom-4 left-4 bg-white p-3 rounded-md shadow-md z-[1000]">
@@ -296,17 +327,42 @@ function MapComponent() {
 
 
     {/* Charts Section - Lower Half */}
-    <div className="flex-1 min-h-0 bg-gray-50 p-4">
-        {selectedStationId ? (
+    <div className="flex-1 min-h-0 bg-gray-50 p-4 overflow-y-auto">
+        {comparedStations.length >= 2 ? (
+          <div className="w-full max-w-6xl mx-auto">
+            {comparisonError && (
+              <p className="mb-2 text-sm text-red-600">Error loading comparison: {comparisonError.message}</p>
+            )}
+            <MultiStationChart
+              stations={comparedStations}
+              data={comparisonData?.saved_files ?? NO_COMPARISON_DATA}
+              dateRange={comparisonData?.date_range}
+              loading={isComparisonLoading}
+              timeZone={comparisonTimeZone}
+              onRemoveStation={(stationId) => setComparedStations((prev) => prev.filter((station) => station.id !== stationId))}
+            />
+          </div>
+        ) : selectedStationId ? (
           <div className="h-full flex items-center justify-center p-4">
             {/* Water Level Chart */}
             <div className="w-full max-w-6xl">
+              <div className="flex justify-end mb-2">
+                <ExportMenu
+                  onExport={handleExport}
+                  columns={STATION_EXPORT_COLUMNS}
+                  defaultColumns={DEFAULT_STATION_EXPORT_COLUMNS}
+                  disabled={isWaterLevelLoading || (predictions.length === 0 && observations.length === 0)}
+                  label="Export"
+                  buttonClassName="px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-40"
+                />
+              </div>
               <WaterLevelChart
                 predictions={predictions}
                 observations={observations}
                 title={`Water Level Data - ${selectedStationName}`}
                 loading={isWaterLevelLoading}
                 stationId={selectedStationId}
+                timeZone={timeZone}
               />
             </div>
           </div>
@@ -336,7 +392,7 @@ function MapComponent() {
               <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Data</h3>
               <p className="text-gray-600">{waterLevelError.message}</p>
               <button
-                onClick={() => selectedStationId && handleStationClick(selectedStationId, selectedStationName)}
+                onClick={() => refetchWaterLevel()}
                 className="mt-4 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
               >
                 Retry
@@ -0,0 +1,24 @@
+// Saved map view (bookmark) type definitions
+
+import type { MapSearch } from '../utils/mapSearch'
+
+// Map state stored with a bookmark (extent, layers, base map and comparison setup)
+export type BookmarkView = Pick<MapSearch, 'lat' | 'lng' | 'zoom' | 'base' | 'layer' | 'overlays' | 'compare'>
+
+export interface MapBookmark {
+  id: number
+  name: string
+  view: BookmarkView
+  created_at: string
+  updated_at: string
+}
+
+export interface CreateBookmarkRequest {
+  name: string
+  view: BookmarkView
+}
+
+export interface UpdateBookmarkRequest {
+  name?: string
+  view?: BookmarkView
+}
@@ -1,3 +1,9 @@
+// Google base map variants offered by the LayerSwitcher
+export type BaseLayerType = 'default' | 'satellite' | 'terrain'
+
+// How a WMS overlay is toggled in the LayerController
+export type MapLayerGroup = 'radio' | 'checkbox'
+
 export interface MapLayer {
   id: string
   name: string
@@ -13,6 +19,10 @@ export interface MapLayer {
   version?: string // For WMS layers
   transparent?: boolean
   bounds?: [[number, number], [number, number]] // SW, NE corners
+  group?: MapLayerGroup // Omitted for layers not shown in the LayerController
+  zIndex?: number
+  queryable?: boolean // Included in pen mode GetFeatureInfo depth queries
+  defaultVisible?: boolean
   metadata?: {
     source?: string
     lastUpdated?: string
@@ -27,6 +37,46 @@ export interface MapLayersResponse {
   message?: string
 }
 
+// WMS overlay resolved from the layer catalog with defaults applied
+export interface WMSLayerConfig {
+  id: string
+  name: string
+  url: string
+  layers: string
+  format: string
+  transparent: boolean
+  version: string
+  zIndex: number
+  group?: MapLayerGroup
+  queryable: boolean
+  defaultVisible: boolean
+  category?: string
+  bounds?: [[number, number], [number, number]]
+  source?: 'catalog' | 'capabilities' // Capabilities layers are added by the user from the layer browser
+}
+
+// User-adjusted display settings for an active WMS layer
+export interface LayerDisplaySettings {
+  opacity: number // 0-1
+  zIndex?: number // Overrides the catalog zIndex after drag-to-reorder
+  style?: string // WMS STYLES parameter (empty = layer default)
+}
+
+// Labelled depth reading kept in probe mode
+export interface DepthProbe {
+  id: string
+  label: string
+  lat: number
+  lng: number
+  layer: string | null // GeoServer layer the depth was read from
+  depth: number | null // null = NoData at this point
+  unit: string
+  timestamp: string // ISO time the reading was taken
+  forecastTime?: string // WMS TIME queried, for time-enabled layers
+  status: 'loading' | 'ready' | 'error'
+  error?: string
+}
+
 export interface CompareMapData {
   leftLayer: MapLayer
   rightLayer: MapLayer
@@ -44,11 +94,11 @@ export interface SideBySideOptions {
 export interface StationProperties {
   StationID: string
   Station: string
-  time: string
-  v: number
-  v_navd: number
-  used_datum: string
-  pred_type: string
+  time?: string
+  v?: number | null
+  v_navd?: number | null
+  used_datum?: string
+  pred_type?: string
 }
 
 export interface StationGeometry {
@@ -58,26 +108,16 @@ export interface StationGeometry {
 
 export interface StationFeature {
   type: 'Feature'
-  id: string
+  id?: string
   geometry: StationGeometry
-  geometry_name: string
   properties: StationProperties
-  bbox: [number, number, number, number]
 }
 
+// Fields the station popup reads; GeoServer's other members are kept as-is
 export interface StationClickResponse {
   type: 'FeatureCollection'
   features: StationFeature[]
-  totalFeatures: string
-  numberReturned: number
   timeStamp: string
-  crs: {
-    type: 'name'
-    properties: {
-      name: string
-    }
-  }
-  bbox: [number, number, number, number]
 }
 
 // Click parameters for GetFeatureInfo request
@@ -96,7 +136,7 @@ export interface WaterLevelPrediction {
   station_id: string
   t: string
   v: number
-  v_navd: number
+  v_navd: number | null
   type: string
   used_datum: string
 }
@@ -0,0 +1,35 @@
+// NOAA CO-OPS metadata API (mdapi) payloads, as far as the app reads them
+
+export interface NoaaDatum {
+  name: string // e.g. "MLLW", "NAVD88"
+  value?: number | null // Feet above the station datum
+}
+
+export interface NoaaDatumsResponse {
+  datums?: NoaaDatum[] | null
+}
+
+// Flood thresholds above the station datum; NWS and NOS publish separate sets
+export interface NoaaFloodLevelsResponse {
+  nws_action?: number | null
+  action?: number | null
+  nws_minor?: number | null
+  nos_minor?: number | null
+  minor?: number | null
+  nws_moderate?: number | null
+  nos_moderate?: number | null
+  moderate?: number | null
+  nws_major?: number | null
+  nos_major?: number | null
+  major?: number | null
+}
+
+export interface NoaaStation {
+  timezonecorr?: number | null // Standard time offset from UTC in hours
+  observedst?: boolean | null
+  timezone?: string | null // Standard time name (e.g. "EST")
+}
+
+export interface NoaaStationResponse {
+  stations?: NoaaStation[]
+}
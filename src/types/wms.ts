@@ -0,0 +1,67 @@
+// WMS GetCapabilities and GetFeatureInfo type definitions
+
+export interface WMSBoundingBox {
+  west: number
+  south: number
+  east: number
+  north: number
+}
+
+export interface WMSStyle {
+  name: string
+  title: string
+  abstract?: string
+  legendUrl?: string
+}
+
+export interface WMSTimeDimension {
+  values: string[] // ISO 8601 instants, ascending
+  default?: string
+  units?: string
+}
+
+export interface WMSCapabilityLayer {
+  name: string // Workspace-qualified name (e.g. "flood-app:rendered_noaa_wse")
+  title: string
+  abstract: string
+  keywords: string[]
+  queryable: boolean
+  bbox?: WMSBoundingBox // EPSG:4326 geographic extent
+  styles: WMSStyle[]
+  time?: WMSTimeDimension
+}
+
+export interface WMSCapabilities {
+  version: string
+  title: string
+  layers: WMSCapabilityLayer[]
+}
+
+// GetFeatureInfo INFO_FORMAT values the client can parse
+export type FeatureInfoFormat = 'application/json' | 'application/vnd.ogc.gml' | 'text/plain'
+
+export interface FeatureInfoFeature {
+  id?: string
+  layer?: string // Layer (feature type) name as reported by the server, unqualified
+  properties: Record<string, string | number | boolean | null>
+  geometry?: unknown // GeoJSON geometry (JSON format only)
+}
+
+export interface FeatureInfoResponse {
+  format: FeatureInfoFormat // Format the server actually answered in
+  features: FeatureInfoFeature[]
+  raw?: unknown // Parsed JSON document (JSON format only)
+}
+
+export interface FeatureInfoRequest {
+  layers: string[]
+  bbox: string // minX,minY,maxX,maxY in EPSG:4326
+  width: number
+  height: number
+  x: number // Pixel column of the queried point
+  y: number // Pixel row of the queried point
+  time?: string | null
+  featureCount?: number
+  formats?: FeatureInfoFormat[] // Tried in order until the server accepts one
+  signal?: AbortSignal
+}
@@ -0,0 +1,27 @@
+/**
+ * Run an async task for every item with at most `limit` tasks in flight
+ * Results keep the input order. Stops starting new tasks once `signal` aborts
+ * and rejects with the abort reason; the first task error rejects the whole run.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const results = new Array<R>(items.length)
+  let nextIndex = 0
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      signal?.throwIfAborted()
+      const index = nextIndex++
+      results[index] = await task(items[index], index)
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(limit, items.length))
+  await Promise.all(Array.from({ length: workerCount }, worker))
+  signal?.throwIfAborted()
+  return results
+}
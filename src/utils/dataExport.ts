@@ -0,0 +1,153 @@
+// Shared data export: CF-style CSV, JSON and XLSX from one dataset description
+import { createXlsxBlob, type XlsxCell } from './xlsx'
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json'
+
+export const EXPORT_FORMATS: Array<{ value: ExportFormat; label: string; extension: string; mimeType: string }> = [
+  { value: 'csv', label: 'CSV (CF metadata header)', extension: 'csv', mimeType: 'text/csv;charset=utf-8;' },
+  { value: 'xlsx', label: 'Excel workbook', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  { value: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+]
+
+export type ExportValue = string | number | null | undefined
+
+export interface ExportColumn {
+  key: string
+  label: string
+  units?: string
+  description?: string
+}
+
+export interface ExportTable {
+  name: string // Series name; one XLSX sheet per table
+  columns: ExportColumn[]
+  rows: Array<Record<string, ExportValue>>
+}
+
+export interface ExportDataset {
+  filename: string // Without extension
+  metadata: Record<string, ExportValue> // Global attributes (station, datum, units, time zone, source...)
+  tables: ExportTable[]
+}
+
+const CONVENTIONS = 'CF-1.8'
+
+// Quote a CSV field when it contains a delimiter, quote or newline
+export const csvField = (value: ExportValue): string => {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const describeColumn = (column: ExportColumn) => {
+  const units = column.units ? ` [${column.units}]` : ''
+  return `${column.label}${units}${column.description ? `: ${column.description}` : ''}`
+}
+
+/**
+ * CSV with CF-style global attributes and column descriptions as "#" header lines
+ * Several tables are stacked in long form with a leading "series" column.
+ */
+export const datasetToCSV = (dataset: ExportDataset): string => {
+  const columns: ExportColumn[] = []
+  for (const table of dataset.tables) {
+    for (const column of table.columns) {
+      if (!columns.some((item) => item.key === column.key)) columns.push(column)
+    }
+  }
+  const isStacked = dataset.tables.length > 1
+
+  const header = [
+    `# Conventions: ${CONVENTIONS}`,
+    ...Object.entries(dataset.metadata)
+      .filter(([, value]) => value !== null && value !== undefined && value !== '')
+      .map(([key, value]) => `# ${key}: ${value}`),
+    ...columns.map((column) => `# column ${column.key}: ${describeColumn(column)}`),
+  ]
+
+  const names = [...(isStacked ? ['series'] : []), ...columns.map((column) => column.key)]
+  const rows = dataset.tables.flatMap((table) => table.rows.map((row) => [
+    ...(isStacked ? [csvField(table.name)] : []),
+    ...columns.map((column) => csvField(row[column.key])),
+  ].join(',')))
+
+  return [...header, names.join(','), ...rows].join('\n')
+}
+
+/**
+ * JSON with metadata, column descriptions and rows per table
+ */
+export const datasetToJSON = (dataset: ExportDataset): string => {
+  return JSON.stringify({
+    metadata: { Conventions: CONVENTIONS, ...dataset.metadata },
+    tables: dataset.tables.map((table) => ({
+      name: table.name,
+      columns: table.columns,
+      rows: table.rows.map((row) => Object.fromEntries(table.columns.map((column) => [column.key, row[column.key] ?? null]))),
+    })),
+  }, null, 2)
+}
+
+/**
+ * Excel workbook: a Metadata sheet, then one sheet per table
+ */
+export const datasetToXlsx = (dataset: ExportDataset): Blob => {
+  const metadataRows: XlsxCell[][] = [
+    ['Attribute', 'Value'],
+    ['Conventions', CONVENTIONS],
+    ...Object.entries(dataset.metadata).map(([key, value]) => [key, value]),
+    [],
+    ['Column', 'Description'],
+    ...dataset.tables.flatMap((table) => table.columns.map((column) => [`${table.name}.${column.key}`, describeColumn(column)])),
+  ]
+
+  return createXlsxBlob([
+    { name: 'Metadata', rows: metadataRows },
+    ...dataset.tables.map((table) => ({
+      name: table.name,
+      rows: [
+        table.columns.map((column) => (column.units ? `${column.label} (${column.units})` : column.label)),
+        ...table.rows.map((row) => table.columns.map((column) => row[column.key])),
+      ],
+    })),
+  ])
+}
+
+/**
+ * Trigger a browser download for a Blob
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const link = document.createElement('a')
+  const url = URL.createObjectURL(blob)
+
+  link.setAttribute('href', url)
+  link.setAttribute('download', filename)
+  link.style.visibility = 'hidden'
+
+  document.body.appendChild(link)
+  link.click()
+
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Trigger a browser download for generated text content
+ */
+export const downloadTextFile = (content: string, filename: string, mimeType: string) => {
+  downloadBlob(new Blob([content], { type: mimeType }), filename)
+}
+
+/**
+ * Download a dataset in the chosen format
+ */
+export const exportDataset = (dataset: ExportDataset, format: ExportFormat) => {
+  const { extension, mimeType } = EXPORT_FORMATS.find((item) => item.value === format) ?? EXPORT_FORMATS[0]
+  const filename = `${dataset.filename}.${extension}`
+
+  if (format === 'xlsx') {
+    downloadBlob(datasetToXlsx(dataset), filename)
+  } else {
+    downloadTextFile(format === 'json' ? datasetToJSON(dataset) : datasetToCSV(dataset), filename, mimeType)
+  }
+}
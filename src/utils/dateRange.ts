@@ -0,0 +1,129 @@
+// Station data date ranges: presets, validation and chunking for long requests
+import { formatZonedDate, getZonedToday, startOfZonedDay } from './timeZone'
+
+export interface DateRange {
+  start: string // YYYY-MM-DD
+  end: string // YYYY-MM-DD
+}
+
+export type DateRangePreset = 'yesterdayToday' | 'last7d' | 'next2d' | 'storm'
+
+// Presets are whole calendar days in the display zone, so labels name days rather than hours
+export const DATE_RANGE_PRESETS: Array<{ value: DateRangePreset; label: string; description: string }> = [
+  { value: 'yesterdayToday', label: 'Yesterday & today', description: 'Yesterday and today' },
+  { value: 'last7d', label: 'Last 7 days', description: 'Today and the six days before it' },
+  { value: 'next2d', label: 'Next 2 days', description: 'Forecast predictions for today and the next two days' },
+  { value: 'storm', label: 'Storm Window', description: 'Three days back to two days ahead' },
+]
+
+export const MIN_RANGE_DATE = '2010-01-01' // Earliest data the backend serves
+export const MAX_RANGE_DAYS = 366 // Longest span a user can request
+export const MAX_FUTURE_DAYS = 365 // Predictions are available up to a year ahead
+export const RANGE_CHUNK_DAYS = 30 // NOAA serves 6-minute data in spans of about a month
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export const formatDateValue = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+// Parse YYYY-MM-DD at local midnight (Date's own parser would use UTC)
+const parseDateValue = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (!match) return null
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Shift a YYYY-MM-DD date by whole days
+ */
+export const addDays = (value: string, days: number): string => {
+  const date = parseDateValue(value) ?? new Date()
+  date.setDate(date.getDate() + days)
+  return formatDateValue(date)
+}
+
+/**
+ * Days from start to end (0 for a single day)
+ */
+export const getRangeDays = ({ start, end }: DateRange): number => {
+  const startDate = parseDateValue(start)
+  const endDate = parseDateValue(end)
+  if (!startDate || !endDate) return 0
+  return Math.round((endDate.getTime() - startDate.getTime()) / DAY_MS)
+}
+
+/**
+ * Today as YYYY-MM-DD in the display zone, or the device's zone when none is given
+ */
+export const getTodayValue = (now = new Date(), timeZone?: string): string => {
+  return timeZone ? getZonedToday(timeZone, now) : formatDateValue(now)
+}
+
+/**
+ * Date range for a preset, relative to `now` in the display zone
+ */
+export const getPresetRange = (preset: DateRangePreset, now = new Date(), timeZone?: string): DateRange => {
+  const today = getTodayValue(now, timeZone)
+  switch (preset) {
+    case 'yesterdayToday':
+      return { start: addDays(today, -1), end: today }
+    case 'last7d':
+      return { start: addDays(today, -6), end: today }
+    case 'next2d':
+      return { start: today, end: addDays(today, 2) }
+    case 'storm':
+      return { start: addDays(today, -3), end: addDays(today, 2) }
+  }
+}
+
+/**
+ * Why a range can't be requested, or null when it is valid
+ */
+export const validateDateRange = (range: DateRange, now = new Date(), timeZone?: string): string | null => {
+  if (!range.start || !range.end) return 'Select a start and end date'
+  if (!parseDateValue(range.start) || !parseDateValue(range.end)) return 'Dates must be YYYY-MM-DD'
+  if (range.start < MIN_RANGE_DATE) return `Data starts on ${MIN_RANGE_DATE}`
+  if (range.end < range.start) return 'End date must be on or after the start date'
+  if (getRangeDays(range) > MAX_RANGE_DAYS) return `Ranges can span at most ${MAX_RANGE_DAYS} days`
+  if (range.end > addDays(getTodayValue(now, timeZone), MAX_FUTURE_DAYS)) return `Predictions are available up to ${MAX_FUTURE_DAYS} days ahead`
+  return null
+}
+
+/**
+ * Split a range into consecutive chunks of at most `chunkDays`
+ * Chunks share their boundary day, so nothing is missed whether the API treats
+ * end dates as inclusive or exclusive; callers dedupe records by timestamp.
+ */
+export const splitDateRange = (range: DateRange, chunkDays = RANGE_CHUNK_DAYS): DateRange[] => {
+  const chunks: DateRange[] = []
+  let start = range.start
+  while (start < range.end || chunks.length === 0) {
+    const chunkEnd = addDays(start, chunkDays)
+    const end = chunkEnd < range.end ? chunkEnd : range.end
+    chunks.push({ start, end })
+    start = end
+  }
+  return chunks
+}
+
+/**
+ * A range of calendar days in the display zone, as the API sees it
+ * The API takes whole GMT days, so the request covers every GMT day the local
+ * days touch; `startMs`/`endMs` bound the records to keep (end exclusive).
+ */
+export const toApiDateRange = (range: DateRange, timeZone: string): { request: DateRange; startMs: number; endMs: number } => {
+  const startMs = startOfZonedDay(range.start, timeZone)
+  const endMs = startOfZonedDay(addDays(range.end, 1), timeZone)
+  return {
+    request: { start: formatZonedDate(startMs, 'UTC'), end: formatZonedDate(endMs - 1, 'UTC') },
+    startMs,
+    endMs,
+  }
+}
@@ -0,0 +1,150 @@
+// Chart downsampling: Largest-Triangle-Three-Buckets over gap-separated segments
+
+export interface SeriesPoint {
+  x: number
+  y: number | null // null = gap break, always kept
+}
+
+export interface DownsampleOptions {
+  keep?: (index: number) => boolean // Points that must survive (e.g. flagged observations)
+}
+
+// Below this many points a series is drawn as-is
+export const MIN_DOWNSAMPLE_POINTS = 100
+
+/**
+ * LTTB over points[start, end) (no nulls), returning kept indices
+ * Keeps the first and last point; each bucket keeps the point forming the
+ * largest triangle with the previous kept point and the next bucket's average.
+ */
+const lttbSegment = (points: SeriesPoint[], start: number, end: number, threshold: number): number[] => {
+  const length = end - start
+  if (threshold >= length || threshold < 3) {
+    return threshold < 3 && length > 2
+      ? [start, end - 1]
+      : Array.from({ length }, (_, index) => start + index)
+  }
+
+  const indices = [start]
+  const bucketSize = (length - 2) / (threshold - 2)
+  let previous = start
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    const bucketStart = start + 1 + Math.floor(bucket * bucketSize)
+    const bucketEnd = start + 1 + Math.floor((bucket + 1) * bucketSize)
+
+    // Average of the next bucket (the last point for the final bucket)
+    const nextStart = bucketEnd
+    const nextEnd = Math.min(start + 1 + Math.floor((bucket + 2) * bucketSize), end)
+    let avgX = 0
+    let avgY = 0
+    const nextCount = Math.max(1, nextEnd - nextStart)
+    for (let index = nextStart; index < nextStart + nextCount && index < end; index++) {
+      avgX += points[index].x
+      avgY += points[index].y as number
+    }
+    avgX /= nextCount
+    avgY /= nextCount
+
+    const a = points[previous]
+    let maxArea = -1
+    let chosen = bucketStart
+    for (let index = bucketStart; index < bucketEnd; index++) {
+      const area = Math.abs(
+        (a.x - avgX) * ((points[index].y as number) - (a.y as number))
+        - (a.x - points[index].x) * (avgY - (a.y as number))
+      )
+      if (area > maxArea) {
+        maxArea = area
+        chosen = index
+      }
+    }
+
+    indices.push(chosen)
+    previous = chosen
+  }
+
+  indices.push(end - 1)
+  return indices
+}
+
+/**
+ * Indices of the points to draw for a target point count
+ * Each run between gap breaks gets a share of the budget by length, so gaps
+ * stay visible; indices from `keep` are merged back in.
+ */
+export const downsampleIndices = (points: SeriesPoint[], threshold: number, options: DownsampleOptions = {}): number[] => {
+  if (points.length <= Math.max(threshold, MIN_DOWNSAMPLE_POINTS)) {
+    return points.map((_, index) => index)
+  }
+
+  const kept: number[] = []
+  const valueCount = points.filter((point) => point.y !== null).length
+  let segmentStart = -1
+
+  const flush = (end: number) => {
+    if (segmentStart < 0) return
+    const share = Math.max(2, Math.round((threshold * (end - segmentStart)) / Math.max(1, valueCount)))
+    kept.push(...lttbSegment(points, segmentStart, end, share))
+    segmentStart = -1
+  }
+
+  points.forEach((point, index) => {
+    if (point.y === null) {
+      flush(index)
+      kept.push(index)
+    } else if (segmentStart < 0) {
+      segmentStart = index
+    }
+  })
+  flush(points.length)
+
+  if (options.keep) {
+    const present = new Set(kept)
+    points.forEach((_, index) => {
+      if (!present.has(index) && options.keep?.(index)) kept.push(index)
+    })
+    kept.sort((a, b) => a - b)
+  }
+
+  return kept
+}
+
+/**
+ * Downsample for the visible window: full budget inside `view`, the overview
+ * elsewhere, so panning out of a zoomed window still shows the whole series.
+ */
+export const downsampleForView = (
+  points: SeriesPoint[],
+  threshold: number,
+  view: { min: number; max: number } | null,
+  options: DownsampleOptions = {}
+): number[] => {
+  if (!view || points.length === 0) return downsampleIndices(points, threshold, options)
+
+  // One point beyond each edge keeps the line running off the plot
+  let first = points.findIndex((point) => point.x >= view.min)
+  if (first < 0) first = points.length
+  let last = points.length - 1
+  while (last >= 0 && points[last].x > view.max) last--
+  first = Math.max(0, first - 1)
+  last = Math.min(points.length - 1, last + 1)
+  if (first > last) return downsampleIndices(points, threshold, options)
+
+  const span = Math.max(1, points[points.length - 1].x - points[0].x)
+  const part = (from: number, to: number, budget: number) => {
+    const slice = points.slice(from, to)
+    return downsampleIndices(slice, budget, { keep: options.keep && ((index) => options.keep!(from + index)) })
+      .map((index) => from + index)
+  }
+  const outsideBudget = (from: number, to: number) => {
+    if (to <= from) return 0
+    return Math.max(2, Math.round((threshold * (points[to - 1].x - points[from].x)) / span))
+  }
+
+  return [
+    ...part(0, first, outsideBudget(0, first)),
+    ...part(first, last + 1, threshold),
+    ...part(last + 1, points.length, outsideBudget(last + 1, points.length)),
+  ]
+}
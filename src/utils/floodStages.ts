@@ -0,0 +1,142 @@
+// Flood stage thresholds and exceedance detection for water level series
+import type { VerticalDatum } from './units'
+
+export type FloodStageLevel = 'action' | 'minor' | 'moderate' | 'major'
+
+// Lowest to highest, colored like NWS hydrograph categories
+export const FLOOD_STAGE_LEVELS: Array<{ value: FloodStageLevel; label: string; color: string }> = [
+  { value: 'action', label: 'Action', color: '#EAB308' },
+  { value: 'minor', label: 'Minor', color: '#F97316' },
+  { value: 'moderate', label: 'Moderate', color: '#EF4444' },
+  { value: 'major', label: 'Major', color: '#A855F7' },
+]
+
+export type FloodStageValues = Partial<Record<FloodStageLevel, number>>
+
+// Thresholds in feet above `datum`
+export interface StationFloodStages {
+  datum: VerticalDatum
+  stages: FloodStageValues
+}
+
+export interface TimeValue {
+  t: number // Epoch milliseconds
+  v: number | null
+}
+
+export interface ExceedancePeriod {
+  start: number // Interpolated crossing times
+  end: number
+  level: FloodStageLevel // Highest stage reached in the period
+  peak: number
+  peakTime: number
+}
+
+export interface ExceedanceSummary {
+  peak: { value: number; time: number } | null
+  highestLevel: FloodStageLevel | null
+  firstCrossings: Partial<Record<FloodStageLevel, number>> // First time each stage was reached
+  periods: ExceedancePeriod[] // Periods above the lowest stage
+}
+
+export const getStageColor = (level: FloodStageLevel): string => {
+  return FLOOD_STAGE_LEVELS.find((stage) => stage.value === level)?.color ?? '#6B7280'
+}
+
+export const getStageLabel = (level: FloodStageLevel): string => {
+  return FLOOD_STAGE_LEVELS.find((stage) => stage.value === level)?.label ?? level
+}
+
+/**
+ * Highest stage at or below a value, or null below every stage
+ */
+export const getStageAt = (value: number, stages: FloodStageValues): FloodStageLevel | null => {
+  let level: FloodStageLevel | null = null
+  for (const stage of FLOOD_STAGE_LEVELS) {
+    const threshold = stages[stage.value]
+    if (threshold !== undefined && value >= threshold) level = stage.value
+  }
+  return level
+}
+
+// Time a straight line between two points reaches `threshold`
+const interpolateTime = (a: { t: number; v: number }, b: { t: number; v: number }, threshold: number) => {
+  if (b.v === a.v) return b.t
+  return a.t + ((threshold - a.v) / (b.v - a.v)) * (b.t - a.t)
+}
+
+/**
+ * Periods where a series is at or above a threshold
+ * Crossings are interpolated between samples; a gap (null) ends a period at the last valid sample.
+ */
+export const findPeriodsAbove = (points: TimeValue[], threshold: number): Array<{ start: number; end: number }> => {
+  const periods: Array<{ start: number; end: number }> = []
+  let start: number | null = null
+  let previous: { t: number; v: number } | null = null
+
+  for (const point of points) {
+    if (point.v === null) {
+      if (start !== null && previous) periods.push({ start, end: previous.t })
+      start = null
+      previous = null
+      continue
+    }
+
+    const current = { t: point.t, v: point.v }
+    if (current.v >= threshold && start === null) {
+      start = previous ? interpolateTime(previous, current, threshold) : current.t
+    } else if (current.v < threshold && start !== null && previous) {
+      periods.push({ start, end: interpolateTime(previous, current, threshold) })
+      start = null
+    }
+    previous = current
+  }
+
+  if (start !== null && previous) periods.push({ start, end: previous.t })
+  return periods
+}
+
+/**
+ * Exceedance summary of a series against flood stages (both in the same unit and datum)
+ */
+export const summarizeExceedance = (points: TimeValue[], stages: FloodStageValues): ExceedanceSummary => {
+  const sorted = [...points].sort((a, b) => a.t - b.t)
+
+  let peak: ExceedanceSummary['peak'] = null
+  for (const point of sorted) {
+    if (point.v !== null && (!peak || point.v > peak.value)) peak = { value: point.v, time: point.t }
+  }
+
+  const firstCrossings: ExceedanceSummary['firstCrossings'] = {}
+  for (const stage of FLOOD_STAGE_LEVELS) {
+    const threshold = stages[stage.value]
+    if (threshold === undefined) continue
+    const first = findPeriodsAbove(sorted, threshold)[0]
+    if (first) firstCrossings[stage.value] = first.start
+  }
+
+  const lowest = FLOOD_STAGE_LEVELS.map((stage) => stages[stage.value]).find((value) => value !== undefined)
+  const periods: ExceedancePeriod[] = lowest === undefined ? [] : findPeriodsAbove(sorted, lowest).map(({ start, end }) => {
+    let periodPeak = { value: -Infinity, time: start }
+    for (const point of sorted) {
+      if (point.v !== null && point.t >= start && point.t <= end && point.v > periodPeak.value) {
+        periodPeak = { value: point.v, time: point.t }
+      }
+    }
+    const value = Number.isFinite(periodPeak.value) ? periodPeak.value : lowest
+    return {
+      start,
+      end,
+      level: getStageAt(value, stages) ?? 'action',
+      peak: value,
+      peakTime: periodPeak.time,
+    }
+  })
+
+  return {
+    peak,
+    highestLevel: peak ? getStageAt(peak.value, stages) : null,
+    firstCrossings,
+    periods,
+  }
+}
@@ -0,0 +1,184 @@
+import L from 'leaflet'
+
+export interface GridSamplePoint {
+  lat: number
+  lng: number
+}
+
+export interface PolygonGrid {
+  points: GridSamplePoint[]
+  cellArea: number // Square meters represented by each sample
+  spacing: number // Meters between grid points
+  area: number // Polygon area in square meters
+}
+
+export interface HistogramBin {
+  from: number
+  to: number
+  count: number
+}
+
+export interface DepthStats {
+  sampleCount: number
+  validCount: number // Samples with data (not NoData or failed)
+  floodedCount: number // Samples with depth > 0
+  min: number | null
+  max: number | null
+  mean: number | null
+  floodedShare: number // Flooded samples / valid samples (0-1)
+  floodedArea: number // Square meters
+  histogram: HistogramBin[]
+}
+
+// Upper bound on GetFeatureInfo requests per polygon
+export const MAX_POLYGON_SAMPLES = 400
+
+// Upper bound on grid cells scanned per pass (bounds the work for slivers that fill little of their box)
+const MAX_GRID_CELLS = MAX_POLYGON_SAMPLES * 16
+
+const METERS_PER_DEGREE_LAT = 111320
+
+// Ray casting point-in-polygon test (lng = x, lat = y)
+const isInsidePolygon = (lat: number, lng: number, points: L.LatLng[]): boolean => {
+  let inside = false
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i]
+    const b = points[j]
+    if ((a.lat > lat) !== (b.lat > lat) && lng < ((b.lng - a.lng) * (lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// Which side of line a-b the point c lies on (lng = x, lat = y): >0 left, <0 right, 0 on it
+const orientation = (a: L.LatLng, b: L.LatLng, c: L.LatLng): number => {
+  return (b.lng - a.lng) * (c.lat - a.lat) - (b.lat - a.lat) * (c.lng - a.lng)
+}
+
+/**
+ * Whether any two non-adjacent edges of the ring cross
+ * Crossing rings ("bow-ties") have no single inside, so their area and flooded share are meaningless.
+ */
+export const isSelfIntersecting = (points: L.LatLng[]): boolean => {
+  const n = points.length
+  for (let i = 0; i < n; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % n]
+    // Skip the edge itself and its neighbours, which share a vertex with it
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue
+      const c = points[j]
+      const d = points[(j + 1) % n]
+      if (orientation(a, b, c) * orientation(a, b, d) < 0 && orientation(c, d, a) * orientation(c, d, b) < 0) {
+        return true
+      }
+    }
+  }
+  return false
+}
+
+/**
+ * Polygon area in square meters (equirectangular projection around the centroid latitude)
+ * Only meaningful for simple rings; see isSelfIntersecting.
+ */
+export const getPolygonArea = (points: L.LatLng[]): number => {
+  if (points.length < 3) return 0
+  const meanLat = points.reduce((sum, point) => sum + point.lat, 0) / points.length
+  const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos((meanLat * Math.PI) / 180)
+
+  let twiceArea = 0
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    twiceArea += (points[j].lng * metersPerDegreeLng) * (points[i].lat * METERS_PER_DEGREE_LAT)
+      - (points[i].lng * metersPerDegreeLng) * (points[j].lat * METERS_PER_DEGREE_LAT)
+  }
+  return Math.abs(twiceArea) / 2
+}
+
+/**
+ * Regular grid of sample points inside a polygon
+ * The spacing is chosen from the polygon area so roughly MAX_POLYGON_SAMPLES fall inside,
+ * but never so fine that the bounding box holds more than MAX_GRID_CELLS cells;
+ * small polygons still get at least one sample at the first vertex.
+ */
+export const samplePolygonGrid = (points: L.LatLng[]): PolygonGrid => {
+  const area = getPolygonArea(points)
+  if (area === 0) return { points: [], cellArea: 0, spacing: 0, area: 0 }
+
+  const bounds = L.latLngBounds(points)
+  const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos((bounds.getCenter().lat * Math.PI) / 180)
+  const bboxArea = (bounds.getNorth() - bounds.getSouth()) * METERS_PER_DEGREE_LAT
+    * (bounds.getEast() - bounds.getWest()) * metersPerDegreeLng
+
+  let spacing = Math.max(Math.sqrt(area / MAX_POLYGON_SAMPLES), Math.sqrt(bboxArea / MAX_GRID_CELLS))
+  let samples: GridSamplePoint[] = []
+
+  // Irregular shapes can still overshoot; widen the grid until the cap holds
+  for (;;) {
+    const stepLat = spacing / METERS_PER_DEGREE_LAT
+    const stepLng = spacing / metersPerDegreeLng
+    samples = []
+
+    // Offset by half a cell so points sit at cell centers
+    for (let lat = bounds.getSouth() + stepLat / 2; lat < bounds.getNorth(); lat += stepLat) {
+      for (let lng = bounds.getWest() + stepLng / 2; lng < bounds.getEast(); lng += stepLng) {
+        if (isInsidePolygon(lat, lng, points)) {
+          samples.push({ lat, lng })
+        }
+      }
+    }
+
+    if (samples.length <= MAX_POLYGON_SAMPLES) break
+    spacing *= 1.1
+  }
+
+  if (samples.length === 0) {
+    samples = [{ lat: points[0].lat, lng: points[0].lng }]
+    spacing = Math.sqrt(area)
+  }
+
+  return { points: samples, cellArea: area / samples.length, spacing, area }
+}
+
+/**
+ * Summary statistics for sampled depths (null = NoData or failed sample)
+ */
+export const computeDepthStats = (depths: Array<number | null>, cellArea: number, binCount = 10): DepthStats => {
+  const valid = depths.filter((depth): depth is number => depth !== null)
+  const flooded = valid.filter((depth) => depth > 0)
+
+  const min = valid.length > 0 ? Math.min(...valid) : null
+  const max = valid.length > 0 ? Math.max(...valid) : null
+  const mean = valid.length > 0 ? valid.reduce((sum, depth) => sum + depth, 0) / valid.length : null
+
+  // Equal-width bins from 0 to the max flooded depth
+  const histogram: HistogramBin[] = []
+  if (max !== null && max > 0) {
+    const width = max / binCount
+    for (let i = 0; i < binCount; i++) {
+      histogram.push({ from: i * width, to: (i + 1) * width, count: 0 })
+    }
+    for (const depth of flooded) {
+      histogram[Math.min(binCount - 1, Math.floor(depth / width))].count++
+    }
+  }
+
+  return {
+    sampleCount: depths.length,
+    validCount: valid.length,
+    floodedCount: flooded.length,
+    min,
+    max,
+    mean,
+    floodedShare: valid.length > 0 ? flooded.length / valid.length : 0,
+    floodedArea: flooded.length * cellArea,
+    histogram,
+  }
+}
+
+/**
+ * Format an area for display ("850 m²", "1.25 km²")
+ */
+export const formatArea = (squareMeters: number): string => {
+  return squareMeters >= 1e6 ? `${(squareMeters / 1e6).toFixed(2)} km²` : `${Math.round(squareMeters)} m²`
+}
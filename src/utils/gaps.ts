@@ -0,0 +1,134 @@
+// Gap detection and completeness of station time series
+
+const MINUTE_MS = 60 * 1000
+
+// NOAA CO-OPS water level products: 6-minute and hourly
+export const SAMPLE_INTERVALS = [
+  { value: 6 * MINUTE_MS, label: '6-minute' },
+  { value: 60 * MINUTE_MS, label: 'Hourly' },
+]
+
+// A step longer than this many intervals is a gap (tolerates jitter and one late sample)
+export const GAP_FACTOR = 1.5
+
+// Recent observations still on their way from the station aren't counted as missing
+export const OBSERVATION_LATENCY_MS = 30 * MINUTE_MS
+
+export interface DataGap {
+  start: number // Last sample before the gap (or the window start), epoch ms
+  end: number // First sample after the gap (or the window end)
+  missing: number // Expected samples that are absent
+  edge: 'start' | 'end' | null // Gap runs to the edge of the window
+}
+
+export interface Completeness {
+  interval: number | null // Expected sample spacing in ms (null if it can't be told)
+  expected: number
+  present: number
+  ratio: number | null // present / expected, capped at 1
+  gaps: DataGap[]
+}
+
+/**
+ * Expected sample spacing of a sorted series
+ * The median step, snapped to a NOAA interval when within 10%.
+ */
+export const inferSampleInterval = (times: number[]): number | null => {
+  const steps: number[] = []
+  for (let index = 1; index < times.length; index++) {
+    const step = times[index] - times[index - 1]
+    if (step > 0) steps.push(step)
+  }
+  if (steps.length === 0) return null
+
+  steps.sort((a, b) => a - b)
+  const median = steps[Math.floor(steps.length / 2)]
+  const known = SAMPLE_INTERVALS.find(({ value }) => Math.abs(median - value) <= value * 0.1)
+  return known?.value ?? median
+}
+
+/**
+ * Label for a sample interval ("6-minute", "Hourly" or "15 min")
+ */
+export const formatSampleInterval = (interval: number | null): string => {
+  if (interval === null) return 'Unknown'
+  return SAMPLE_INTERVALS.find(({ value }) => value === interval)?.label ?? `${Math.round(interval / MINUTE_MS)} min`
+}
+
+/**
+ * Gaps in a sorted series, including any at the edges of `window`
+ */
+export const findGaps = (times: number[], interval: number, window?: { start: number; end: number }): DataGap[] => {
+  const gaps: DataGap[] = []
+  const threshold = interval * GAP_FACTOR
+
+  if (window && times.length > 0 && times[0] - window.start >= threshold) {
+    gaps.push({ start: window.start, end: times[0], missing: Math.floor((times[0] - window.start) / interval), edge: 'start' })
+  }
+
+  for (let index = 1; index < times.length; index++) {
+    const step = times[index] - times[index - 1]
+    if (step > threshold) {
+      gaps.push({ start: times[index - 1], end: times[index], missing: Math.round(step / interval) - 1, edge: null })
+    }
+  }
+
+  const last = times[times.length - 1]
+  if (window && times.length > 0 && window.end - last > threshold) {
+    gaps.push({ start: last, end: window.end, missing: Math.ceil((window.end - last) / interval) - 1, edge: 'end' })
+  }
+
+  return gaps
+}
+
+/**
+ * Completeness of a series over a window
+ * Observations can't exist in the future, so end their window at `now` minus
+ * OBSERVATION_LATENCY_MS.
+ */
+export const computeCompleteness = (
+  times: number[],
+  window: { start: number; end: number },
+  interval: number | null = inferSampleInterval(times)
+): Completeness => {
+  const sorted = times.filter((time) => time >= window.start && time < window.end).sort((a, b) => a - b)
+  if (interval === null || window.end <= window.start) {
+    return { interval, expected: sorted.length, present: sorted.length, ratio: sorted.length > 0 ? 1 : null, gaps: [] }
+  }
+
+  const expected = Math.ceil((window.end - window.start) / interval)
+  if (sorted.length === 0) {
+    return {
+      interval,
+      expected,
+      present: 0,
+      ratio: 0,
+      gaps: [{ start: window.start, end: window.end, missing: expected, edge: 'start' }],
+    }
+  }
+
+  return {
+    interval,
+    expected,
+    present: sorted.length,
+    ratio: Math.min(1, sorted.length / expected),
+    gaps: findGaps(sorted, interval, window),
+  }
+}
+
+/**
+ * Chart points with a null inserted inside every gap, so the line breaks there
+ */
+export const insertGapBreaks = <T extends { x: number }>(points: T[], interval: number | null, makeBreak: (x: number) => T): T[] => {
+  if (interval === null || points.length < 2) return points
+  const threshold = interval * GAP_FACTOR
+  const result: T[] = [points[0]]
+  for (let index = 1; index < points.length; index++) {
+    const previous = points[index - 1].x
+    if (points[index].x - previous > threshold) {
+      result.push(makeBreak(previous + interval))
+    }
+    result.push(points[index])
+  }
+  return result
+}
@@ -0,0 +1,75 @@
+// Search param schema for the map route ("/") so a link restores the exact view
+
+import type { BaseLayerType } from '../types/map'
+
+export interface MapSearch {
+  lat?: number
+  lng?: number
+  zoom?: number
+  base?: BaseLayerType
+  layer?: string // Dropdown layer id, or "none"
+  overlays?: string[] // Visible checkbox layer ids
+  compare?: [string, string] // Left and right layer ids in comparison mode
+  station?: [number, number] // Selected station [lat, lng]
+  pen?: [number, number] // Pen marker [lat, lng]
+}
+
+export const BASE_LAYER_TYPES: BaseLayerType[] = ['default', 'satellite', 'terrain']
+
+// Keys in a fixed order so serialized searches can be compared
+const MAP_SEARCH_KEYS: Array<keyof MapSearch> = [
+  'lat', 'lng', 'zoom', 'base', 'layer', 'overlays', 'compare', 'station', 'pen',
+]
+
+const toNumber = (value: unknown, min: number, max: number): number | undefined => {
+  const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  if (typeof num !== 'number' || !Number.isFinite(num)) return undefined
+  return num >= min && num <= max ? num : undefined
+}
+
+const toStringArray = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined
+  return value.filter((item): item is string => typeof item === 'string' && item.length > 0)
+}
+
+const toLatLng = (value: unknown): [number, number] | undefined => {
+  if (!Array.isArray(value) || value.length !== 2) return undefined
+  const lat = toNumber(value[0], -90, 90)
+  const lng = toNumber(value[1], -180, 180)
+  return lat !== undefined && lng !== undefined ? [lat, lng] : undefined
+}
+
+/**
+ * Round coordinates to ~1 m so small float differences don't create history entries
+ */
+export const roundCoordinate = (value: number): number => Math.round(value * 1e5) / 1e5
+
+/**
+ * Validate raw search params for the map route (invalid values are dropped)
+ */
+export const validateMapSearch = (search: Record<string, unknown>): MapSearch => {
+  const compare = toStringArray(search.compare)
+
+  return {
+    lat: toNumber(search.lat, -90, 90),
+    lng: toNumber(search.lng, -180, 180),
+    zoom: toNumber(search.zoom, 0, 21),
+    base: BASE_LAYER_TYPES.includes(search.base as BaseLayerType) ? (search.base as BaseLayerType) : undefined,
+    layer: typeof search.layer === 'string' && search.layer ? search.layer : undefined,
+    overlays: toStringArray(search.overlays),
+    compare: compare?.length === 2 ? [compare[0], compare[1]] : undefined,
+    station: toLatLng(search.station),
+    pen: toLatLng(search.pen),
+  }
+}
+
+/**
+ * Serialize a map search to a stable string (undefined keys dropped)
+ */
+export const serializeMapSearch = (search: MapSearch): string => {
+  return JSON.stringify(
+    MAP_SEARCH_KEYS
+      .filter((key) => search[key] !== undefined)
+      .map((key) => [key, search[key]])
+  )
+}
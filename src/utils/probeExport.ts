@@ -0,0 +1,69 @@
+import type { DepthProbe } from '../types/map'
+import { convertLength, type LengthUnit } from './units'
+import type { ExportDataset } from './dataExport'
+
+// Probe depth in the export unit
+const exportDepth = (probe: DepthProbe, unit: LengthUnit): number | null => {
+  return probe.depth !== null ? convertLength(probe.depth, probe.unit, unit) : null
+}
+
+/**
+ * Probe list as an export dataset (one row per probe)
+ */
+export const probesToDataset = (probes: DepthProbe[], unit: LengthUnit): ExportDataset => {
+  return {
+    filename: `depth_probes_${new Date().toISOString().slice(0, 10)}`,
+    metadata: {
+      title: 'Water depth probes',
+      units: unit === 'm' ? 'meters' : 'feet',
+      time_zone: 'UTC',
+      source: 'GeoServer flood depth layers (WMS GetFeatureInfo)',
+      retrieved_at: new Date().toISOString(),
+    },
+    tables: [{
+      name: 'Probes',
+      columns: [
+        { key: 'label', label: 'Label' },
+        { key: 'latitude', label: 'Latitude', units: 'degrees_north' },
+        { key: 'longitude', label: 'Longitude', units: 'degrees_east' },
+        { key: 'layer', label: 'Layer' },
+        { key: 'depth', label: 'Depth', units: unit === 'm' ? 'meters' : 'feet', description: 'Water depth, empty for NoData' },
+        { key: 'timestamp', label: 'Timestamp', description: 'When the probe was read (UTC)' },
+        { key: 'forecast_time', label: 'Forecast Time', description: 'Forecast time shown on the map' },
+      ],
+      rows: probes.map((probe) => {
+        const depth = exportDepth(probe, unit)
+        return {
+          label: probe.label,
+          latitude: Number(probe.lat.toFixed(6)),
+          longitude: Number(probe.lng.toFixed(6)),
+          layer: probe.layer,
+          depth: depth !== null ? Number(depth.toFixed(2)) : null,
+          timestamp: probe.timestamp,
+          forecast_time: probe.forecastTime ?? null,
+        }
+      }),
+    }],
+  }
+}
+
+/**
+ * Probe list as a GeoJSON FeatureCollection of points
+ */
+export const probesToGeoJSON = (probes: DepthProbe[], unit: LengthUnit): string => {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: probes.map((probe) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [probe.lng, probe.lat] },
+      properties: {
+        label: probe.label,
+        layer: probe.layer,
+        depth: exportDepth(probe, unit),
+        unit,
+        timestamp: probe.timestamp,
+        forecastTime: probe.forecastTime ?? null,
+      },
+    })),
+  }, null, 2)
+}
@@ -0,0 +1,79 @@
+// NOAA CO-OPS data quality: decoding of the observation flag string and quality level
+import type { WaterLevelObservation } from '../types/map'
+
+export type QualityFlag = 'outlier' | 'flat' | 'rate' | 'limit'
+
+export type QualityLevel = 'preliminary' | 'verified'
+
+// In the order NOAA lists them in `f` ("O,F,R,L")
+export const QUALITY_FLAGS: Array<{ value: QualityFlag; code: string; label: string; description: string }> = [
+  { value: 'outlier', code: 'O', label: '3-sigma outliers', description: '1-second samples outside a 3-sigma band about the mean' },
+  { value: 'flat', code: 'F', label: 'Flat tolerance', description: 'Flat tolerance limit exceeded (sensor may be stuck)' },
+  { value: 'rate', code: 'R', label: 'Rate of change', description: 'Rate of change tolerance limit exceeded' },
+  { value: 'limit', code: 'L', label: 'Max/min exceeded', description: 'Maximum or minimum expected water level exceeded' },
+]
+
+export const QUALITY_LEVELS: Record<QualityLevel, { code: string; label: string }> = {
+  preliminary: { code: 'p', label: 'Preliminary' },
+  verified: { code: 'v', label: 'Verified' },
+}
+
+export const SUSPECT_COLOR = '#F97316'
+
+export interface DecodedQuality {
+  outlierCount: number // Samples outside 3 sigma (the O field is a count, not 0/1)
+  flags: QualityFlag[] // Flags that are set, in QUALITY_FLAGS order
+  level: QualityLevel | null
+  isSuspect: boolean // Any flag set
+}
+
+/**
+ * Decode a NOAA flag string ("O,F,R,L") into the flags that are set
+ * Missing or malformed fields count as not set.
+ */
+export const decodeFlagString = (value: string | null | undefined): { outlierCount: number; flags: QualityFlag[] } => {
+  const fields = (value ?? '').split(',').map((field) => Number(field.trim()))
+  const outlierCount = Number.isFinite(fields[0]) ? Math.max(0, fields[0]) : 0
+
+  const flags = QUALITY_FLAGS.filter((flag, index) => {
+    if (flag.value === 'outlier') return outlierCount > 0
+    return fields[index] === 1
+  }).map((flag) => flag.value)
+
+  return { outlierCount, flags }
+}
+
+/**
+ * Quality level from the `q` field
+ */
+export const decodeQualityLevel = (value: string | null | undefined): QualityLevel | null => {
+  const code = value?.trim().toLowerCase()
+  if (code === 'p') return 'preliminary'
+  if (code === 'v') return 'verified'
+  return null
+}
+
+/**
+ * Flags and quality level of an observation
+ */
+export const decodeQuality = (record: Pick<WaterLevelObservation, 'f' | 'q'>): DecodedQuality => {
+  const { outlierCount, flags } = decodeFlagString(record.f)
+  return { outlierCount, flags, level: decodeQualityLevel(record.q), isSuspect: flags.length > 0 }
+}
+
+/**
+ * Readable list of the set flags, e.g. "Rate of change, 3-sigma outliers (4)"
+ */
+export const describeQualityFlags = (quality: Pick<DecodedQuality, 'flags' | 'outlierCount'>): string => {
+  return QUALITY_FLAGS
+    .filter((flag) => quality.flags.includes(flag.value))
+    .map((flag) => (flag.value === 'outlier' ? `${flag.label} (${quality.outlierCount})` : flag.label))
+    .join(', ')
+}
+
+/**
+ * Whether an observation has any quality flag set
+ */
+export const isSuspectObservation = (record: Pick<WaterLevelObservation, 'f' | 'q'>): boolean => {
+  return decodeQuality(record).isSuspect
+}
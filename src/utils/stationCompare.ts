@@ -0,0 +1,153 @@
+// Multi-station comparison: shared-time rows, per-station stats and combined export
+import type { StationWaterLevelData } from '../types/map'
+import type { ExportColumn, ExportDataset, ExportValue } from './dataExport'
+import type { LengthUnit, WaterLevelConverter } from './units'
+import { alignWaterLevels, computeResidualStats, type ResidualStats } from './surge'
+import { formatZonedTimestamp, parseApiTimestamp, type ResolvedTimeZone } from './timeZone'
+
+export interface ComparedStation {
+  id: string
+  name: string
+  lng?: number // For the station-time estimate before metadata loads
+}
+
+// One color per station, in selection order
+export const STATION_COLORS = ['#2563EB', '#DC2626', '#16A34A', '#D97706', '#7C3AED', '#0891B2', '#DB2777', '#4B5563']
+export const MAX_COMPARED_STATIONS = STATION_COLORS.length
+
+export interface StationSummary {
+  count: number // Observations with a value
+  min: number | null
+  max: number | null
+  mean: number | null
+  latest: { value: number; time: string } | null
+  residual: ResidualStats
+}
+
+/**
+ * Observation statistics for one station, in the converter's unit and datum
+ */
+export const summarizeStation = (
+  data: Pick<StationWaterLevelData, 'predictions' | 'observations'>,
+  converter: Pick<WaterLevelConverter, 'valueOf'>
+): StationSummary => {
+  let count = 0
+  let sum = 0
+  let min: number | null = null
+  let max: number | null = null
+  let latest: StationSummary['latest'] = null
+
+  for (const observation of data.observations ?? []) {
+    const value = converter.valueOf(observation)
+    if (value === null) continue
+    count++
+    sum += value
+    min = min === null ? value : Math.min(min, value)
+    max = max === null ? value : Math.max(max, value)
+    if (!latest || parseApiTimestamp(observation.t) > parseApiTimestamp(latest.time)) {
+      latest = { value, time: observation.t }
+    }
+  }
+
+  return {
+    count,
+    min,
+    max,
+    mean: count > 0 ? sum / count : null,
+    latest,
+    residual: computeResidualStats(alignWaterLevels(data.predictions ?? [], data.observations ?? [], converter.valueOf)),
+  }
+}
+
+export type ComparisonExportColumn = 'prediction' | 'observation' | 'residual'
+
+// Per-station columns offered in the export menu; the time column is always exported
+export const COMPARISON_EXPORT_COLUMNS: Array<{ value: ComparisonExportColumn; label: string }> = [
+  { value: 'prediction', label: 'Predictions' },
+  { value: 'observation', label: 'Observations' },
+  { value: 'residual', label: 'Residual' },
+]
+
+export const DEFAULT_COMPARISON_EXPORT_COLUMNS: ComparisonExportColumn[] = ['prediction', 'observation']
+
+export interface ComparisonExportParams {
+  stations: ComparedStation[]
+  data: Record<string, StationWaterLevelData>
+  converters: Record<string, WaterLevelConverter>
+  unit: LengthUnit
+  range?: { start: string; end: string }
+  columns: ComparisonExportColumn[]
+  timeZone: Pick<ResolvedTimeZone, 'zone' | 'label'> // Zone the time column is written in
+}
+
+const UNIT_NAMES: Record<LengthUnit, string> = { ft: 'feet', m: 'meters' }
+
+const round = (value: number | null | undefined, digits = 3) => {
+  return typeof value === 'number' && Number.isFinite(value) ? Number(value.toFixed(digits)) : null
+}
+
+/**
+ * Combined export table: one row per timestamp, the chosen columns per station
+ * Times are written in the display zone.
+ */
+export const buildComparisonDataset = ({
+  stations,
+  data,
+  converters,
+  unit,
+  range,
+  columns,
+  timeZone,
+}: ComparisonExportParams): ExportDataset => {
+  const unitName = UNIT_NAMES[unit]
+  const available = stations.filter((station) => data[station.id] && converters[station.id])
+  const selected = COMPARISON_EXPORT_COLUMNS.filter((column) => columns.includes(column.value))
+  const rowsByTime = new Map<string, Record<string, ExportValue>>()
+
+  for (const station of available) {
+    const rows = alignWaterLevels(data[station.id].predictions ?? [], data[station.id].observations ?? [], converters[station.id].valueOf)
+    for (const row of rows) {
+      const values = rowsByTime.get(row.time) ?? {}
+      for (const column of selected) {
+        values[`${station.id}_${column.value}`] = round(row[column.value])
+      }
+      rowsByTime.set(row.time, values)
+    }
+  }
+
+  const descriptions: Record<ComparisonExportColumn, (datum: string) => string> = {
+    prediction: (datum) => `Tide prediction above ${datum}`,
+    observation: (datum) => `Observed water level above ${datum}`,
+    residual: () => 'Observation minus prediction',
+  }
+  const stationColumns: ExportColumn[] = available.flatMap((station) => selected.map((column) => ({
+    key: `${station.id}_${column.value}`,
+    label: `${station.name} ${column.label.toLowerCase()}`,
+    units: unitName,
+    description: descriptions[column.value](converters[station.id].datum),
+  })))
+
+  const times = Array.from(rowsByTime.keys()).sort((a, b) => parseApiTimestamp(a) - parseApiTimestamp(b))
+  const datums = Array.from(new Set(available.map((station) => converters[station.id].datum)))
+
+  return {
+    filename: `stations_${available.map((station) => station.id).join('-')}${range ? `_${range.start}_to_${range.end}` : ''}`,
+    metadata: {
+      title: `Water level comparison of ${available.map((station) => station.name).join(', ')}`,
+      station_ids: available.map((station) => station.id).join(' '),
+      vertical_datum: datums.join(' '),
+      units: unitName,
+      time_zone: timeZone.zone,
+      time_zone_convention: timeZone.label,
+      source: 'NOAA CO-OPS water level observations and tide predictions',
+      retrieved_at: new Date().toISOString(),
+      time_coverage_start: range?.start,
+      time_coverage_end: range?.end,
+    },
+    tables: [{
+      name: 'Comparison',
+      columns: [{ key: 't', label: 'Time', description: `Timestamp (${timeZone.label}, ${timeZone.zone})` }, ...stationColumns],
+      rows: times.map((time) => ({ t: formatZonedTimestamp(parseApiTimestamp(time), timeZone.zone), ...rowsByTime.get(time) })),
+    }],
+  }
+}
@@ -0,0 +1,127 @@
+// Station water level datasets for the shared export module
+import type { ExportColumn, ExportDataset, ExportTable } from './dataExport'
+import { convertLength, type LengthUnit, type VerticalDatum } from './units'
+import { alignWaterLevels } from './surge'
+import { decodeQuality, describeQualityFlags, QUALITY_LEVELS } from './qualityFlags'
+import { formatZonedTimestamp, parseApiTimestamp, type ResolvedTimeZone } from './timeZone'
+import type { WaterLevelPrediction, WaterLevelObservation } from '../types/map'
+
+export type StationExportColumn = 'v' | 'v_navd' | 's' | 'f' | 'q' | 'flags'
+
+// Optional columns; the time column is always exported
+export const STATION_EXPORT_COLUMNS: Array<{ value: StationExportColumn; label: string; observationsOnly?: boolean }> = [
+  { value: 'v', label: 'Water level' },
+  { value: 'v_navd', label: 'Water level (NAVD88)' },
+  { value: 's', label: 'Sigma (s)', observationsOnly: true },
+  { value: 'f', label: 'Data flags (f)', observationsOnly: true },
+  { value: 'q', label: 'Quality level (q)', observationsOnly: true },
+  { value: 'flags', label: 'Decoded flags', observationsOnly: true },
+]
+
+export const DEFAULT_STATION_EXPORT_COLUMNS: StationExportColumn[] = ['v']
+
+const UNIT_NAMES: Record<LengthUnit, string> = { ft: 'feet', m: 'meters' }
+
+export interface StationExportParams {
+  stationId: string
+  stationName: string
+  predictions: WaterLevelPrediction[]
+  observations: WaterLevelObservation[]
+  valueOf: (record: WaterLevelPrediction | WaterLevelObservation) => number | null // Display unit and datum
+  unit: LengthUnit
+  datum: VerticalDatum
+  range?: { start: string; end: string }
+  columns: StationExportColumn[]
+  timeZone: Pick<ResolvedTimeZone, 'zone' | 'label'> // Zone the time column is written in
+}
+
+// Readable flag summary column, e.g. "Rate of change; Preliminary"
+const describeQuality = (record: WaterLevelObservation): string => {
+  const quality = decodeQuality(record)
+  return [describeQualityFlags(quality), quality.level ? QUALITY_LEVELS[quality.level].label : '']
+    .filter(Boolean)
+    .join('; ')
+}
+
+const round = (value: number | null | undefined, digits = 3) => {
+  return typeof value === 'number' && Number.isFinite(value) ? Number(value.toFixed(digits)) : null
+}
+
+/**
+ * Predictions, observations and residual as export tables with metadata
+ */
+export const buildStationDataset = ({
+  stationId,
+  stationName,
+  predictions,
+  observations,
+  valueOf,
+  unit,
+  datum,
+  range,
+  columns,
+  timeZone,
+}: StationExportParams): ExportDataset => {
+  const unitName = UNIT_NAMES[unit]
+  const definitions: Record<StationExportColumn, ExportColumn> = {
+    v: { key: 'v', label: 'Water level', units: unitName, description: `Height above ${datum}` },
+    v_navd: { key: 'v_navd', label: 'Water level NAVD88', units: unitName, description: 'Height above NAVD88' },
+    s: { key: 's', label: 'Sigma', units: unitName, description: 'Standard deviation of 1-second samples' },
+    f: { key: 'f', label: 'Flags', description: 'NOAA data flags O,F,R,L: 3-sigma outlier count, flat tolerance, rate of change, max/min expected (0/1)' },
+    q: { key: 'q', label: 'Quality', description: 'p = preliminary, v = verified' },
+    flags: { key: 'flags', label: 'Flag summary', description: 'Readable NOAA flags and quality level' },
+  }
+  const timeColumn: ExportColumn = { key: 't', label: 'Time', description: `Timestamp (${timeZone.label}, ${timeZone.zone})` }
+  const toTime = (time: string) => formatZonedTimestamp(parseApiTimestamp(time), timeZone.zone)
+  const selected = STATION_EXPORT_COLUMNS.filter((column) => columns.includes(column.value))
+
+  const toNavd = (record: WaterLevelPrediction | WaterLevelObservation) => {
+    return record.v_navd !== null && record.v_navd !== undefined ? convertLength(record.v_navd, 'ft', unit) : null
+  }
+
+  const predictionTable: ExportTable = {
+    name: 'Predictions',
+    columns: [timeColumn, ...selected.filter((column) => !column.observationsOnly).map((column) => definitions[column.value])],
+    rows: predictions.map((record) => ({ t: toTime(record.t), v: round(valueOf(record)), v_navd: round(toNavd(record)) })),
+  }
+
+  const observationTable: ExportTable = {
+    name: 'Observations',
+    columns: [timeColumn, ...selected.map((column) => definitions[column.value])],
+    rows: observations.map((record) => ({
+      t: toTime(record.t),
+      v: round(valueOf(record)),
+      v_navd: round(toNavd(record)),
+      s: round(record.s !== undefined && record.s !== '' ? convertLength(Number(record.s), 'ft', unit) : null),
+      f: record.f,
+      q: record.q,
+      flags: describeQuality(record),
+    })),
+  }
+
+  const residualTable: ExportTable = {
+    name: 'Residual',
+    columns: [timeColumn, { key: 'residual', label: 'Residual', units: unitName, description: 'Observation minus prediction' }],
+    rows: alignWaterLevels(predictions, observations, valueOf)
+      .filter((row) => row.residual !== null)
+      .map((row) => ({ t: toTime(row.time), residual: round(row.residual) })),
+  }
+
+  return {
+    filename: `station_${stationId}${range ? `_${range.start}_to_${range.end}` : ''}`,
+    metadata: {
+      title: `Water levels at ${stationName}`,
+      station_id: stationId,
+      station_name: stationName,
+      vertical_datum: datum,
+      units: unitName,
+      time_zone: timeZone.zone,
+      time_zone_convention: timeZone.label,
+      source: 'NOAA CO-OPS water level observations and tide predictions',
+      retrieved_at: new Date().toISOString(),
+      time_coverage_start: range?.start,
+      time_coverage_end: range?.end,
+    },
+    tables: [predictionTable, observationTable, residualTable].filter((table) => table.rows.length > 0),
+  }
+}
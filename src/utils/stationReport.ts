@@ -0,0 +1,249 @@
+// Client-side station report: self-contained HTML, printable to PDF from the browser
+import { FLOOD_STAGE_LEVELS, getStageLabel, type ExceedanceSummary, type FloodStageValues } from './floodStages'
+import type { StationSummary } from './stationCompare'
+import type { ResidualStats } from './surge'
+import type { TideDay } from './tideExtrema'
+import { formatZonedAxisLabel, formatZonedDateTime, parseApiTimestamp, type ResolvedTimeZone } from './timeZone'
+
+export interface ReportSeries {
+  name: string
+  color: string
+  data: Array<{ x: number; y: number | null }>
+}
+
+export interface StationReportParams {
+  stationId: string
+  stationName: string
+  lat: number
+  lng: number
+  range: { start: string; end: string }
+  timeZone: Pick<ResolvedTimeZone, 'zone' | 'label'> // Zone of the range, tide times and all timestamps
+  unit: string
+  datum: string
+  chartImage: string | null // PNG data URI
+  summary: StationSummary
+  residual: ResidualStats
+  stages: FloodStageValues
+  exceedance: ExceedanceSummary | null // Observed series against the stages
+  tideDays: TideDay[]
+  provenance: Array<{ label: string; value: string }>
+}
+
+const REPORT_CHART_WIDTH = 900
+const REPORT_CHART_HEIGHT = 320
+const MAP_TILE_URL = 'https://mt1.google.com/vt/lyrs=m&x={x}&y={y}&z={z}'
+const MAP_ZOOM = 13
+const MAP_WIDTH = 600
+const MAP_HEIGHT = 300
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+const formatNumber = (value: number | null | undefined, unit: string) => {
+  return value === null || value === undefined ? '-' : `${value.toFixed(2)} ${unit}`
+}
+
+/**
+ * Render a line chart off-screen and return it as a PNG data URI
+ * Independent of the modal's view mode, so the report works from the table views too.
+ */
+export const renderReportChart = async (
+  series: ReportSeries[],
+  stages: FloodStageValues,
+  unit: string,
+  datum: string,
+  timeZone: Pick<ResolvedTimeZone, 'zone' | 'label'>
+): Promise<string | null> => {
+  // Loaded on demand; ApexCharts needs the DOM
+  const { default: ApexCharts } = await import('apexcharts')
+  const container = document.createElement('div')
+  container.style.position = 'fixed'
+  container.style.left = '-10000px'
+  container.style.width = `${REPORT_CHART_WIDTH}px`
+  document.body.appendChild(container)
+
+  const chart = new ApexCharts(container, {
+    chart: { type: 'line', width: REPORT_CHART_WIDTH, height: REPORT_CHART_HEIGHT, animations: { enabled: false }, toolbar: { show: false } },
+    series: series.map(({ name, data }) => ({ name, data })),
+    colors: series.map(({ color }) => color),
+    stroke: { curve: 'straight', width: 2 },
+    xaxis: {
+      type: 'datetime',
+      title: { text: `Time (${timeZone.label})` },
+      labels: { formatter: (value: string, timestamp?: number) => formatZonedAxisLabel(timestamp ?? Number(value), timeZone.zone) }
+    },
+    yaxis: {
+      title: { text: `Water Level (${unit}, ${datum})` },
+      labels: { formatter: (value: number) => value.toFixed(2) }
+    },
+    annotations: {
+      yaxis: FLOOD_STAGE_LEVELS.filter((stage) => stages[stage.value] !== undefined).map((stage) => ({
+        y: stages[stage.value],
+        borderColor: stage.color,
+        strokeDashArray: 4,
+        label: { text: stage.label, borderColor: stage.color, style: { color: '#fff', background: stage.color } }
+      }))
+    },
+    legend: { position: 'top' },
+  })
+
+  try {
+    await chart.render()
+    const result = await chart.dataURI() as { imgURI?: string }
+    return result.imgURI ?? null
+  } catch (error) {
+    console.error('Error rendering report chart:', error)
+    return null
+  } finally {
+    chart.destroy()
+    container.remove()
+  }
+}
+
+// Static map: a block of base map tiles around the station with a marker in the middle
+const mapSnapshotHtml = (lat: number, lng: number) => {
+  const scale = 2 ** MAP_ZOOM
+  const latRad = (lat * Math.PI) / 180
+  const pixelX = ((lng + 180) / 360) * scale * 256
+  const pixelY = ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * scale * 256
+
+  const firstTileX = Math.floor((pixelX - MAP_WIDTH / 2) / 256)
+  const lastTileX = Math.floor((pixelX + MAP_WIDTH / 2) / 256)
+  const firstTileY = Math.floor((pixelY - MAP_HEIGHT / 2) / 256)
+  const lastTileY = Math.floor((pixelY + MAP_HEIGHT / 2) / 256)
+
+  const tiles: string[] = []
+  for (let x = firstTileX; x <= lastTileX; x++) {
+    for (let y = firstTileY; y <= lastTileY; y++) {
+      const url = MAP_TILE_URL.replace('{x}', String(x)).replace('{y}', String(y)).replace('{z}', String(MAP_ZOOM))
+      const left = Math.round(x * 256 - pixelX + MAP_WIDTH / 2)
+      const top = Math.round(y * 256 - pixelY + MAP_HEIGHT / 2)
+      tiles.push(`<img src="${url}" alt="" style="position:absolute;left:${left}px;top:${top}px;width:256px;height:256px">`)
+    }
+  }
+
+  return `<div class="map">${tiles.join('')}<div class="marker"></div></div>`
+}
+
+const tideTableHtml = (days: TideDay[], unit: string) => {
+  if (days.length === 0) return '<p class="muted">No high or low tides in the predictions for this range.</p>'
+  const rows = days.flatMap((day) => day.extrema.map((extremum, index) => `
+    <tr>
+      ${index === 0 ? `<td rowspan="${day.extrema.length}">${escapeHtml(day.date)}</td>` : ''}
+      <td>${extremum.type === 'H' ? 'High' : 'Low'}</td>
+      <td>${escapeHtml(extremum.time.slice(11))}</td>
+      <td>${extremum.value.toFixed(2)} ${escapeHtml(unit)}</td>
+    </tr>`))
+  return `<table><thead><tr><th>Date</th><th>Tide</th><th>Time</th><th>Height</th></tr></thead><tbody>${rows.join('')}</tbody></table>`
+}
+
+/**
+ * Complete report document (inline styles, print-ready)
+ */
+export const buildStationReportHtml = (params: StationReportParams): string => {
+  const { summary, residual, exceedance, unit } = params
+  const unitLabel = `${unit} ${params.datum}`
+  const generatedAt = new Date()
+  const formatTime = (ms: number) => formatZonedDateTime(ms, params.timeZone.zone)
+
+  const stats = [
+    ['Latest observation', summary.latest ? `${formatNumber(summary.latest.value, unitLabel)} at ${formatTime(parseApiTimestamp(summary.latest.time))}` : '-'],
+    ['Observed range', `${formatNumber(summary.min, unit)} to ${formatNumber(summary.max, unit)}`],
+    ['Observed mean', formatNumber(summary.mean, unit)],
+    ['Max surge (obs - pred)', residual.maxSurge ? `${formatNumber(residual.maxSurge.value, unit)} at ${formatTime(parseApiTimestamp(residual.maxSurge.time))}` : '-'],
+    ['Bias / RMSE', `${formatNumber(residual.bias, unit)} / ${formatNumber(residual.rmse, unit)}`],
+    ['Observations', String(summary.count)],
+  ]
+
+  const stageRows = FLOOD_STAGE_LEVELS
+    .filter((stage) => params.stages[stage.value] !== undefined)
+    .map((stage) => {
+      const crossing = exceedance?.firstCrossings[stage.value]
+      return `<tr><td><span class="dot" style="background:${stage.color}"></span>${stage.label}</td>
+        <td>${formatNumber(params.stages[stage.value], unitLabel)}</td>
+        <td>${crossing !== undefined ? escapeHtml(formatTime(crossing)) : 'Not reached'}</td></tr>`
+    })
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Station Report - ${escapeHtml(params.stationName)} (${escapeHtml(params.stationId)})</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #111827; margin: 24px; }
+  h1 { font-size: 22px; margin: 0; }
+  h2 { font-size: 15px; margin: 24px 0 8px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  .muted { color: #6b7280; font-size: 12px; }
+  .header { display: flex; justify-content: space-between; align-items: flex-start; gap: 16px; }
+  .map { position: relative; width: ${MAP_WIDTH}px; height: ${MAP_HEIGHT}px; overflow: hidden; border: 1px solid #d1d5db; border-radius: 6px; }
+  .marker { position: absolute; left: ${MAP_WIDTH / 2 - 8}px; top: ${MAP_HEIGHT / 2 - 8}px; width: 12px; height: 12px; border-radius: 50%; background: #3b82f6; border: 2px solid #fff; box-shadow: 0 0 0 1px #1e3a8a; }
+  .chart { max-width: 100%; }
+  table { border-collapse: collapse; font-size: 12px; min-width: 50%; }
+  th, td { border: 1px solid #e5e7eb; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; }
+  .dot { display: inline-block; width: 8px; height: 8px; border-radius: 50%; margin-right: 6px; }
+  .toolbar { position: sticky; top: 0; background: #fff; padding: 8px 0; margin-bottom: 8px; border-bottom: 1px solid #e5e7eb; }
+  .toolbar button { padding: 6px 12px; border-radius: 6px; border: 1px solid #3b82f6; background: #3b82f6; color: #fff; cursor: pointer; }
+  section { break-inside: avoid; }
+  @media print { .toolbar { display: none; } body { margin: 12mm; } }
+</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Print / Save as PDF</button></div>
+<div class="header">
+  <div>
+    <h1>${escapeHtml(params.stationName)}</h1>
+    <p class="muted">Station ${escapeHtml(params.stationId)} · ${params.lat.toFixed(4)}, ${params.lng.toFixed(4)}</p>
+    <p class="muted">${escapeHtml(params.range.start)} to ${escapeHtml(params.range.end)} (${escapeHtml(params.timeZone.label)}, ${escapeHtml(params.timeZone.zone)}) · Heights in ${escapeHtml(unitLabel)}</p>
+  </div>
+  <p class="muted">Generated ${escapeHtml(formatTime(generatedAt.getTime()))}</p>
+</div>
+
+<section>
+  <h2>Location</h2>
+  ${mapSnapshotHtml(params.lat, params.lng)}
+</section>
+
+<section>
+  <h2>Water Level</h2>
+  ${params.chartImage ? `<img class="chart" src="${params.chartImage}" alt="Water level chart">` : '<p class="muted">Chart unavailable.</p>'}
+</section>
+
+<section>
+  <h2>Summary</h2>
+  <table><tbody>${stats.map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</tbody></table>
+</section>
+
+${stageRows.length > 0 ? `<section>
+  <h2>Flood Stages</h2>
+  <p class="muted">Highest observed stage: ${exceedance?.highestLevel ? getStageLabel(exceedance.highestLevel) : 'below flood stages'}</p>
+  <table><thead><tr><th>Stage</th><th>Threshold</th><th>First observed</th></tr></thead><tbody>${stageRows.join('')}</tbody></table>
+</section>` : ''}
+
+<section>
+  <h2>Tide Table</h2>
+  ${tideTableHtml(params.tideDays, unit)}
+</section>
+
+<section>
+  <h2>Data Provenance</h2>
+  <table><tbody>${params.provenance.map(({ label, value }) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</tbody></table>
+</section>
+</body>
+</html>`
+}
+
+/**
+ * Open the report in a new window for printing; returns false if popups are blocked
+ */
+export const openReportWindow = (html: string): boolean => {
+  const reportWindow = window.open('', '_blank')
+  if (!reportWindow) return false
+  reportWindow.document.open()
+  reportWindow.document.write(html)
+  reportWindow.document.close()
+  return true
+}
@@ -0,0 +1,80 @@
+// Observed minus predicted water level (residual / storm surge)
+import { parseApiTimestamp } from './timeZone'
+import type { WaterLevelPrediction, WaterLevelObservation } from '../types/map'
+
+export interface AlignedWaterLevel {
+  time: string
+  prediction: number | null
+  observation: number | null
+  residual: number | null // observation - prediction, when both exist
+}
+
+export interface ResidualStats {
+  count: number // Timestamps with both values
+  maxSurge: { value: number; time: string } | null
+  minSurge: { value: number; time: string } | null
+  bias: number | null // Mean residual (positive = water above predictions)
+  rmse: number | null
+}
+
+/**
+ * Line up predictions and observations by timestamp, sorted by time
+ * `valueOf` converts each record (unit/datum); residuals use the converted values.
+ */
+export const alignWaterLevels = (
+  predictions: WaterLevelPrediction[],
+  observations: WaterLevelObservation[],
+  valueOf: (record: WaterLevelPrediction | WaterLevelObservation) => number | null
+): AlignedWaterLevel[] => {
+  const timestampMap = new Map<string, AlignedWaterLevel>()
+
+  predictions.forEach((pred) => {
+    timestampMap.set(pred.t, { time: pred.t, prediction: valueOf(pred), observation: null, residual: null })
+  })
+
+  observations.forEach((obs) => {
+    const existing = timestampMap.get(obs.t)
+    if (existing) {
+      existing.observation = valueOf(obs)
+    } else {
+      timestampMap.set(obs.t, { time: obs.t, prediction: null, observation: valueOf(obs), residual: null })
+    }
+  })
+
+  const rows = Array.from(timestampMap.values())
+  rows.forEach((row) => {
+    if (row.prediction !== null && row.observation !== null) {
+      row.residual = row.observation - row.prediction
+    }
+  })
+
+  return rows.sort((a, b) => parseApiTimestamp(a.time) - parseApiTimestamp(b.time))
+}
+
+/**
+ * Surge extremes, bias and RMSE over the rows with a residual
+ */
+export const computeResidualStats = (rows: AlignedWaterLevel[]): ResidualStats => {
+  let count = 0
+  let sum = 0
+  let sumSquares = 0
+  let maxSurge: ResidualStats['maxSurge'] = null
+  let minSurge: ResidualStats['minSurge'] = null
+
+  for (const row of rows) {
+    if (row.residual === null) continue
+    count++
+    sum += row.residual
+    sumSquares += row.residual * row.residual
+    if (!maxSurge || row.residual > maxSurge.value) maxSurge = { value: row.residual, time: row.time }
+    if (!minSurge || row.residual < minSurge.value) minSurge = { value: row.residual, time: row.time }
+  }
+
+  return {
+    count,
+    maxSurge,
+    minSurge,
+    bias: count > 0 ? sum / count : null,
+    rmse: count > 0 ? Math.sqrt(sumSquares / count) : null,
+  }
+}
@@ -0,0 +1,104 @@
+// High/low tide detection over a dense prediction series
+import { formatZonedTimestamp, parseApiTimestamp } from './timeZone'
+import type { WaterLevelPrediction } from '../types/map'
+
+export type TideType = 'H' | 'L'
+
+export interface TideExtremum {
+  type: TideType
+  time: string // "YYYY-MM-DD HH:mm" in the display time zone
+  t: number // Epoch milliseconds
+  value: number
+}
+
+export interface TideExtremaOptions {
+  getValue?: (record: WaterLevelPrediction) => number | null // Unit/datum conversion (default: record.v)
+  minAmplitude?: number // Rise or fall needed to confirm a turn, in value units (default 0.1)
+  timeZone?: string // IANA zone for `time` and day grouping (default UTC)
+}
+
+export interface TideDay {
+  date: string // "YYYY-MM-DD"
+  extrema: TideExtremum[]
+}
+
+interface Candidate {
+  value: number
+  startIndex: number // First and last sample of a plateau
+  endIndex: number
+}
+
+/**
+ * Find high and low tides in a prediction series
+ * A turn is confirmed only once the level moves `minAmplitude` back from the
+ * candidate extreme, so small wiggles are ignored. Flat tops/bottoms report the
+ * middle of the plateau. Turns touching either end of the series are dropped,
+ * since the true extreme may lie outside the window.
+ */
+export const findTideExtrema = (predictions: WaterLevelPrediction[], options: TideExtremaOptions = {}): TideExtremum[] => {
+  const { getValue = (record) => record.v, minAmplitude = 0.1, timeZone = 'UTC' } = options
+
+  const points = predictions
+    .map((record) => ({ t: parseApiTimestamp(record.t), v: getValue(record) }))
+    .filter((point): point is { t: number; v: number } => point.v !== null && Number.isFinite(point.t))
+    .sort((a, b) => a.t - b.t)
+
+  const extrema: TideExtremum[] = []
+  if (points.length < 3) return extrema
+
+  const emit = (type: TideType, candidate: Candidate) => {
+    if (candidate.startIndex === 0 || candidate.endIndex === points.length - 1) return
+    const t = (points[candidate.startIndex].t + points[candidate.endIndex].t) / 2
+    extrema.push({ type, t, time: formatZonedTimestamp(t, timeZone), value: candidate.value })
+  }
+
+  // Start a new candidate, or extend its plateau when the value repeats
+  const track = (candidate: Candidate, index: number, isBetter: (value: number, best: number) => boolean): Candidate => {
+    const value = points[index].v
+    if (isBetter(value, candidate.value)) return { value, startIndex: index, endIndex: index }
+    if (value === candidate.value && candidate.endIndex === index - 1) return { ...candidate, endIndex: index }
+    return candidate
+  }
+  const higher = (value: number, best: number) => value > best
+  const lower = (value: number, best: number) => value < best
+
+  let direction: 'up' | 'down' | null = null
+  let high: Candidate = { value: points[0].v, startIndex: 0, endIndex: 0 }
+  let low: Candidate = { ...high }
+
+  for (let index = 1; index < points.length; index++) {
+    const value = points[index].v
+
+    if (direction !== 'down') high = track(high, index, higher)
+    if (direction !== 'up') low = track(low, index, lower)
+
+    if (direction !== 'down' && value <= high.value - minAmplitude) {
+      emit('H', high)
+      direction = 'down'
+      low = { value, startIndex: index, endIndex: index }
+    } else if (direction !== 'up' && value >= low.value + minAmplitude) {
+      emit('L', low)
+      direction = 'up'
+      high = { value, startIndex: index, endIndex: index }
+    }
+  }
+
+  return extrema
+}
+
+/**
+ * Group extrema by calendar day of their (display zone) timestamp
+ */
+export const groupTidesByDay = (extrema: TideExtremum[]): TideDay[] => {
+  const days: TideDay[] = []
+  for (const extremum of extrema) {
+    const date = extremum.time.slice(0, 10)
+    const day = days[days.length - 1]
+    if (day && day.date === date) {
+      day.extrema.push(extremum)
+    } else {
+      days.push({ date, extrema: [extremum] })
+    }
+  }
+  return days
+}
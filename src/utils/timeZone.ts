@@ -0,0 +1,237 @@
+// Time zone conventions for station data: NOAA's GMT / LST / LST_LDT plus the user's own zone
+
+export type TimeZoneMode = 'lst_ldt' | 'lst' | 'gmt' | 'local'
+
+export const TIME_ZONE_MODES: Array<{ value: TimeZoneMode; label: string; shortLabel: string; description: string }> = [
+  { value: 'lst_ldt', label: 'Station local (LST/LDT)', shortLabel: 'LST/LDT', description: 'Station local time, with daylight saving' },
+  { value: 'lst', label: 'Station standard (LST)', shortLabel: 'LST', description: 'Station standard time all year' },
+  { value: 'local', label: 'My time zone', shortLabel: 'Local', description: "This device's time zone" },
+  { value: 'gmt', label: 'UTC / GMT', shortLabel: 'GMT', description: 'Coordinated Universal Time' },
+]
+
+export const DEFAULT_TIME_ZONE_MODE: TimeZoneMode = 'lst_ldt'
+
+/**
+ * Station time zone from NOAA station metadata
+ */
+export interface StationTimeZone {
+  offsetHours: number // Standard time offset from UTC (e.g. -5 for EST)
+  observesDst: boolean
+  abbreviation?: string // NOAA's standard time name (e.g. "EST")
+}
+
+/**
+ * A time zone ready for formatting
+ */
+export interface ResolvedTimeZone {
+  mode: TimeZoneMode
+  zone: string // IANA name for Intl
+  label: string // Short convention label for headers (e.g. "LST/LDT")
+  isEstimated: boolean // Station zone guessed from longitude (no metadata)
+}
+
+// US zones by standard offset, for stations that observe daylight saving
+const DST_ZONES: Record<number, string> = {
+  [-4]: 'America/Halifax',
+  [-5]: 'America/New_York',
+  [-6]: 'America/Chicago',
+  [-7]: 'America/Denver',
+  [-8]: 'America/Los_Angeles',
+  [-9]: 'America/Anchorage',
+  [-10]: 'America/Adak',
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+export const normalizeTimeZoneMode = (value: unknown): TimeZoneMode | null => {
+  return TIME_ZONE_MODES.some((mode) => mode.value === value) ? value as TimeZoneMode : null
+}
+
+/**
+ * Fixed-offset zone for a whole-hour offset (Etc/GMT signs are inverted)
+ */
+export const fixedOffsetZone = (offsetHours: number): string => {
+  const hours = Math.round(offsetHours)
+  if (hours === 0) return 'UTC'
+  return `Etc/GMT${hours < 0 ? '+' : '-'}${Math.abs(hours)}`
+}
+
+/**
+ * The device's IANA time zone
+ */
+export const getUserTimeZone = (): string => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+/**
+ * Rough station zone from longitude, for stations without metadata
+ */
+export const estimateStationTimeZone = (lng: number): StationTimeZone => {
+  return { offsetHours: Math.round(lng / 15), observesDst: true }
+}
+
+/**
+ * Pick the zone to display in for a mode
+ * Station modes use the station's metadata when known, otherwise a longitude
+ * estimate, otherwise GMT.
+ */
+export const resolveTimeZone = (
+  mode: TimeZoneMode,
+  station: StationTimeZone | null | undefined,
+  lng?: number
+): ResolvedTimeZone => {
+  if (mode === 'gmt') return { mode, zone: 'UTC', label: 'GMT', isEstimated: false }
+  if (mode === 'local') return { mode, zone: getUserTimeZone(), label: 'Local', isEstimated: false }
+
+  const estimated = !station && lng !== undefined && Number.isFinite(lng)
+  const source = station ?? (estimated ? estimateStationTimeZone(lng as number) : null)
+  if (!source) return { mode, zone: 'UTC', label: 'GMT', isEstimated: false }
+
+  if (mode === 'lst' || !source.observesDst) {
+    return { mode, zone: fixedOffsetZone(source.offsetHours), label: 'LST', isEstimated: estimated }
+  }
+  return {
+    mode,
+    zone: DST_ZONES[Math.round(source.offsetHours)] ?? fixedOffsetZone(source.offsetHours),
+    label: 'LST/LDT',
+    isEstimated: estimated,
+  }
+}
+
+/**
+ * Epoch milliseconds for an API timestamp
+ * "YYYY-MM-DD HH:mm" is read as GMT (the backend's download-all convention),
+ * not the browser's zone; strings with an explicit offset are passed to Date.
+ */
+export const parseApiTimestamp = (value: string): number => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/.exec(value.trim())
+  if (!match) return new Date(value).getTime()
+  const [, year, month, day, hour, minute, second] = match
+  return Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second ?? 0))
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+// Intl formatters are slow to build; reuse one per zone
+const getPartsFormatter = (zone: string) => {
+  let formatter = formatters.get(zone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    formatters.set(zone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Wall-clock fields of an instant in a zone
+ */
+export const getZonedParts = (ms: number, zone: string) => {
+  const parts: Record<string, number> = {}
+  for (const part of getPartsFormatter(zone).formatToParts(new Date(ms))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value)
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  }
+}
+
+/**
+ * Zone offset from UTC at an instant, in minutes
+ */
+export const getZoneOffsetMinutes = (ms: number, zone: string): number => {
+  const { year, month, day, hour, minute, second } = getZonedParts(ms, zone)
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second)
+  return Math.round((wallClock - Math.floor(ms / 1000) * 1000) / 60000)
+}
+
+/**
+ * "YYYY-MM-DD HH:mm" in a zone (tables and exports)
+ */
+export const formatZonedTimestamp = (ms: number, zone: string): string => {
+  const { year, month, day, hour, minute } = getZonedParts(ms, zone)
+  return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}`
+}
+
+/**
+ * "YYYY-MM-DD" calendar date in a zone
+ */
+export const formatZonedDate = (ms: number, zone: string): string => {
+  return formatZonedTimestamp(ms, zone).slice(0, 10)
+}
+
+/**
+ * Readable date and time in a zone, with the zone abbreviation
+ */
+export const formatZonedDateTime = (
+  ms: number,
+  zone: string,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }
+): string => {
+  if (!Number.isFinite(ms)) return '-'
+  const formatted = new Date(ms).toLocaleString(undefined, { ...options, timeZone: zone })
+  // dateStyle/timeStyle can't be combined with timeZoneName, so append the abbreviation
+  return `${formatted} ${getZoneAbbreviation(ms, zone)}`
+}
+
+/**
+ * Compact "Jul 1 14:30" label for chart axes and tooltips
+ */
+export const formatZonedAxisLabel = (ms: number, zone: string): string => {
+  if (!Number.isFinite(ms)) return ''
+  return new Date(ms).toLocaleString('en-US', {
+    timeZone: zone,
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  })
+}
+
+/**
+ * Short zone name at an instant (e.g. "EDT", "GMT-5", "UTC")
+ */
+export const getZoneAbbreviation = (ms: number, zone: string): string => {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'short' })
+    .formatToParts(new Date(ms))
+    .find((item) => item.type === 'timeZoneName')
+  return part?.value ?? zone
+}
+
+/**
+ * Epoch milliseconds for a "YYYY-MM-DD HH:mm" wall-clock time in a zone
+ * Re-checks the offset at the result so DST transition days land correctly.
+ */
+export const parseZonedTimestamp = (value: string, zone: string): number => {
+  const wallClock = parseApiTimestamp(value)
+  const guess = wallClock - getZoneOffsetMinutes(wallClock, zone) * 60000
+  return wallClock - getZoneOffsetMinutes(guess, zone) * 60000
+}
+
+/**
+ * Instant of local midnight on a YYYY-MM-DD date in a zone
+ */
+export const startOfZonedDay = (date: string, zone: string): number => {
+  return parseZonedTimestamp(`${date} 00:00`, zone)
+}
+
+/**
+ * Today's YYYY-MM-DD date in a zone
+ */
+export const getZonedToday = (zone: string, now = new Date()): string => {
+  return formatZonedDate(now.getTime(), zone)
+}
@@ -0,0 +1,75 @@
+import L from 'leaflet'
+
+export interface TransectSamplePoint {
+  lat: number
+  lng: number
+  distance: number // Meters from the start of the line
+}
+
+// Upper bound on GetFeatureInfo requests per profile
+export const MAX_TRANSECT_SAMPLES = 100
+
+// Never sample closer than the ~10 m DEM resolution
+const MIN_SAMPLE_SPACING = 10
+
+/**
+ * Total polyline length in meters
+ */
+export const getTransectLength = (points: L.LatLng[]): number => {
+  let length = 0
+  for (let i = 1; i < points.length; i++) {
+    length += points[i - 1].distanceTo(points[i])
+  }
+  return length
+}
+
+/**
+ * Evenly spaced sample points along a polyline (vertices are not forced in)
+ * Spacing grows with the line length so the count stays under MAX_TRANSECT_SAMPLES.
+ */
+export const sampleTransect = (points: L.LatLng[]): TransectSamplePoint[] => {
+  if (points.length < 2) return []
+
+  const totalLength = getTransectLength(points)
+  if (totalLength === 0) return []
+
+  const spacing = Math.max(MIN_SAMPLE_SPACING, totalLength / (MAX_TRANSECT_SAMPLES - 1))
+  const samples: TransectSamplePoint[] = []
+  let segmentStart = 0 // Distance at the start of the current segment
+  let segment = 1
+
+  for (let distance = 0; distance <= totalLength + 1e-6; distance += spacing) {
+    // Advance to the segment that contains this distance
+    while (segment < points.length - 1 && segmentStart + points[segment - 1].distanceTo(points[segment]) < distance) {
+      segmentStart += points[segment - 1].distanceTo(points[segment])
+      segment++
+    }
+
+    const from = points[segment - 1]
+    const to = points[segment]
+    const segmentLength = from.distanceTo(to)
+    const t = segmentLength > 0 ? Math.min(1, (distance - segmentStart) / segmentLength) : 0
+
+    // Linear interpolation in lat/lng is accurate enough at transect scale
+    samples.push({
+      lat: from.lat + (to.lat - from.lat) * t,
+      lng: from.lng + (to.lng - from.lng) * t,
+      distance,
+    })
+  }
+
+  // Always include the end of the line
+  const last = points[points.length - 1]
+  if (totalLength - samples[samples.length - 1].distance > spacing / 2) {
+    samples.push({ lat: last.lat, lng: last.lng, distance: totalLength })
+  }
+
+  return samples
+}
+
+/**
+ * Format a distance for axis labels ("850 m", "1.25 km")
+ */
+export const formatDistance = (meters: number): string => {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${Math.round(meters)} m`
+}
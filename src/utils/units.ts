@@ -0,0 +1,147 @@
+// Length unit and vertical datum conversion for water levels and depths
+
+export type LengthUnit = 'ft' | 'm'
+export type VerticalDatum = 'MLLW' | 'MSL' | 'NAVD88'
+
+export const LENGTH_UNITS: Array<{ value: LengthUnit; label: string }> = [
+  { value: 'ft', label: 'Feet' },
+  { value: 'm', label: 'Meters' },
+]
+
+export const VERTICAL_DATUMS: Array<{ value: VerticalDatum; label: string }> = [
+  { value: 'MLLW', label: 'MLLW' },
+  { value: 'MSL', label: 'MSL' },
+  { value: 'NAVD88', label: 'NAVD88' },
+]
+
+// Datum elevations in feet above a common reference (station datum or NAVD88)
+export type DatumOffsets = Partial<Record<VerticalDatum, number>>
+
+const METERS_PER_FOOT = 0.3048
+
+/**
+ * Normalize unit names from APIs and GeoServer ("feet", "ft", "meters", "m")
+ */
+export const normalizeLengthUnit = (unit: string | null | undefined): LengthUnit | null => {
+  const name = unit?.trim().toLowerCase()
+  if (!name) return null
+  if (['ft', 'foot', 'feet'].includes(name)) return 'ft'
+  if (['m', 'meter', 'meters', 'metre', 'metres'].includes(name)) return 'm'
+  return null
+}
+
+/**
+ * Normalize datum names ("NAVD", "NAVD 88" -> NAVD88)
+ */
+export const normalizeDatum = (datum: string | null | undefined): VerticalDatum | null => {
+  const name = datum?.replace(/\s+/g, '').toUpperCase()
+  if (name === 'MLLW' || name === 'MSL') return name
+  if (name === 'NAVD88' || name === 'NAVD') return 'NAVD88'
+  return null
+}
+
+/**
+ * Convert a length between feet and meters (unknown source units are returned unchanged)
+ */
+export const convertLength = (value: number, from: LengthUnit | string, to: LengthUnit): number => {
+  const source = normalizeLengthUnit(from)
+  if (!source || source === to) return value
+  return to === 'm' ? value * METERS_PER_FOOT : value / METERS_PER_FOOT
+}
+
+/**
+ * Format a length with its unit label ("1.23 ft"), or "-" when missing
+ */
+export const formatLength = (value: number | null | undefined, unit: LengthUnit, digits = 2): string => {
+  return value === null || value === undefined ? '-' : `${value.toFixed(digits)} ${unit}`
+}
+
+/**
+ * Move an elevation (in feet) from one datum to another
+ * Returns null when either datum has no known offset.
+ */
+export const convertDatum = (
+  valueFeet: number,
+  from: VerticalDatum | string,
+  to: VerticalDatum,
+  offsets: DatumOffsets
+): number | null => {
+  const source = normalizeDatum(from)
+  if (source === to) return valueFeet
+  if (!source) return null
+
+  const sourceOffset = offsets[source]
+  const targetOffset = offsets[to]
+  if (sourceOffset === undefined || targetOffset === undefined) return null
+
+  return valueFeet + sourceOffset - targetOffset
+}
+
+/**
+ * Datum offsets implied by records that carry both `v` and `v_navd`
+ * Only relates the records' own datum to NAVD88 (MSL needs the station datums).
+ */
+export const deriveDatumOffsets = (
+  records: Array<{ v: number; v_navd: number | null; used_datum: string }>
+): DatumOffsets => {
+  const differences = new Map<VerticalDatum, number[]>()
+  for (const record of records) {
+    const datum = normalizeDatum(record.used_datum)
+    if (!datum || datum === 'NAVD88' || record.v_navd === null || record.v_navd === undefined) continue
+    differences.set(datum, [...(differences.get(datum) ?? []), record.v_navd - record.v])
+  }
+
+  const offsets: DatumOffsets = {}
+  differences.forEach((values, datum) => {
+    // Median ignores the odd record with a stale NAVD value
+    const sorted = [...values].sort((a, b) => a - b)
+    offsets[datum] = sorted[Math.floor(sorted.length / 2)]
+    offsets.NAVD88 = 0
+  })
+  return offsets
+}
+
+type LevelRecord = { v: number; v_navd: number | null; used_datum: string }
+
+export interface WaterLevelConverter {
+  valueOf: (record: LevelRecord) => number | null // Record value in `unit` above `datum`
+  levelOf: (valueFeet: number, from: VerticalDatum) => number | null // Any level, e.g. flood stages
+  datum: VerticalDatum // Datum actually used (the preferred one unless unreachable)
+  isDatumFallback: boolean
+}
+
+/**
+ * Build a converter from a station's records to a display unit and datum
+ * If the preferred datum can't be reached with `offsets`, values stay in the
+ * records' own datum and `isDatumFallback` is set.
+ */
+export const createWaterLevelConverter = (
+  offsets: DatumOffsets,
+  sample: LevelRecord | undefined,
+  unit: LengthUnit,
+  preferredDatum: VerticalDatum
+): WaterLevelConverter => {
+  const toDatumFeet = (record: LevelRecord, datum: VerticalDatum): number | null => {
+    if (datum === 'NAVD88' && record.v_navd !== null && record.v_navd !== undefined) {
+      return record.v_navd
+    }
+    return convertDatum(record.v, record.used_datum, datum, offsets)
+  }
+
+  const datum: VerticalDatum = !sample || toDatumFeet(sample, preferredDatum) !== null
+    ? preferredDatum
+    : normalizeDatum(sample.used_datum) ?? preferredDatum
+
+  return {
+    valueOf: (record) => {
+      const feet = toDatumFeet(record, datum)
+      return feet === null ? null : convertLength(feet, 'ft', unit)
+    },
+    levelOf: (valueFeet, from) => {
+      const feet = convertDatum(valueFeet, from, datum, offsets)
+      return feet === null ? null : convertLength(feet, 'ft', unit)
+    },
+    datum,
+    isDatumFallback: datum !== preferredDatum,
+  }
+}
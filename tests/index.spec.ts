@@ -27,8 +27,8 @@ test.describe('Index Page - Map with Layer Switching', () => {
     await expect(layerController.locator('input[type="checkbox"]')).toHaveCount(2);
 
     // Check layer names
-    await expect(layerController.getByText('Raster Data 1')).toBeVisible();
-    await expect(layerController.getByText('Raster Data 2')).toBeVisible();
+    await expect(layerController.getByText('Norfolk DEM Layer 1')).toBeVisible();
+    await expect(layerController.getByText('Norfolk DEM Layer 2')).toBeVisible();
   });
 
   test('should display base layer switcher in bottom-right', async ({ page }) => {
@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'vitest';
+import { csvField, datasetToCSV, datasetToJSON, type ExportDataset } from '../../src/utils/dataExport';
+
+const dataset: ExportDataset = {
+  filename: 'station_8638610',
+  metadata: { station_id: '8638610', station_name: 'Sewells Point, VA', datum: 'MLLW', comment: '' },
+  tables: [
+    {
+      name: 'Predictions',
+      columns: [
+        { key: 't', label: 'Time', description: 'GMT' },
+        { key: 'v', label: 'Water level', units: 'ft' },
+      ],
+      rows: [{ t: '2024-01-01 00:00', v: 1.5 }],
+    },
+    {
+      name: 'Observations',
+      columns: [
+        { key: 't', label: 'Time', description: 'GMT' },
+        { key: 'v', label: 'Water level', units: 'ft' },
+        { key: 'q', label: 'Quality' },
+      ],
+      rows: [{ t: '2024-01-01 00:00', v: null, q: 'p' }],
+    },
+  ],
+};
+
+describe('csvField', () => {
+  test('quotes fields with delimiters, quotes or newlines', () => {
+    expect(csvField('plain')).toBe('plain');
+    expect(csvField('a,b')).toBe('"a,b"');
+    expect(csvField('say "hi"')).toBe('"say ""hi"""');
+    expect(csvField('two\nlines')).toBe('"two\nlines"');
+    expect(csvField(0)).toBe('0');
+    expect(csvField(null)).toBe('');
+    expect(csvField(undefined)).toBe('');
+  });
+});
+
+describe('datasetToCSV', () => {
+  test('writes CF attributes and column descriptions before stacked rows', () => {
+    expect(datasetToCSV(dataset).split('\n')).toEqual([
+      '# Conventions: CF-1.8',
+      '# station_id: 8638610',
+      '# station_name: Sewells Point, VA',
+      '# datum: MLLW',
+      '# column t: Time: GMT',
+      '# column v: Water level [ft]',
+      '# column q: Quality',
+      'series,t,v,q',
+      'Predictions,2024-01-01 00:00,1.5,',
+      'Observations,2024-01-01 00:00,,p',
+    ]);
+  });
+
+  test('omits the series column for a single table', () => {
+    const lines = datasetToCSV({ ...dataset, tables: [dataset.tables[0]] }).split('\n');
+    expect(lines.slice(-2)).toEqual(['t,v', '2024-01-01 00:00,1.5']);
+  });
+});
+
+describe('datasetToJSON', () => {
+  test('keeps metadata, columns and rows per table with nulls for missing values', () => {
+    const json = JSON.parse(datasetToJSON(dataset));
+    expect(json.metadata).toEqual({ Conventions: 'CF-1.8', ...dataset.metadata });
+    expect(json.tables.map((table: { name: string }) => table.name)).toEqual(['Predictions', 'Observations']);
+    expect(json.tables[1].rows).toEqual([{ t: '2024-01-01 00:00', v: null, q: 'p' }]);
+  });
+});
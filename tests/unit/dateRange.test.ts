@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'vitest';
+import {
+  addDays,
+  getPresetRange,
+  getRangeDays,
+  splitDateRange,
+  toApiDateRange,
+  validateDateRange,
+} from '../../src/utils/dateRange';
+
+const NOW = new Date('2024-03-10T12:00:00Z');
+
+describe('date arithmetic', () => {
+  test('shifts dates across month and year ends', () => {
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2024-01-01', -1)).toBe('2023-12-31');
+    expect(getRangeDays({ start: '2024-03-01', end: '2024-03-31' })).toBe(30);
+  });
+});
+
+describe('getPresetRange', () => {
+  test('covers whole calendar days in the display zone', () => {
+    expect(getPresetRange('yesterdayToday', NOW, 'UTC')).toEqual({ start: '2024-03-09', end: '2024-03-10' });
+    expect(getPresetRange('last7d', NOW, 'UTC')).toEqual({ start: '2024-03-04', end: '2024-03-10' });
+    expect(getPresetRange('next2d', NOW, 'UTC')).toEqual({ start: '2024-03-10', end: '2024-03-12' });
+    expect(getPresetRange('storm', NOW, 'UTC')).toEqual({ start: '2024-03-07', end: '2024-03-12' });
+  });
+
+  test('takes today from the display zone', () => {
+    const lateEvening = new Date('2024-03-10T02:00:00Z'); // Still March 9 in New York
+    expect(getPresetRange('yesterdayToday', lateEvening, 'America/New_York').end).toBe('2024-03-09');
+  });
+});
+
+describe('validateDateRange', () => {
+  const validate = (start: string, end: string) => validateDateRange({ start, end }, NOW, 'UTC');
+
+  test('accepts ordered ranges within the limits', () => {
+    expect(validate('2024-03-01', '2024-03-10')).toBeNull();
+    expect(validate('2024-03-10', '2024-03-10')).toBeNull();
+  });
+
+  test('explains what is wrong with a range', () => {
+    expect(validate('', '2024-03-10')).toBe('Select a start and end date');
+    expect(validate('03/01/2024', '2024-03-10')).toBe('Dates must be YYYY-MM-DD');
+    expect(validate('2009-12-31', '2010-01-05')).toBe('Data starts on 2010-01-01');
+    expect(validate('2024-03-10', '2024-03-01')).toBe('End date must be on or after the start date');
+    expect(validate('2022-01-01', '2024-01-01')).toBe('Ranges can span at most 366 days');
+    expect(validate('2025-03-01', '2025-03-12')).toBe('Predictions are available up to 365 days ahead');
+  });
+});
+
+describe('splitDateRange', () => {
+  test('splits long ranges into chunks that share their boundary day', () => {
+    expect(splitDateRange({ start: '2024-01-01', end: '2024-03-01' })).toEqual([
+      { start: '2024-01-01', end: '2024-01-31' },
+      { start: '2024-01-31', end: '2024-03-01' },
+    ]);
+  });
+
+  test('keeps a single day as one chunk', () => {
+    expect(splitDateRange({ start: '2024-01-01', end: '2024-01-01' })).toEqual([{ start: '2024-01-01', end: '2024-01-01' }]);
+  });
+});
+
+describe('toApiDateRange', () => {
+  test('requests every GMT day the local days touch and bounds them to local midnight', () => {
+    const { request, startMs, endMs } = toApiDateRange({ start: '2024-03-10', end: '2024-03-10' }, 'America/New_York');
+    expect(request).toEqual({ start: '2024-03-10', end: '2024-03-11' });
+    expect(new Date(startMs).toISOString()).toBe('2024-03-10T05:00:00.000Z');
+    expect(new Date(endMs).toISOString()).toBe('2024-03-11T04:00:00.000Z'); // DST began that day
+  });
+
+  test('is unchanged for GMT', () => {
+    expect(toApiDateRange({ start: '2024-03-10', end: '2024-03-11' }, 'UTC').request).toEqual({ start: '2024-03-10', end: '2024-03-11' });
+  });
+});
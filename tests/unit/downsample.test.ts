@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'vitest';
+import { downsampleForView, downsampleIndices, type SeriesPoint } from '../../src/utils/downsample';
+
+const wave = (count: number): SeriesPoint[] => Array.from({ length: count }, (_, x) => ({ x, y: Math.sin(x / 20) }));
+
+const isAscendingUnique = (indices: number[]) => indices.every((index, i) => i === 0 || index > indices[i - 1]);
+
+describe('downsampleIndices', () => {
+  test('draws short series as-is', () => {
+    expect(downsampleIndices(wave(50), 10)).toEqual(Array.from({ length: 50 }, (_, index) => index));
+  });
+
+  test('reduces long series to the budget, keeping both ends', () => {
+    const indices = downsampleIndices(wave(1000), 100);
+    expect(indices).toHaveLength(100);
+    expect(indices[0]).toBe(0);
+    expect(indices[indices.length - 1]).toBe(999);
+    expect(isAscendingUnique(indices)).toBe(true);
+  });
+
+  test('keeps a spike that a stride would skip', () => {
+    const points = wave(1000);
+    points[501] = { x: 501, y: 50 };
+    expect(downsampleIndices(points, 100)).toContain(501);
+  });
+
+  test('keeps gap breaks and the points around them', () => {
+    const points = wave(1000);
+    points[400] = { x: 400, y: null };
+    const indices = downsampleIndices(points, 100);
+    expect(indices).toEqual(expect.arrayContaining([0, 399, 400, 401, 999]));
+    expect(isAscendingUnique(indices)).toBe(true);
+  });
+
+  test('merges points that must survive', () => {
+    const indices = downsampleIndices(wave(1000), 100, { keep: (index) => index === 123 });
+    expect(indices).toContain(123);
+    expect(isAscendingUnique(indices)).toBe(true);
+  });
+});
+
+describe('downsampleForView', () => {
+  test('spends the full budget inside the view and still covers the whole series', () => {
+    const indices = downsampleForView(wave(10000), 100, { min: 5000, max: 5200 });
+    const inView = indices.filter((index) => index >= 4999 && index <= 5201);
+
+    expect(inView.length).toBeGreaterThanOrEqual(100);
+    expect(indices[0]).toBe(0);
+    expect(indices[indices.length - 1]).toBe(9999);
+    expect(isAscendingUnique(indices)).toBe(true);
+  });
+
+  test('falls back to the overview without a view', () => {
+    expect(downsampleForView(wave(1000), 100, null)).toEqual(downsampleIndices(wave(1000), 100));
+  });
+});
@@ -0,0 +1,109 @@
+// @vitest-environment jsdom
+import { describe, expect, test } from 'vitest';
+import {
+  FeatureInfoError,
+  matchFeatureLayer,
+  parseGMLFeatureInfo,
+  parseJSONFeatureInfo,
+  parsePlainFeatureInfo,
+  readRasterValue,
+} from '../../src/api/featureInfo';
+
+describe('parseJSONFeatureInfo', () => {
+  test('reads ids, layers and primitive properties', () => {
+    const features = parseJSONFeatureInfo(JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', id: 'flood-app:depth.fid-1', properties: { GRAY_INDEX: 1.25, name: 'a', nested: { x: 1 } }, geometry: null },
+        { type: 'Feature', id: 42, properties: { band_1: 3 } },
+      ],
+    }));
+
+    expect(features).toEqual([
+      { id: 'flood-app:depth.fid-1', layer: 'depth', properties: { GRAY_INDEX: 1.25, name: 'a' }, geometry: undefined },
+      { id: '42', layer: '42', properties: { band_1: 3 }, geometry: undefined },
+    ]);
+  });
+
+  test('rejects invalid JSON and documents without features', () => {
+    expect(() => parseJSONFeatureInfo('<html>')).toThrow(FeatureInfoError);
+    expect(() => parseJSONFeatureInfo('{"type":"FeatureCollection"}')).toThrow('no features array');
+  });
+});
+
+describe('parseGMLFeatureInfo', () => {
+  test('reads one feature per featureMember with coerced values', () => {
+    const features = parseGMLFeatureInfo(`<?xml version="1.0"?>
+      <wfs:FeatureCollection xmlns:wfs="http://www.opengis.net/wfs" xmlns:gml="http://www.opengis.net/gml" xmlns:flood-app="urn:flood-app">
+        <gml:featureMember>
+          <flood-app:depth fid="depth.1">
+            <flood-app:GRAY_INDEX>0.75</flood-app:GRAY_INDEX>
+            <flood-app:label>dry</flood-app:label>
+            <flood-app:empty></flood-app:empty>
+            <flood-app:the_geom><gml:Point><gml:coordinates>1,2</gml:coordinates></gml:Point></flood-app:the_geom>
+          </flood-app:depth>
+        </gml:featureMember>
+      </wfs:FeatureCollection>`);
+
+    expect(features).toEqual([
+      { id: 'depth.1', layer: 'depth', properties: { GRAY_INDEX: 0.75, label: 'dry', empty: null } },
+    ]);
+  });
+
+  test('rejects malformed XML', () => {
+    expect(() => parseGMLFeatureInfo('<unclosed>')).toThrow(FeatureInfoError);
+  });
+});
+
+describe('parsePlainFeatureInfo', () => {
+  test('splits blocks and features and strips the workspace', () => {
+    const features = parsePlainFeatureInfo([
+      "Results for FeatureType 'http://host/geoserver/flood-app:depth':",
+      '--------------------------------------------',
+      'GRAY_INDEX = 1.5',
+      '--------------------------------------------',
+      "Results for FeatureType 'flood-app:wse':",
+      'GRAY_INDEX = -9999',
+      'note = high tide',
+    ].join('\n'));
+
+    expect(features).toEqual([
+      { layer: 'depth', properties: { GRAY_INDEX: 1.5 } },
+      { layer: 'wse', properties: { GRAY_INDEX: -9999, note: 'high tide' } },
+    ]);
+  });
+
+  test('returns no features for an empty response', () => {
+    expect(parsePlainFeatureInfo('no features were found\n')).toEqual([]);
+  });
+});
+
+describe('readRasterValue', () => {
+  test('prefers GRAY_INDEX, then band_N, then the first numeric property', () => {
+    expect(readRasterValue({ properties: { band_1: 2, GRAY_INDEX: 1 } })).toBe(1);
+    expect(readRasterValue({ properties: { label: 'x', band_2: 2 } })).toBe(2);
+    expect(readRasterValue({ properties: { label: 'x', depth: '3.5', value: 4 } })).toBe(4);
+    expect(readRasterValue({ properties: { label: 'x' } })).toBeNull();
+  });
+
+  test('treats NoData sentinels, extremes and negatives as missing', () => {
+    expect(readRasterValue({ properties: { GRAY_INDEX: -9999 } })).toBeNull();
+    expect(readRasterValue({ properties: { GRAY_INDEX: 3.4028234663852886e38 } })).toBeNull();
+    expect(readRasterValue({ properties: { GRAY_INDEX: 12 } }, { noData: [12] })).toBeNull();
+    expect(readRasterValue({ properties: { GRAY_INDEX: -0.5 } })).toBeNull();
+    expect(readRasterValue({ properties: { GRAY_INDEX: -0.5 } }, { allowNegative: true })).toBe(-0.5);
+  });
+});
+
+describe('matchFeatureLayer', () => {
+  const layers = ['flood-app:depth', 'flood-app:wse'];
+
+  test('matches by unqualified layer name', () => {
+    expect(matchFeatureLayer({ layer: 'wse', properties: {} }, 0, layers, 1)).toBe('flood-app:wse');
+  });
+
+  test('falls back to response order only when every layer answered', () => {
+    expect(matchFeatureLayer({ properties: {} }, 1, layers, 2)).toBe('flood-app:wse');
+    expect(matchFeatureLayer({ properties: {} }, 0, layers, 1)).toBeUndefined();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'vitest';
+import { findPeriodsAbove, getStageAt, summarizeExceedance } from '../../src/utils/floodStages';
+
+const series = (values: Array<number | null>) => values.map((v, t) => ({ t, v }));
+
+describe('getStageAt', () => {
+  const stages = { action: 1, minor: 3, major: 5 };
+
+  test('returns the highest stage reached', () => {
+    expect(getStageAt(0.5, stages)).toBeNull();
+    expect(getStageAt(1, stages)).toBe('action');
+    expect(getStageAt(4, stages)).toBe('minor');
+    expect(getStageAt(6, stages)).toBe('major');
+  });
+});
+
+describe('findPeriodsAbove', () => {
+  test('interpolates the crossing times between samples', () => {
+    expect(findPeriodsAbove(series([0, 2, 4, 2, 0]), 3)).toEqual([{ start: 1.5, end: 2.5 }]);
+  });
+
+  test('ends a period at the last valid sample before a gap', () => {
+    expect(findPeriodsAbove(series([4, 4, null, 4, 0]), 3)).toEqual([
+      { start: 0, end: 1 },
+      { start: 3, end: 3.25 },
+    ]);
+  });
+
+  test('keeps a period open to the last sample', () => {
+    expect(findPeriodsAbove(series([0, 4, 5]), 2)).toEqual([{ start: 0.5, end: 2 }]);
+    expect(findPeriodsAbove(series([0, 1]), 2)).toEqual([]);
+  });
+});
+
+describe('summarizeExceedance', () => {
+  test('reports the peak, first crossings and periods above the lowest stage', () => {
+    const summary = summarizeExceedance(series([0, 2, 4, 2, 0]), { action: 1, minor: 3 });
+
+    expect(summary.peak).toEqual({ value: 4, time: 2 });
+    expect(summary.highestLevel).toBe('minor');
+    expect(summary.firstCrossings).toEqual({ action: 0.5, minor: 1.5 });
+    expect(summary.periods).toEqual([{ start: 0.5, end: 3.5, level: 'minor', peak: 4, peakTime: 2 }]);
+  });
+
+  test('has no periods without stages', () => {
+    const summary = summarizeExceedance(series([1, 2]), {});
+    expect(summary.periods).toEqual([]);
+    expect(summary.highestLevel).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'vitest';
+import {
+  computeCompleteness,
+  findGaps,
+  formatSampleInterval,
+  inferSampleInterval,
+  insertGapBreaks,
+} from '../../src/utils/gaps';
+
+const MINUTE = 60 * 1000;
+const minutes = (values: number[]) => values.map((value) => value * MINUTE);
+const HOUR_WINDOW = { start: 0, end: 60 * MINUTE };
+
+describe('inferSampleInterval', () => {
+  test('takes the median step and snaps it to a NOAA interval', () => {
+    expect(inferSampleInterval(minutes([0, 6, 12, 30, 36]))).toBe(6 * MINUTE);
+    expect(inferSampleInterval(minutes([0, 58, 120, 181]))).toBe(60 * MINUTE);
+    expect(inferSampleInterval(minutes([0, 15, 30]))).toBe(15 * MINUTE);
+    expect(inferSampleInterval([0])).toBeNull();
+  });
+
+  test('labels intervals', () => {
+    expect(formatSampleInterval(6 * MINUTE)).toBe('6-minute');
+    expect(formatSampleInterval(15 * MINUTE)).toBe('15 min');
+    expect(formatSampleInterval(null)).toBe('Unknown');
+  });
+});
+
+describe('findGaps', () => {
+  test('finds interior gaps and counts the missing samples', () => {
+    expect(findGaps(minutes([0, 6, 12, 30, 36]), 6 * MINUTE)).toEqual([
+      { start: 12 * MINUTE, end: 30 * MINUTE, missing: 2, edge: null },
+    ]);
+  });
+
+  test('tolerates a slightly late sample', () => {
+    expect(findGaps(minutes([0, 6, 14, 20]), 6 * MINUTE)).toEqual([]);
+  });
+
+  test('reports gaps at the edges of the window', () => {
+    expect(findGaps(minutes([12, 18, 24, 30, 36, 42]), 6 * MINUTE, HOUR_WINDOW)).toEqual([
+      { start: 0, end: 12 * MINUTE, missing: 2, edge: 'start' },
+      { start: 42 * MINUTE, end: 60 * MINUTE, missing: 2, edge: 'end' },
+    ]);
+  });
+});
+
+describe('computeCompleteness', () => {
+  test('compares present samples with the expected count', () => {
+    const completeness = computeCompleteness(minutes([0, 6, 12, 30, 36, 42, 48, 54]), HOUR_WINDOW);
+    expect(completeness).toMatchObject({ interval: 6 * MINUTE, expected: 10, present: 8, ratio: 0.8 });
+    expect(completeness.gaps).toHaveLength(1);
+  });
+
+  test('treats an empty window as one gap', () => {
+    expect(computeCompleteness([], HOUR_WINDOW, 6 * MINUTE)).toEqual({
+      interval: 6 * MINUTE,
+      expected: 10,
+      present: 0,
+      ratio: 0,
+      gaps: [{ start: 0, end: 60 * MINUTE, missing: 10, edge: 'start' }],
+    });
+  });
+
+  test('ignores samples outside the window', () => {
+    expect(computeCompleteness(minutes([-6, 0, 6, 60]), { start: 0, end: 12 * MINUTE }, 6 * MINUTE).present).toBe(2);
+  });
+});
+
+describe('insertGapBreaks', () => {
+  test('inserts a break point inside each gap', () => {
+    const points = minutes([0, 6, 30]).map((x) => ({ x, y: 1 as number | null }));
+    expect(insertGapBreaks(points, 6 * MINUTE, (x) => ({ x, y: null }))).toEqual([
+      { x: 0, y: 1 },
+      { x: 6 * MINUTE, y: 1 },
+      { x: 12 * MINUTE, y: null },
+      { x: 30 * MINUTE, y: 1 },
+    ]);
+  });
+
+  test('leaves the series alone without an interval', () => {
+    const points = [{ x: 0 }, { x: 100 * MINUTE }];
+    expect(insertGapBreaks(points, null, (x) => ({ x }))).toBe(points);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, test } from 'vitest';
+import {
+  decodeFlagString,
+  decodeQuality,
+  decodeQualityLevel,
+  describeQualityFlags,
+  isSuspectObservation,
+} from '../../src/utils/qualityFlags';
+
+describe('decodeFlagString', () => {
+  test('reads the outlier count and the F, R and L flags', () => {
+    expect(decodeFlagString('0,0,0,0')).toEqual({ outlierCount: 0, flags: [] });
+    expect(decodeFlagString('4,0,1,0')).toEqual({ outlierCount: 4, flags: ['outlier', 'rate'] });
+    expect(decodeFlagString('0, 1, 0, 1')).toEqual({ outlierCount: 0, flags: ['flat', 'limit'] });
+  });
+
+  test('treats missing or malformed fields as not set', () => {
+    expect(decodeFlagString(undefined)).toEqual({ outlierCount: 0, flags: [] });
+    expect(decodeFlagString('x,1')).toEqual({ outlierCount: 0, flags: ['flat'] });
+    expect(decodeFlagString('-2,0,0,0')).toEqual({ outlierCount: 0, flags: [] });
+  });
+});
+
+describe('decodeQualityLevel', () => {
+  test('maps p and v, case-insensitively', () => {
+    expect(decodeQualityLevel('p')).toBe('preliminary');
+    expect(decodeQualityLevel(' V ')).toBe('verified');
+    expect(decodeQualityLevel('')).toBeNull();
+  });
+});
+
+describe('decodeQuality', () => {
+  test('combines flags and level and marks flagged records suspect', () => {
+    expect(decodeQuality({ f: '2,0,0,1', q: 'v' })).toEqual({
+      outlierCount: 2,
+      flags: ['outlier', 'limit'],
+      level: 'verified',
+      isSuspect: true,
+    });
+    expect(isSuspectObservation({ f: '0,0,0,0', q: 'p' })).toBe(false);
+  });
+
+  test('describes the set flags in NOAA order', () => {
+    expect(describeQualityFlags({ flags: ['rate', 'outlier'], outlierCount: 4 })).toBe('3-sigma outliers (4), Rate of change');
+    expect(describeQualityFlags({ flags: [], outlierCount: 0 })).toBe('');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from 'vitest';
+import { alignWaterLevels, computeResidualStats } from '../../src/utils/surge';
+import type { WaterLevelObservation, WaterLevelPrediction } from '../../src/types/map';
+
+const prediction = (t: string, v: number): WaterLevelPrediction => ({
+  id: 0, station_id: '8638610', t, v, v_navd: null, type: 'prediction', used_datum: 'MLLW',
+});
+
+const observation = (t: string, v: number): WaterLevelObservation => ({
+  id: 0, station_id: '8638610', t, v, s: '0', f: '0,0,0,0', q: 'p', v_navd: null, used_datum: 'MLLW',
+});
+
+describe('alignWaterLevels', () => {
+  test('joins records by timestamp, sorted, with residuals where both exist', () => {
+    const rows = alignWaterLevels(
+      [prediction('2024-01-01 00:06', 2), prediction('2024-01-01 00:00', 1)],
+      [observation('2024-01-01 00:06', 2.5), observation('2024-01-01 00:12', 3)],
+      (record) => record.v
+    );
+
+    expect(rows).toEqual([
+      { time: '2024-01-01 00:00', prediction: 1, observation: null, residual: null },
+      { time: '2024-01-01 00:06', prediction: 2, observation: 2.5, residual: 0.5 },
+      { time: '2024-01-01 00:12', prediction: null, observation: 3, residual: null },
+    ]);
+  });
+
+  test('computes residuals from converted values', () => {
+    const rows = alignWaterLevels(
+      [prediction('2024-01-01 00:00', 1)],
+      [observation('2024-01-01 00:00', 2)],
+      (record) => record.v * 10
+    );
+    expect(rows[0].residual).toBe(10);
+  });
+});
+
+describe('computeResidualStats', () => {
+  test('reports extremes, bias and RMSE over rows with a residual', () => {
+    const stats = computeResidualStats([
+      { time: 'a', prediction: 1, observation: 2, residual: 1 },
+      { time: 'b', prediction: 1, observation: null, residual: null },
+      { time: 'c', prediction: 2, observation: 1, residual: -1 },
+      { time: 'd', prediction: 0, observation: 3, residual: 3 },
+    ]);
+
+    expect(stats.count).toBe(3);
+    expect(stats.maxSurge).toEqual({ value: 3, time: 'd' });
+    expect(stats.minSurge).toEqual({ value: -1, time: 'c' });
+    expect(stats.bias).toBeCloseTo(1);
+    expect(stats.rmse).toBeCloseTo(Math.sqrt(11 / 3));
+  });
+
+  test('is empty without residuals', () => {
+    expect(computeResidualStats([])).toEqual({ count: 0, maxSurge: null, minSurge: null, bias: null, rmse: null });
+  });
+});
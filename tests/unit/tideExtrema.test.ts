@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'vitest';
+import { findTideExtrema, groupTidesByDay } from '../../src/utils/tideExtrema';
+import type { WaterLevelPrediction } from '../../src/types/map';
+
+// Hourly predictions from 2024-01-01 00:00 GMT
+const hourly = (values: number[]): WaterLevelPrediction[] => values.map((v, hour) => ({
+  id: hour,
+  station_id: '8638610',
+  t: `2024-01-01 ${String(hour).padStart(2, '0')}:00`,
+  v,
+  v_navd: null,
+  type: 'prediction',
+  used_datum: 'MLLW',
+}));
+
+describe('findTideExtrema', () => {
+  test('finds alternating highs and lows', () => {
+    const extrema = findTideExtrema(hourly([0, 1, 2, 1, 0, -1, -2, -1, 0]));
+    expect(extrema.map(({ type, time, value }) => ({ type, time, value }))).toEqual([
+      { type: 'H', time: '2024-01-01 02:00', value: 2 },
+      { type: 'L', time: '2024-01-01 06:00', value: -2 },
+    ]);
+  });
+
+  test('reports the middle of a flat top', () => {
+    const [high] = findTideExtrema(hourly([0, 1, 2, 2, 1, 0]));
+    expect(high.type).toBe('H');
+    expect(high.time).toBe('2024-01-01 02:30');
+  });
+
+  test('ignores wiggles smaller than minAmplitude', () => {
+    const extrema = findTideExtrema(hourly([0, 1, 2, 1.8, 2.1, 1, 0]), { minAmplitude: 0.5 });
+    expect(extrema.map(({ type, value }) => ({ type, value }))).toEqual([{ type: 'H', value: 2.1 }]);
+  });
+
+  test('drops turns at the edges of the window', () => {
+    expect(findTideExtrema(hourly([0, 1, 2]))).toEqual([]);
+    // The falling start is no confirmed high; the low after it is
+    expect(findTideExtrema(hourly([2, 1, 0, 1])).map((extremum) => extremum.type)).toEqual(['L']);
+  });
+
+  test('uses converted values and the display zone', () => {
+    const [high] = findTideExtrema(hourly([0, 1, 2, 1, 0]), {
+      getValue: (record) => record.v * 2,
+      timeZone: 'America/New_York',
+    });
+    expect(high.value).toBe(4);
+    expect(high.time).toBe('2023-12-31 21:00');
+  });
+});
+
+describe('groupTidesByDay', () => {
+  test('groups consecutive extrema by their local date', () => {
+    const extrema = findTideExtrema(hourly([0, 1, 2, 1, 0, -1, -2, -1, 0]), { timeZone: 'America/New_York' });
+    expect(groupTidesByDay(extrema).map((day) => [day.date, day.extrema.map((extremum) => extremum.type)])).toEqual([
+      ['2023-12-31', ['H']],
+      ['2024-01-01', ['L']],
+    ]);
+  });
+});
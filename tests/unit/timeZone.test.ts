@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'vitest';
+import {
+  fixedOffsetZone,
+  formatZonedTimestamp,
+  getZoneOffsetMinutes,
+  parseApiTimestamp,
+  parseZonedTimestamp,
+  resolveTimeZone,
+  startOfZonedDay,
+} from '../../src/utils/timeZone';
+
+describe('parseApiTimestamp', () => {
+  test('reads API timestamps as GMT whatever the device zone', () => {
+    expect(parseApiTimestamp('2024-07-01 12:00')).toBe(Date.UTC(2024, 6, 1, 12));
+    expect(parseApiTimestamp('2024-07-01T12:00:30')).toBe(Date.UTC(2024, 6, 1, 12, 0, 30));
+    expect(parseApiTimestamp('2024-07-01T12:00:00-04:00')).toBe(Date.UTC(2024, 6, 1, 16));
+  });
+});
+
+describe('resolveTimeZone', () => {
+  const eastern = { offsetHours: -5, observesDst: true };
+
+  test('maps station metadata to a display zone per mode', () => {
+    expect(resolveTimeZone('lst_ldt', eastern)).toMatchObject({ zone: 'America/New_York', label: 'LST/LDT', isEstimated: false });
+    expect(resolveTimeZone('lst', eastern)).toMatchObject({ zone: 'Etc/GMT+5', label: 'LST' });
+    expect(resolveTimeZone('lst_ldt', { offsetHours: -10, observesDst: false })).toMatchObject({ zone: 'Etc/GMT+10', label: 'LST' });
+    expect(resolveTimeZone('gmt', eastern)).toMatchObject({ zone: 'UTC', label: 'GMT' });
+  });
+
+  test('estimates from longitude, then falls back to GMT', () => {
+    expect(resolveTimeZone('lst_ldt', null, -76.3)).toMatchObject({ zone: 'America/New_York', isEstimated: true });
+    expect(resolveTimeZone('lst_ldt', null)).toMatchObject({ zone: 'UTC', label: 'GMT' });
+  });
+
+  test('inverts Etc/GMT signs for fixed offsets', () => {
+    expect(fixedOffsetZone(-5)).toBe('Etc/GMT+5');
+    expect(fixedOffsetZone(9)).toBe('Etc/GMT-9');
+    expect(fixedOffsetZone(0)).toBe('UTC');
+  });
+});
+
+describe('zoned wall clock', () => {
+  test('formats and parses wall-clock times across DST', () => {
+    expect(formatZonedTimestamp(Date.UTC(2024, 6, 1, 12), 'America/New_York')).toBe('2024-07-01 08:00');
+    expect(parseZonedTimestamp('2024-07-01 08:00', 'America/New_York')).toBe(Date.UTC(2024, 6, 1, 12));
+    expect(parseZonedTimestamp('2024-01-15 08:00', 'America/New_York')).toBe(Date.UTC(2024, 0, 15, 13));
+    expect(getZoneOffsetMinutes(Date.UTC(2024, 0, 15), 'America/New_York')).toBe(-300);
+  });
+
+  test('finds local midnight on DST transition days', () => {
+    expect(startOfZonedDay('2024-03-10', 'America/New_York')).toBe(Date.UTC(2024, 2, 10, 5));
+    expect(startOfZonedDay('2024-11-03', 'America/New_York')).toBe(Date.UTC(2024, 10, 3, 4));
+  });
+});
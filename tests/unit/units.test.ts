@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'vitest';
+import {
+  convertDatum,
+  convertLength,
+  createWaterLevelConverter,
+  deriveDatumOffsets,
+  formatLength,
+  normalizeDatum,
+  normalizeLengthUnit,
+} from '../../src/utils/units';
+
+describe('unit conversion', () => {
+  test('normalizes unit and datum names from APIs', () => {
+    expect(normalizeLengthUnit(' Feet ')).toBe('ft');
+    expect(normalizeLengthUnit('metres')).toBe('m');
+    expect(normalizeLengthUnit('fathoms')).toBeNull();
+    expect(normalizeDatum('NAVD 88')).toBe('NAVD88');
+    expect(normalizeDatum('mllw')).toBe('MLLW');
+    expect(normalizeDatum('STND')).toBeNull();
+  });
+
+  test('converts between feet and meters', () => {
+    expect(convertLength(10, 'feet', 'm')).toBeCloseTo(3.048);
+    expect(convertLength(3.048, 'm', 'ft')).toBeCloseTo(10);
+    expect(convertLength(5, 'ft', 'ft')).toBe(5);
+    expect(convertLength(5, 'furlongs', 'm')).toBe(5); // Unknown units pass through
+  });
+
+  test('formats lengths with their unit', () => {
+    expect(formatLength(1.234, 'ft')).toBe('1.23 ft');
+    expect(formatLength(null, 'm')).toBe('-');
+  });
+});
+
+describe('datum conversion', () => {
+  const offsets = { MLLW: -1.5, MSL: 0.2, NAVD88: 0 };
+
+  test('moves a level between datums through the common reference', () => {
+    expect(convertDatum(3, 'MLLW', 'NAVD88', offsets)).toBeCloseTo(1.5);
+    expect(convertDatum(1.5, 'NAVD88', 'MLLW', offsets)).toBeCloseTo(3);
+    expect(convertDatum(3, 'MLLW', 'MSL', offsets)).toBeCloseTo(1.3);
+  });
+
+  test('returns null when a datum has no offset', () => {
+    expect(convertDatum(3, 'MLLW', 'MSL', { MLLW: -1.5 })).toBeNull();
+    expect(convertDatum(3, 'STND', 'MSL', offsets)).toBeNull();
+    expect(convertDatum(3, 'MSL', 'MSL', {})).toBe(3);
+  });
+
+  test('derives the records datum offset from the median v/v_navd difference', () => {
+    const records = [
+      { v: 2, v_navd: 0.5, used_datum: 'MLLW' },
+      { v: 3, v_navd: 1.5, used_datum: 'MLLW' },
+      { v: 4, v_navd: 9, used_datum: 'MLLW' }, // Stale NAVD value
+      { v: 1, v_navd: null, used_datum: 'MLLW' },
+    ];
+    expect(deriveDatumOffsets(records)).toEqual({ MLLW: -1.5, NAVD88: 0 });
+    expect(deriveDatumOffsets([])).toEqual({});
+  });
+});
+
+describe('createWaterLevelConverter', () => {
+  const sample = { v: 3, v_navd: 1.5, used_datum: 'MLLW' };
+
+  test('converts records to the preferred unit and datum', () => {
+    const converter = createWaterLevelConverter({ MLLW: -1.5, NAVD88: 0 }, sample, 'm', 'NAVD88');
+    expect(converter.datum).toBe('NAVD88');
+    expect(converter.isDatumFallback).toBe(false);
+    expect(converter.valueOf(sample)).toBeCloseTo(1.5 * 0.3048);
+    expect(converter.levelOf(3, 'MLLW')).toBeCloseTo(1.5 * 0.3048);
+  });
+
+  test('falls back to the records datum when the preferred one is unreachable', () => {
+    const converter = createWaterLevelConverter({}, sample, 'ft', 'MSL');
+    expect(converter.datum).toBe('MLLW');
+    expect(converter.isDatumFallback).toBe(true);
+    expect(converter.valueOf(sample)).toBe(3);
+  });
+});
@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config'
+import tsConfigPaths from 'vite-tsconfig-paths'
+
+// Unit specs for pure logic; the Playwright e2e specs in tests/ run against the dev server
+export default defineConfig({
+  plugins: [
+    tsConfigPaths({
+      projects: ['./tsconfig.json'],
+    }),
+  ],
+  test: {
+    include: ['tests/unit/**/*.test.ts'],
+    environment: 'node', // Specs that parse XML or load Leaflet opt into jsdom per file
+  },
+})